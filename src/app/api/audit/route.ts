@@ -0,0 +1,28 @@
+/**
+ * Audit Log API
+ *
+ * GET /api/audit - Query or export the audit log across customers
+ *
+ * Query: customerId, action (comma-separated or repeated), from, to
+ * (inclusive ISO date-times), limit (most recent N) and format (json, csv,
+ * jsonl). JSON responses carry `{ total, chainValid }` in meta, where
+ * chainValid reports whether the full log's hash chain is intact.
+ */
+
+import { auditLogResponse, parseAuditQuery } from '@/lib/api/audit';
+import { apiSuccess, withErrorHandling } from '@/lib/api/responses';
+import { getAuditLog, verifyAuditChain } from '@/lib/auditLog';
+
+export function GET(request: Request) {
+  return withErrorHandling(async () => {
+    const { query, format } = parseAuditQuery(new URL(request.url).searchParams);
+    const log = getAuditLog();
+    const entries = await log.query(query);
+
+    if (format === 'json') {
+      const chainValid = verifyAuditChain(await log.query()) === null;
+      return apiSuccess(entries, { meta: { total: entries.length, chainValid } });
+    }
+    return auditLogResponse(entries, format, 'audit-log');
+  });
+}
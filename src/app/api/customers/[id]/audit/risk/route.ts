@@ -0,0 +1,37 @@
+/**
+ * Customer Risk Explanation API
+ *
+ * GET /api/customers/[id]/audit/risk?at=<ISO date-time> - Why the customer
+ * had its risk level at a point in time (default: now)
+ *
+ * Answers from the latest score recorded in the audit log at or before
+ * `at`: the factor reasons ordered by points lost, the score entry with its
+ * inputs, and the changes recorded since the score before it. Fails with
+ * NOT_FOUND if no score had been recorded by then.
+ */
+
+import { apiError, apiSuccess, withErrorHandling } from '@/lib/api/responses';
+import { explainRiskLevelAt, getAuditLog } from '@/lib/auditLog';
+import { InvalidInputError } from '@/lib/healthCalculator';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export function GET(request: Request, { params }: RouteContext) {
+  return withErrorHandling(async () => {
+    const { id } = await params;
+    const raw = new URL(request.url).searchParams.get('at')?.trim();
+    const at = raw ? new Date(raw) : new Date();
+    if (Number.isNaN(at.getTime())) {
+      const message = 'at must be an ISO date-time';
+      throw new InvalidInputError(message, [{ path: 'at', code: 'invalid_value', message, received: raw }]);
+    }
+
+    const explanation = await explainRiskLevelAt(getAuditLog(), id, at);
+    if (!explanation) {
+      return apiError('NOT_FOUND', `No health score recorded for customer ${id} by ${at.toISOString()}`);
+    }
+    return apiSuccess(explanation);
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * Customer Audit History API
+ *
+ * GET /api/customers/[id]/audit - A customer's audit entries, oldest first
+ *
+ * Query: action (comma-separated or repeated), from, to, limit and format
+ * (json, csv, jsonl). History outlives the customer, so deleted customers
+ * can still be queried.
+ */
+
+import { auditLogResponse, parseAuditQuery } from '@/lib/api/audit';
+import { withErrorHandling } from '@/lib/api/responses';
+import { getAuditLog } from '@/lib/auditLog';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export function GET(request: Request, { params }: RouteContext) {
+  return withErrorHandling(async () => {
+    const { id } = await params;
+    const { query, format } = parseAuditQuery(new URL(request.url).searchParams);
+    const entries = await getAuditLog().query({ ...query, customerId: id });
+    return auditLogResponse(entries, format, `customer-${id.replace(/[^\w-]/g, '_')}-audit`);
+  });
+}
@@ -0,0 +1,28 @@
+/**
+ * Stored Health Data API
+ *
+ * GET /api/customers/[id]/health-data - The customer's stored health data
+ *
+ * Returns the raw health data (null when none is stored) so clients can
+ * load one customer's inputs on demand. Fails with NOT_FOUND if the
+ * customer does not exist.
+ */
+
+import { apiSuccess, withErrorHandling } from '@/lib/api/responses';
+import { CustomerNotFoundError, getCustomerRepository } from '@/lib/customerRepository';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export function GET(_request: Request, { params }: RouteContext) {
+  return withErrorHandling(async () => {
+    const { id } = await params;
+    const repository = getCustomerRepository();
+
+    if (!(await repository.get(id))) {
+      throw new CustomerNotFoundError(id);
+    }
+    return apiSuccess((await repository.getHealthData(id)) ?? null);
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * Stored Customer Health API
+ *
+ * GET /api/customers/[id]/health - Score the customer's stored health data
+ *
+ * Scores on demand with partial data allowed (override with
+ * `allowPartialData=false`); `version` selects a registered scoring version.
+ * Fails with NOT_FOUND if the customer or its health data does not exist.
+ */
+
+import { parseScoreRequestOptions, scoreRecord } from '@/lib/api/healthScore';
+import { apiError, apiSuccess, withErrorHandling } from '@/lib/api/responses';
+import { CustomerNotFoundError, getCustomerRepository } from '@/lib/customerRepository';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export function GET(request: Request, { params }: RouteContext) {
+  return withErrorHandling(async () => {
+    const { id } = await params;
+    const scoreRequest = parseScoreRequestOptions(new URL(request.url).searchParams, { allowPartialData: true });
+    const repository = getCustomerRepository();
+
+    if (!(await repository.get(id))) {
+      throw new CustomerNotFoundError(id);
+    }
+    const healthData = await repository.getHealthData(id);
+    if (!healthData) {
+      return apiError('NOT_FOUND', `Customer ${id} has no health data`);
+    }
+    return apiSuccess(scoreRecord(healthData, scoreRequest));
+  });
+}
@@ -0,0 +1,61 @@
+/**
+ * Customer Hierarchy API
+ *
+ * GET /api/customers/[id]/hierarchy - Rolled-up health for an account and
+ * its child accounts
+ *
+ * Every account in the subtree is scored from its stored health data
+ * (partial data allowed). The account's overallScore is the ARR-weighted
+ * aggregate of its children's, and worstChild names the lowest-scoring
+ * account below it. Fails with NOT_FOUND if the customer does not exist.
+ */
+
+import type { Customer } from '@/data/mock-customers';
+import { buildAccountHierarchy, scoreAccountHierarchy, type AccountNode } from '@/lib/accountHierarchy';
+import { apiSuccess, withErrorHandling } from '@/lib/api/responses';
+import { CustomerNotFoundError, getCustomerRepository } from '@/lib/customerRepository';
+import type { PortfolioEntry } from '@/lib/portfolioHealth';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * The node for a customer, searched depth-first
+ */
+function findNode(nodes: AccountNode[], id: string): AccountNode | undefined {
+  for (const node of nodes) {
+    const found = node.customer.id === id ? node : findNode(node.children, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Customers in a subtree, parent first
+ */
+function flatten(node: AccountNode): Customer[] {
+  return [node.customer, ...node.children.flatMap(flatten)];
+}
+
+export function GET(_request: Request, { params }: RouteContext) {
+  return withErrorHandling(async () => {
+    const { id } = await params;
+    const repository = getCustomerRepository();
+
+    const node = findNode(buildAccountHierarchy(await repository.list()), id);
+    if (!node) {
+      throw new CustomerNotFoundError(id);
+    }
+    // The account's own parent is outside the subtree, so the account is the only root
+    const customers = flatten(node);
+    const entries: PortfolioEntry[] = [];
+    for (const customer of customers) {
+      const healthData = await repository.getHealthData(customer.id);
+      if (healthData) entries.push({ customer, healthData });
+    }
+
+    const [rollUp] = scoreAccountHierarchy(customers, entries);
+    return apiSuccess(rollUp);
+  });
+}
@@ -0,0 +1,44 @@
+/**
+ * Customer Health Report API
+ *
+ * GET /api/customers/[id]/report - Printable HTML health report
+ *
+ * Scores the customer's stored health data (partial data allowed) and
+ * renders the breakdown as a standalone page; printing it or saving it as
+ * PDF from the browser produces the PDF report. `download=true` serves it
+ * as an attachment. Health data that cannot be scored is reported with the
+ * stored score, as in the export. Fails with the JSON NOT_FOUND envelope if
+ * the customer does not exist.
+ */
+
+import { withErrorHandling } from '@/lib/api/responses';
+import { CustomerNotFoundError, getCustomerRepository } from '@/lib/customerRepository';
+import { renderHealthReportHtml, scoreHealthExportRow } from '@/lib/healthExport';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export function GET(request: Request, { params }: RouteContext) {
+  return withErrorHandling(async () => {
+    const { id } = await params;
+    const repository = getCustomerRepository();
+
+    const customer = await repository.get(id);
+    if (!customer) {
+      throw new CustomerNotFoundError(id);
+    }
+    const healthData = await repository.getHealthData(id);
+    const row = scoreHealthExportRow(customer, healthData);
+
+    const download = new URL(request.url).searchParams.get('download') === 'true';
+    const fileName = `health-report-${id.replace(/[^A-Za-z0-9_-]/g, '_')}.html`;
+    return new Response(renderHealthReportHtml(row), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+        ...(download && { 'Content-Disposition': `attachment; filename="${fileName}"` })
+      }
+    });
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Customer Resource API
+ *
+ * GET    /api/customers/[id] - Get a customer
+ * PUT    /api/customers/[id] - Update a customer's fields
+ * DELETE /api/customers/[id] - Delete a customer and its health data
+ *
+ * Every response carries the customer's updatedAt as an ETag. Send it back
+ * in an If-Match header on PUT or DELETE to fail with 409 CONFLICT instead
+ * of overwriting someone else's change. Writes are recorded in the audit
+ * log under the X-Actor and X-Change-Reason headers.
+ */
+
+import { readAuditContext } from '@/lib/api/audit';
+import { sanitizeCustomerBody } from '@/lib/api/customers';
+import { apiSuccess, readJsonObject, withErrorHandling } from '@/lib/api/responses';
+import { CustomerNotFoundError, getCustomerRepository, type WriteOptions } from '@/lib/customerRepository';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * ETag header for a customer version
+ */
+function versionHeaders(updatedAt: string | undefined): HeadersInit {
+  return updatedAt ? { ETag: `"${updatedAt}"` } : {};
+}
+
+/**
+ * Expected version from an If-Match header (quotes optional) and audit context
+ */
+function writeOptions(request: Request): WriteOptions {
+  const ifMatch = request.headers.get('if-match')?.trim();
+  return {
+    ...readAuditContext(request),
+    ...(ifMatch && { expectedUpdatedAt: ifMatch.replace(/^"|"$/g, '') })
+  };
+}
+
+export function GET(_request: Request, { params }: RouteContext) {
+  return withErrorHandling(async () => {
+    const { id } = await params;
+    const customer = await getCustomerRepository().get(id);
+    if (!customer) {
+      throw new CustomerNotFoundError(id);
+    }
+    return apiSuccess(customer, { headers: versionHeaders(customer.updatedAt) });
+  });
+}
+
+/**
+ * Update the fields present in the JSON body; omitted fields are unchanged
+ */
+export function PUT(request: Request, { params }: RouteContext) {
+  return withErrorHandling(async () => {
+    const { id } = await params;
+    const body = await readJsonObject(request);
+    const customer = await getCustomerRepository().update(id, sanitizeCustomerBody(body), writeOptions(request));
+    return apiSuccess(customer, { headers: versionHeaders(customer.updatedAt) });
+  });
+}
+
+export function DELETE(request: Request, { params }: RouteContext) {
+  return withErrorHandling(async () => {
+    const { id } = await params;
+    await getCustomerRepository().delete(id, writeOptions(request));
+    return apiSuccess({ id, deleted: true });
+  });
+}
@@ -0,0 +1,42 @@
+/**
+ * Customer Health Export API
+ *
+ * GET /api/customers/export - Download customers with current health scores
+ *
+ * Query: format (csv, json), tier, risk (comma-separated or repeated),
+ * from, to and dateField (createdAt, updatedAt). The file is streamed as
+ * rows are scored, so large exports start downloading immediately.
+ * Invalid parameters fail with the usual JSON error envelope.
+ */
+
+import { parseHealthExportQuery } from '@/lib/api/customers';
+import { withErrorHandling } from '@/lib/api/responses';
+import { getCustomerRepository } from '@/lib/customerRepository';
+import {
+  formatHealthExportCsv,
+  formatHealthExportJson,
+  scoreCustomersForExport,
+  toByteStream
+} from '@/lib/healthExport';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+export function GET(request: Request) {
+  return withErrorHandling(async () => {
+    const { format, filter } = parseHealthExportQuery(new URL(request.url).searchParams);
+    const rows = scoreCustomersForExport(getCustomerRepository(), filter);
+    const chunks = format === 'json' ? formatHealthExportJson(rows) : formatHealthExportCsv(rows);
+    const fileName = `customer-health-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new Response(toByteStream(chunks), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Customer Import API
+ *
+ * POST /api/customers/import - Preview or run a CSV/XLSX import
+ *
+ * Multipart form fields:
+ * - `file` (required): .csv or .xlsx, at most 10 MB and 10,000 rows
+ * - `mapping`: JSON object of column header to field key (null to ignore);
+ *   defaults to the suggested mapping
+ * - `mode`: 'preview' (default) validates and scores without writing;
+ *   'commit' writes valid rows and reports every row's outcome
+ * - `sheet`: worksheet name for XLSX files (default: the first sheet)
+ *
+ * Previews return the plan with the mappable fields in meta; commits return
+ * the per-row report with totals in meta. Invalid rows never fail the request.
+ * Committed writes are audited under the X-Actor header (default 'import')
+ * with the file name and row number as the reason.
+ */
+
+import { DEFAULT_API_ACTOR, readAuditContext } from '@/lib/api/audit';
+import { apiSuccess, withErrorHandling } from '@/lib/api/responses';
+import {
+  detectImportFormat,
+  listImportFields,
+  parseImportFile,
+  previewImport,
+  readStoredHealthData,
+  runImport,
+  suggestColumnMapping,
+  type ColumnMapping
+} from '@/lib/customerImport';
+import { getCustomerRepository } from '@/lib/customerRepository';
+import { InvalidInputError, type ValidationIssue } from '@/lib/healthCalculator';
+import { throwIfIssues } from '@/lib/ingestion/records';
+
+/** Largest upload accepted, in bytes */
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Parse the mapping field: a JSON object of header to field key or null
+ */
+function parseMapping(raw: string, issues: ValidationIssue[]): ColumnMapping | undefined {
+  let mapping: unknown;
+  try {
+    mapping = JSON.parse(raw);
+  } catch {
+    mapping = undefined;
+  }
+  const valid = typeof mapping === 'object' && mapping !== null && !Array.isArray(mapping) &&
+    Object.values(mapping).every(key => key === null || typeof key === 'string');
+  if (!valid) {
+    issues.push({
+      path: 'mapping',
+      code: 'invalid_type',
+      message: 'mapping must be a JSON object of column header to field key or null',
+      expected: { type: 'object' },
+      received: raw
+    });
+    return undefined;
+  }
+  return mapping as ColumnMapping;
+}
+
+export function POST(request: Request) {
+  return withErrorHandling(async () => {
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      const message = 'Request body must be multipart/form-data with a file field';
+      throw new InvalidInputError(message, [{ path: 'file', code: 'required', message, received: undefined }]);
+    }
+
+    const issues: ValidationIssue[] = [];
+    const file = form.get('file');
+    const format = file instanceof File ? detectImportFormat(file.name, file.type) : null;
+    if (!(file instanceof File)) {
+      issues.push({ path: 'file', code: 'required', message: 'file is required', received: undefined });
+    } else if (!format) {
+      issues.push({
+        path: 'file',
+        code: 'invalid_value',
+        message: 'file must be a .csv or .xlsx file',
+        received: file.name
+      });
+    } else if (file.size > MAX_FILE_BYTES) {
+      issues.push({
+        path: 'file',
+        code: 'out_of_range',
+        message: `file must be at most ${MAX_FILE_BYTES / 1024 / 1024} MB`,
+        expected: { max: MAX_FILE_BYTES },
+        received: file.size
+      });
+    }
+
+    const mode = form.get('mode') ?? 'preview';
+    if (mode !== 'preview' && mode !== 'commit') {
+      issues.push({ path: 'mode', code: 'invalid_value', message: "mode must be 'preview' or 'commit'", received: mode });
+    }
+    const rawMapping = form.get('mapping');
+    const mapping = typeof rawMapping === 'string' && rawMapping.trim() !== ''
+      ? parseMapping(rawMapping, issues)
+      : undefined;
+    const sheet = form.get('sheet');
+
+    throwIfIssues(issues);
+
+    const table = parseImportFile(
+      Buffer.from(await (file as File).arrayBuffer()),
+      format!,
+      typeof sheet === 'string' && sheet !== '' ? sheet : undefined
+    );
+    const fields = listImportFields();
+    const columnMapping = mapping ?? suggestColumnMapping(table.headers, fields);
+    const repository = getCustomerRepository();
+
+    if (mode === 'commit') {
+      const context = readAuditContext(request);
+      const report = await runImport(table, columnMapping, repository, {
+        actor: context.actor === DEFAULT_API_ACTOR ? 'import' : context.actor,
+        reason: context.reason ?? `Imported from ${(file as File).name}`
+      });
+      return apiSuccess(report.rows, { meta: { ...report.summary } });
+    }
+    const existing = await repository.list();
+    const storedHealthData = await readStoredHealthData(repository, existing);
+    const preview = previewImport(table, columnMapping, existing, fields, storedHealthData);
+    return apiSuccess(preview, { meta: { fields } });
+  });
+}
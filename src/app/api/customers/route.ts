@@ -0,0 +1,50 @@
+/**
+ * Customer Collection API
+ *
+ * GET  /api/customers - List customers (filter, search, sort, paginate)
+ * POST /api/customers - Create a customer
+ *
+ * Responses use the shared envelope: `{ data, meta? }` on success and
+ * `{ error: { code, message, issues? } }` on failure.
+ */
+
+import { readAuditContext } from '@/lib/api/audit';
+import { parseCustomerListQuery, queryCustomers, sanitizeCustomerBody } from '@/lib/api/customers';
+import { apiSuccess, readJsonObject, withErrorHandling } from '@/lib/api/responses';
+import { getCustomerRepository, type CustomerInput } from '@/lib/customerRepository';
+
+/**
+ * List customers
+ *
+ * Query: tier, risk (comma-separated), q, parentId, sort, order, page, pageSize.
+ * Returns the page of customers with `{ total, page, pageSize, totalPages }` in meta.
+ */
+export function GET(request: Request) {
+  return withErrorHandling(async () => {
+    const query = parseCustomerListQuery(new URL(request.url).searchParams);
+    const { items, meta } = queryCustomers(await getCustomerRepository().list(), query);
+    return apiSuccess(items, { meta: { ...meta } });
+  });
+}
+
+/**
+ * Create a customer from a JSON body (name, company, healthScore required)
+ *
+ * Returns 201 with the stored customer and a Location header. The creation
+ * is audited under the X-Actor and X-Change-Reason headers.
+ */
+export function POST(request: Request) {
+  return withErrorHandling(async () => {
+    const body = await readJsonObject(request);
+    const input = {
+      ...sanitizeCustomerBody(body),
+      ...(body.id !== undefined && { id: body.id })
+    } as CustomerInput;
+
+    const customer = await getCustomerRepository().create(input, readAuditContext(request));
+    return apiSuccess(customer, {
+      status: 201,
+      headers: { Location: `/api/customers/${encodeURIComponent(customer.id)}` }
+    });
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * Batch Health Score API
+ *
+ * POST /api/health-score/batch - Score up to MAX_BATCH_SIZE records
+ *
+ * Body: `{ "records": [CustomerHealthData, ...] }`. Query parameters match
+ * POST /api/health-score. Each record is scored independently: the response
+ * is 200 with one item per record (`status: 'ok'` with the result, or
+ * `status: 'error'` with the error code and issues), and counts in meta.
+ * Like the single-record endpoint, this is read-only: records are what-if
+ * inputs, so nothing is written to the audit log.
+ */
+
+import { MAX_BATCH_SIZE, parseScoreRequestOptions, scoreBatch } from '@/lib/api/healthScore';
+import { apiSuccess, readJsonObject, withErrorHandling } from '@/lib/api/responses';
+import { InvalidInputError } from '@/lib/healthCalculator';
+
+export function POST(request: Request) {
+  return withErrorHandling(async () => {
+    const scoreRequest = parseScoreRequestOptions(new URL(request.url).searchParams);
+    const { records } = await readJsonObject(request);
+
+    if (!Array.isArray(records)) {
+      throw new InvalidInputError('records must be an array', [{
+        path: 'records',
+        code: 'invalid_type',
+        message: 'records must be an array',
+        expected: { type: 'object' },
+        received: records
+      }]);
+    }
+    if (records.length > MAX_BATCH_SIZE) {
+      throw new InvalidInputError(`records must contain at most ${MAX_BATCH_SIZE} items, got ${records.length}`, [{
+        path: 'records',
+        code: 'out_of_range',
+        message: `records must contain at most ${MAX_BATCH_SIZE} items`,
+        expected: { max: MAX_BATCH_SIZE },
+        received: records.length
+      }]);
+    }
+
+    const { items, succeeded, failed } = scoreBatch(records, scoreRequest);
+    return apiSuccess(items, { meta: { total: items.length, succeeded, failed } });
+  });
+}
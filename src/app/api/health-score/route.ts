@@ -0,0 +1,21 @@
+/**
+ * Health Score API
+ *
+ * POST /api/health-score - Score one CustomerHealthData body
+ *
+ * Query: `version` (registered scoring version) and `allowPartialData`
+ * (default false). Returns the HealthScoreResult in the shared envelope;
+ * invalid data fails with VALIDATION_ERROR listing every invalid field.
+ */
+
+import { parseScoreRequestOptions, scoreRecord } from '@/lib/api/healthScore';
+import { apiSuccess, readJsonObject, withErrorHandling } from '@/lib/api/responses';
+import type { PartialCustomerHealthData } from '@/lib/healthCalculator';
+
+export function POST(request: Request) {
+  return withErrorHandling(async () => {
+    const scoreRequest = parseScoreRequestOptions(new URL(request.url).searchParams);
+    const body = await readJsonObject(request);
+    return apiSuccess(scoreRecord(body as PartialCustomerHealthData, scoreRequest));
+  });
+}
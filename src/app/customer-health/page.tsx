@@ -1,24 +1,96 @@
 import { CustomerCard } from '@/components/CustomerCard';
-import { mockCustomers } from '@/data/mock-customers';
+import { HealthExportForm } from '@/components/HealthExportForm';
+import { PortfolioHealthSummary } from '@/components/PortfolioHealthSummary';
+import type { Customer } from '@/data/mock-customers';
+import { getAuditLog, latestRecordedRiskLevel } from '@/lib/auditLog';
+import { getCustomerRepository } from '@/lib/customerRepository';
+import {
+  calculateHealthScore,
+  CalculationError,
+  classifyRiskLevel,
+  InvalidInputError,
+  type HealthScoreResult,
+  type PartialCustomerHealthData,
+  type PreviousRiskLevel
+} from '@/lib/healthCalculator';
+import { calculatePortfolioHealth, type PortfolioEntry } from '@/lib/portfolioHealth';
 
-export default function CustomerHealthPage() {
-  // Filter customers by health score ranges
-  const atRiskCustomers = mockCustomers.filter(
-    (customer) => customer.healthScore >= 0 && customer.healthScore <= 30
-  );
+// Customers are read from the repository on every request
+export const dynamic = 'force-dynamic';
 
-  const needsAttentionCustomers = mockCustomers.filter(
-    (customer) => customer.healthScore >= 31 && customer.healthScore <= 70
-  );
+interface CustomerWithHealthData {
+  customer: Customer;
+  healthData?: PartialCustomerHealthData;
+  /** Last recorded risk level, which the new score is debounced against */
+  previousResult?: PreviousRiskLevel;
+}
+
+interface ScoredCustomer extends CustomerWithHealthData {
+  healthResult?: HealthScoreResult;
+}
+
+/**
+ * Calculate each customer's health score, tolerating missing factor data.
+ * Risk levels are debounced against the last recorded level (default
+ * hysteresis), so a score hovering at a band boundary keeps its bucket.
+ * Customers without health data, or whose data cannot be scored, keep their
+ * stored score.
+ */
+function scoreCustomers(customers: CustomerWithHealthData[]): ScoredCustomer[] {
+  return customers.map(({ customer, healthData, previousResult }) => {
+    if (!healthData) {
+      return { customer };
+    }
+    try {
+      const healthResult = calculateHealthScore(healthData, { allowPartialData: true, previousResult, hysteresis: {} });
+      return { customer, healthData, healthResult };
+    } catch (error) {
+      if (!(error instanceof InvalidInputError) && !(error instanceof CalculationError)) throw error;
+      return { customer, healthData };
+    }
+  });
+}
 
-  const healthyCustomers = mockCustomers.filter(
-    (customer) => customer.healthScore >= 71 && customer.healthScore <= 100
+/**
+ * Pair each customer with its health data for portfolio scoring
+ */
+function buildPortfolioEntries(customers: CustomerWithHealthData[]): PortfolioEntry[] {
+  return customers.flatMap(({ customer, healthData }) => (healthData ? [{ customer, healthData }] : []));
+}
+
+export default async function CustomerHealthPage() {
+  const repository = getCustomerRepository();
+  const auditLog = getAuditLog();
+  const customers = await Promise.all(
+    (await repository.list()).map(async (customer) => ({
+      customer,
+      healthData: await repository.getHealthData(customer.id),
+      previousResult: await latestRecordedRiskLevel(auditLog, customer.id)
+    }))
   );
+  const scoredCustomers = scoreCustomers(customers);
+  const portfolio = calculatePortfolioHealth(buildPortfolioEntries(customers));
+
+  // Bucket by the calculated, debounced risk level, falling back to the stored score
+  const riskOf = ({ customer, healthResult }: ScoredCustomer) =>
+    healthResult?.riskLevel ?? classifyRiskLevel(customer.healthScore);
+
+  const atRiskCustomers = scoredCustomers.filter((scored) => riskOf(scored) === 'critical');
+
+  const needsAttentionCustomers = scoredCustomers.filter((scored) => riskOf(scored) === 'warning');
+
+  const healthyCustomers = scoredCustomers.filter((scored) => riskOf(scored) === 'healthy');
 
   return (
     <div className="container mx-auto p-6">
       <h1 className="text-3xl font-bold mb-8 text-gray-900">Customer Health Dashboard</h1>
 
+      {/* Portfolio Summary */}
+      <PortfolioHealthSummary portfolio={portfolio} className="mb-6" />
+
+      {/* Export */}
+      <HealthExportForm className="mb-10" />
+
       {/* At-Risk Customers (Red: 0-30) */}
       <section className="mb-10">
         <div className="flex items-center gap-3 mb-4">
@@ -35,8 +107,8 @@ export default function CustomerHealthPage() {
         </p>
         {atRiskCustomers.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {atRiskCustomers.map((customer) => (
-              <CustomerCard key={customer.id} customer={customer} />
+            {atRiskCustomers.map(({ customer, healthResult }) => (
+              <CustomerCard key={customer.id} customer={customer} healthResult={healthResult} />
             ))}
           </div>
         ) : (
@@ -62,8 +134,8 @@ export default function CustomerHealthPage() {
         </p>
         {needsAttentionCustomers.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {needsAttentionCustomers.map((customer) => (
-              <CustomerCard key={customer.id} customer={customer} />
+            {needsAttentionCustomers.map(({ customer, healthResult }) => (
+              <CustomerCard key={customer.id} customer={customer} healthResult={healthResult} />
             ))}
           </div>
         ) : (
@@ -89,8 +161,8 @@ export default function CustomerHealthPage() {
         </p>
         {healthyCustomers.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {healthyCustomers.map((customer) => (
-              <CustomerCard key={customer.id} customer={customer} />
+            {healthyCustomers.map(({ customer, healthResult }) => (
+              <CustomerCard key={customer.id} customer={customer} healthResult={healthResult} />
             ))}
           </div>
         ) : (
@@ -0,0 +1,43 @@
+/**
+ * Account Hierarchy Page
+ *
+ * Customers arranged by parent account. Parent accounts show health rolled
+ * up from their subsidiaries and divisions (weighted by ARR) and surface
+ * the worst account below them; parents with child accounts are listed
+ * first, weakest roll-up first.
+ */
+
+import { CustomerHierarchy } from '@/components/CustomerHierarchy';
+import { scoreAccountHierarchy } from '@/lib/accountHierarchy';
+import { getCustomerRepository } from '@/lib/customerRepository';
+import type { PortfolioEntry } from '@/lib/portfolioHealth';
+
+// Customers are read from the repository on every request
+export const dynamic = 'force-dynamic';
+
+export default async function CustomerHierarchyPage() {
+  const repository = getCustomerRepository();
+  const customers = await repository.list();
+  const entries: PortfolioEntry[] = [];
+  for (const customer of customers) {
+    const healthData = await repository.getHealthData(customer.id);
+    if (healthData) entries.push({ customer, healthData });
+  }
+
+  // Parents first, then weakest first; unscored accounts (null) sort after every score
+  const accounts = scoreAccountHierarchy(customers, entries).sort((a, b) =>
+    Number(b.children.length > 0) - Number(a.children.length > 0) ||
+    (a.overallScore ?? 101) - (b.overallScore ?? 101)
+  );
+
+  return (
+    <div className="container mx-auto p-6">
+      <h1 className="text-3xl font-bold mb-2 text-gray-900">Account Hierarchy</h1>
+      <p className="text-sm text-gray-600 mb-8">
+        Parent scores are the ARR-weighted health of their child accounts. Expand a parent to see its subsidiaries
+        and divisions.
+      </p>
+      <CustomerHierarchy accounts={accounts} />
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+/**
+ * Customer Import Page
+ *
+ * Imports customers and their health data from CSV or XLSX files through
+ * the /api/customers/import route, with column mapping, a scored preview
+ * and a per-row error report.
+ */
+
+import { CustomerImport } from '@/components/CustomerImport';
+
+export default function CustomerImportPage() {
+  return <CustomerImport />;
+}
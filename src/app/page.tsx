@@ -1,32 +1,26 @@
-'use client';
-
 import { Suspense } from 'react';
 import { CustomerCard } from '../components/CustomerCard';
+import { getCustomerRepository } from '@/lib/customerRepository';
 
-// Dynamic component imports with error boundaries
-const CustomerCardDemo = () => {
-  try {
-    // Try to import CustomerCard - this will work after Exercise 3
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    const mockCustomers = require('../data/mock-customers')?.mockCustomers;
-    
-    if (mockCustomers && mockCustomers.length > 0) {
-      return (
-        <div className="space-y-4">
-          <p className="text-green-600 text-sm font-medium">✅ CustomerCard implemented!</p>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {mockCustomers.map((customer: any) => (
-              <CustomerCard key={customer.id} customer={customer} />
-            ))}
-          </div>
+// Customers are read from the repository on every request
+export const dynamic = 'force-dynamic';
+
+const CustomerCardDemo = async () => {
+  const customers = await getCustomerRepository().list();
+
+  if (customers.length > 0) {
+    return (
+      <div className="space-y-4">
+        <p className="text-green-600 text-sm font-medium">✅ CustomerCard implemented!</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {customers.map((customer) => (
+            <CustomerCard key={customer.id} customer={customer} />
+          ))}
         </div>
-      );
-    }
-  } catch (error) {
-    // Component doesn't exist yet
+      </div>
+    );
   }
-  
+
   return (
     <div className="text-gray-500 text-sm">
       After Exercise 3, your CustomerCard components will appear here showing customer information with health scores.
@@ -1,8 +1,14 @@
 import { Customer } from '@/data/mock-customers';
+import type { AccountRollUp } from '@/lib/accountHierarchy';
+import type { HealthScoreResult } from '@/lib/healthCalculator';
 
 export interface CustomerCardProps {
   customer: Customer;
   className?: string;
+  /** Calculated health result; overrides the stored healthScore when provided */
+  healthResult?: HealthScoreResult;
+  /** Rolled-up health of a parent account; its score overrides the account's own */
+  rollUp?: Pick<AccountRollUp, 'overallScore' | 'descendantCount' | 'worstChild'>;
 }
 
 /**
@@ -41,13 +47,17 @@ function getHealthScoreColors(score: number): {
  * Displays individual customer information including:
  * - Customer name and company
  * - Color-coded health score (0-100)
+ * - Low-confidence flag when the calculated score is missing factor data
+ * - For parent accounts, the rolled-up score and the worst child account
  * - Domain information with hover tooltip for multiple domains
  *
  * Responsive design with mobile-first approach
  * Read-only presentation component
  */
-export function CustomerCard({ customer, className }: CustomerCardProps) {
-  const healthColors = getHealthScoreColors(customer.healthScore);
+export function CustomerCard({ customer, className, healthResult, rollUp }: CustomerCardProps) {
+  const healthScore = rollUp?.overallScore ?? healthResult?.overallScore ?? customer.healthScore;
+  const healthColors = getHealthScoreColors(healthScore);
+  const missingFactors = healthResult?.missingFactors ?? [];
   const domainCount = customer.domains?.length || 0;
 
   return (
@@ -88,10 +98,32 @@ export function CustomerCard({ customer, className }: CustomerCardProps) {
             ${healthColors.border}
           `}
         >
-          {customer.healthScore}
+          {healthScore}
         </div>
       </div>
 
+      {/* Roll-up summary for parent accounts */}
+      {rollUp && rollUp.descendantCount > 0 && (
+        <div className="text-xs text-gray-600 mb-1">
+          <p>Rolled up from {rollUp.descendantCount} child account{rollUp.descendantCount === 1 ? '' : 's'}</p>
+          {rollUp.worstChild && (
+            <p className={getHealthScoreColors(rollUp.worstChild.overallScore).text}>
+              Worst: {rollUp.worstChild.company} ({rollUp.worstChild.overallScore})
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Low-confidence flag for partially scored customers */}
+      {healthResult && missingFactors.length > 0 && (
+        <p
+          className="text-xs text-gray-500 italic"
+          title={`Scored without ${missingFactors.join(', ')} data`}
+        >
+          Low confidence ({Math.round(healthResult.confidence * 100)}%) - missing {missingFactors.join(', ')}
+        </p>
+      )}
+
       {/* Domains Section */}
       {domainCount > 0 && (
         <div className="mt-3 pt-3 border-t border-gray-100">
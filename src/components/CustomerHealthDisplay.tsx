@@ -4,14 +4,16 @@
  * CustomerHealthDisplay Widget Component
  *
  * Displays comprehensive customer health score with expandable breakdown
- * showing individual factor scores. Provides real-time health monitoring
- * with color-coded risk level indicators.
+ * showing individual factor scores and the reasons behind them. Provides
+ * real-time health monitoring with color-coded risk level indicators.
  */
 
 import { useState, useEffect } from 'react';
 import {
   calculateHealthScore,
-  type CustomerHealthData,
+  healthFactors,
+  type PartialCustomerHealthData,
+  type HealthFactor,
   type HealthScoreResult,
   type RiskLevel,
   InvalidInputError,
@@ -19,8 +21,8 @@ import {
 } from '@/lib/healthCalculator';
 
 export interface CustomerHealthDisplayProps {
-  /** Customer health data to calculate and display */
-  customerData: CustomerHealthData | null;
+  /** Customer health data to calculate and display; missing factors lower the confidence */
+  customerData: PartialCustomerHealthData | null;
   /** Optional loading state override */
   isLoading?: boolean;
   /** Optional error message override */
@@ -29,6 +31,27 @@ export interface CustomerHealthDisplayProps {
   onScoreCalculated?: (result: HealthScoreResult) => void;
 }
 
+/**
+ * Display order, labels and bar colors for the breakdown factors
+ */
+const FACTOR_DISPLAY: { factor: HealthFactor; label: string; color: string }[] = [
+  { factor: 'payment', label: 'Payment', color: 'bg-blue-500' },
+  { factor: 'engagement', label: 'Engagement', color: 'bg-purple-500' },
+  { factor: 'contract', label: 'Contract', color: 'bg-orange-500' },
+  { factor: 'support', label: 'Support', color: 'bg-teal-500' }
+];
+
+/**
+ * Built-in factors in display order, followed by any custom factors in the result
+ */
+function getFactorDisplay(result: HealthScoreResult): { factor: HealthFactor; label: string; color: string }[] {
+  const known = new Set(FACTOR_DISPLAY.map(({ factor }) => factor));
+  const custom = [...Object.keys(result.breakdown), ...result.missingFactors]
+    .filter(factor => !known.has(factor))
+    .map(factor => ({ factor, label: healthFactors.get(factor)?.label ?? factor, color: 'bg-gray-500' }));
+  return [...FACTOR_DISPLAY, ...custom];
+}
+
 /**
  * Get color classes for risk level
  */
@@ -70,6 +93,23 @@ function formatRiskLevel(riskLevel: RiskLevel): string {
   return riskLevel.charAt(0).toUpperCase() + riskLevel.slice(1);
 }
 
+/**
+ * Lists the reasons behind a factor score, largest impact first
+ */
+function FactorReasons({ reasons }: { reasons: string[] }) {
+  if (reasons.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="mt-2 ml-4 list-disc list-inside text-xs text-gray-600 space-y-0.5">
+      {reasons.map((reason) => (
+        <li key={reason}>{reason}</li>
+      ))}
+    </ul>
+  );
+}
+
 /**
  * CustomerHealthDisplay component displays overall health score and detailed breakdown
  */
@@ -100,7 +140,7 @@ export function CustomerHealthDisplay({
         // Simulate async calculation for smooth transitions
         await new Promise(resolve => setTimeout(resolve, 10));
 
-        const result = calculateHealthScore(customerData);
+        const result = calculateHealthScore(customerData, { allowPartialData: true });
         setHealthResult(result);
 
         if (onScoreCalculated) {
@@ -153,7 +193,7 @@ export function CustomerHealthDisplay({
           onClick={() => {
             setCalculationError(null);
             if (customerData) {
-              const result = calculateHealthScore(customerData);
+              const result = calculateHealthScore(customerData, { allowPartialData: true });
               setHealthResult(result);
             }
           }}
@@ -213,6 +253,18 @@ export function CustomerHealthDisplay({
         <div className="text-gray-600 text-sm">
           out of 100
         </div>
+        {healthResult.bandRiskLevel && (
+          <div className="mt-2 px-3 py-1 rounded bg-gray-100 text-xs text-gray-700 text-center">
+            Score is in the {formatRiskLevel(healthResult.bandRiskLevel)} band; held at{' '}
+            {formatRiskLevel(healthResult.riskLevel)} since {healthResult.riskLevelSince.toLocaleDateString()}
+          </div>
+        )}
+        {healthResult.missingFactors.length > 0 && (
+          <div className="mt-2 px-3 py-1 rounded bg-gray-100 text-xs text-gray-700 text-center">
+            Low confidence ({Math.round(healthResult.confidence * 100)}%): no{' '}
+            {healthResult.missingFactors.join(', ')} data
+          </div>
+        )}
       </div>
 
       {/* Expandable Breakdown Section */}
@@ -242,100 +294,59 @@ export function CustomerHealthDisplay({
         {/* Breakdown Details */}
         {isExpanded && (
           <div className="mt-4 space-y-4 overflow-y-auto max-h-48">
-            {/* Payment Score */}
-            <div className="flex flex-col sm:flex-row sm:items-center justify-between p-3 bg-white rounded border border-gray-200">
-              <div className="flex items-center gap-2 mb-2 sm:mb-0">
-                <div className="w-2 h-2 rounded-full bg-blue-500"></div>
-                <span className="font-medium text-gray-900">Payment</span>
-                <span className="text-sm text-gray-500">
-                  (Weight: {Math.round(healthResult.breakdown.payment.weight * 100)}%)
-                </span>
-              </div>
-              <div className="flex items-center gap-3">
-                <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden min-w-[100px]">
-                  <div
-                    className="h-full bg-blue-500 transition-all duration-500"
-                    style={{ width: `${healthResult.breakdown.payment.score}%` }}
-                  ></div>
-                </div>
-                <span className="font-bold text-gray-900 min-w-[3ch] text-right">
-                  {healthResult.breakdown.payment.score}
-                </span>
-              </div>
-            </div>
+            {getFactorDisplay(healthResult).map(({ factor, label, color }) => {
+              const factorScore = healthResult.breakdown[factor];
 
-            {/* Engagement Score */}
-            <div className="flex flex-col sm:flex-row sm:items-center justify-between p-3 bg-white rounded border border-gray-200">
-              <div className="flex items-center gap-2 mb-2 sm:mb-0">
-                <div className="w-2 h-2 rounded-full bg-purple-500"></div>
-                <span className="font-medium text-gray-900">Engagement</span>
-                <span className="text-sm text-gray-500">
-                  (Weight: {Math.round(healthResult.breakdown.engagement.weight * 100)}%)
-                </span>
-              </div>
-              <div className="flex items-center gap-3">
-                <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden min-w-[100px]">
+              if (!factorScore) {
+                return (
                   <div
-                    className="h-full bg-purple-500 transition-all duration-500"
-                    style={{ width: `${healthResult.breakdown.engagement.score}%` }}
-                  ></div>
-                </div>
-                <span className="font-bold text-gray-900 min-w-[3ch] text-right">
-                  {healthResult.breakdown.engagement.score}
-                </span>
-              </div>
-            </div>
-
-            {/* Contract Score */}
-            <div className="flex flex-col sm:flex-row sm:items-center justify-between p-3 bg-white rounded border border-gray-200">
-              <div className="flex items-center gap-2 mb-2 sm:mb-0">
-                <div className="w-2 h-2 rounded-full bg-orange-500"></div>
-                <span className="font-medium text-gray-900">Contract</span>
-                <span className="text-sm text-gray-500">
-                  (Weight: {Math.round(healthResult.breakdown.contract.weight * 100)}%)
-                </span>
-              </div>
-              <div className="flex items-center gap-3">
-                <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden min-w-[100px]">
-                  <div
-                    className="h-full bg-orange-500 transition-all duration-500"
-                    style={{ width: `${healthResult.breakdown.contract.score}%` }}
-                  ></div>
-                </div>
-                <span className="font-bold text-gray-900 min-w-[3ch] text-right">
-                  {healthResult.breakdown.contract.score}
-                </span>
-              </div>
-            </div>
+                    key={factor}
+                    className="flex items-center gap-2 p-3 bg-gray-50 rounded border border-dashed border-gray-300"
+                  >
+                    <div className={`w-2 h-2 rounded-full ${color} opacity-40`}></div>
+                    <span className="font-medium text-gray-500">{label}</span>
+                    <span className="text-sm text-gray-500 italic">No data - excluded from score</span>
+                  </div>
+                );
+              }
 
-            {/* Support Score */}
-            <div className="flex flex-col sm:flex-row sm:items-center justify-between p-3 bg-white rounded border border-gray-200">
-              <div className="flex items-center gap-2 mb-2 sm:mb-0">
-                <div className="w-2 h-2 rounded-full bg-teal-500"></div>
-                <span className="font-medium text-gray-900">Support</span>
-                <span className="text-sm text-gray-500">
-                  (Weight: {Math.round(healthResult.breakdown.support.weight * 100)}%)
-                </span>
-              </div>
-              <div className="flex items-center gap-3">
-                <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden min-w-[100px]">
-                  <div
-                    className="h-full bg-teal-500 transition-all duration-500"
-                    style={{ width: `${healthResult.breakdown.support.score}%` }}
-                  ></div>
+              return (
+                <div key={factor} className="p-3 bg-white rounded border border-gray-200">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between">
+                    <div className="flex items-center gap-2 mb-2 sm:mb-0">
+                      <div className={`w-2 h-2 rounded-full ${color}`}></div>
+                      <span className="font-medium text-gray-900">{label}</span>
+                      <span className="text-sm text-gray-500">
+                        (Weight: {Math.round(factorScore.weight * 100)}%)
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden min-w-[100px]">
+                        <div
+                          className={`h-full ${color} transition-all duration-500`}
+                          style={{ width: `${factorScore.score}%` }}
+                        ></div>
+                      </div>
+                      <span className="font-bold text-gray-900 min-w-[3ch] text-right">
+                        {factorScore.score}
+                      </span>
+                    </div>
+                  </div>
+                  <FactorReasons reasons={factorScore.reasons} />
                 </div>
-                <span className="font-bold text-gray-900 min-w-[3ch] text-right">
-                  {healthResult.breakdown.support.score}
-                </span>
-              </div>
-            </div>
+              );
+            })}
           </div>
         )}
       </div>
 
-      {/* Calculation Timestamp */}
+      {/* Calculation Timestamp and Version */}
       <div className="mt-4 text-xs text-gray-500 text-center">
         Calculated: {healthResult.calculatedAt.toLocaleString()}
+        <span className="block mt-1 font-mono">
+          v{healthResult.version.algorithm} · {healthResult.version.profile}@{healthResult.version.profileVersion} ·
+          input {healthResult.inputHash}
+        </span>
       </div>
     </div>
   );
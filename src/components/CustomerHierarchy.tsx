@@ -0,0 +1,72 @@
+'use client';
+
+/**
+ * Customer Hierarchy
+ *
+ * Account trees with rolled-up health. Each parent account's CustomerCard
+ * shows the ARR-weighted score of its children and the worst account
+ * below it, and expands to show its child accounts (which may themselves
+ * be parents).
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/Button';
+import { CustomerCard } from '@/components/CustomerCard';
+import type { AccountRollUp } from '@/lib/accountHierarchy';
+
+export interface CustomerHierarchyProps {
+  /** Root accounts with their rolled-up health */
+  accounts: AccountRollUp[];
+  className?: string;
+}
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+/**
+ * One account and, once expanded, its children
+ */
+function AccountTree({ account }: { account: AccountRollUp }) {
+  const [expanded, setExpanded] = useState(false);
+  const childCount = account.children.length;
+
+  return (
+    <li>
+      <CustomerCard
+        customer={account.customer}
+        healthResult={account.result}
+        rollUp={childCount > 0 ? account : undefined}
+      />
+      {childCount > 0 && (
+        <div className="mt-2 flex items-center gap-3">
+          <Button
+            label={expanded ? 'Hide child accounts' : `Show ${childCount} child account${childCount === 1 ? '' : 's'}`}
+            onClick={() => setExpanded(!expanded)}
+            variant="secondary"
+          />
+          <span className="text-xs text-gray-500">ARR {currency.format(account.totalArr)}</span>
+        </div>
+      )}
+      {expanded && (
+        <ul className="mt-3 ml-6 pl-4 border-l-2 border-gray-200 space-y-4">
+          {account.children.map(child => (
+            <AccountTree key={child.customer.id} account={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function CustomerHierarchy({ accounts, className }: CustomerHierarchyProps) {
+  if (accounts.length === 0) {
+    return <p className="text-gray-500 italic p-4 bg-gray-50 rounded-lg">No customers yet</p>;
+  }
+
+  return (
+    <ul className={`space-y-6 ${className || ''}`}>
+      {accounts.map(account => (
+        <AccountTree key={account.customer.id} account={account} />
+      ))}
+    </ul>
+  );
+}
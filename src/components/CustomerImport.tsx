@@ -0,0 +1,330 @@
+'use client';
+
+/**
+ * Customer Import
+ *
+ * Upload a CSV or XLSX file, map its columns to customer and health data
+ * fields, preview each row's validation issues and calculated score, then
+ * import the valid rows and review the per-row report. All parsing and
+ * validation happens in the /api/customers/import route.
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/Button';
+import type {
+  ColumnMapping,
+  ImportField,
+  ImportIssue,
+  ImportPreview,
+  ImportRowResult
+} from '@/lib/customerImport';
+
+interface ApiErrorBody {
+  error: { code: string; message: string; issues?: { path: string; message: string }[] };
+}
+
+type ImportStep = 'upload' | 'preview' | 'done';
+
+const ACTION_STYLES: Record<string, string> = {
+  create: 'bg-green-100 text-green-800',
+  created: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  updated: 'bg-blue-100 text-blue-800',
+  reject: 'bg-red-100 text-red-800',
+  rejected: 'bg-red-100 text-red-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const RISK_STYLES: Record<string, string> = {
+  healthy: 'text-green-700',
+  warning: 'text-yellow-700',
+  critical: 'text-red-700'
+};
+
+/**
+ * Describe an API failure, including the first few field issues
+ */
+function describeError(body: ApiErrorBody): string {
+  const details = body.error.issues?.slice(0, 3).map(issue => issue.message) ?? [];
+  return [body.error.message, ...details.filter(detail => detail !== body.error.message)].join(' — ');
+}
+
+function IssueList({ issues }: { issues: ImportIssue[] }) {
+  if (issues.length === 0) {
+    return <span className="text-gray-400">—</span>;
+  }
+  return (
+    <ul className="space-y-1">
+      {issues.map((issue, index) => (
+        <li key={index} className="text-red-700">
+          {issue.column && <span className="font-medium">{issue.column}: </span>}
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function CustomerImport() {
+  const [file, setFile] = useState<File | null>(null);
+  const [sheet, setSheet] = useState('');
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fields, setFields] = useState<ImportField[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [report, setReport] = useState<ImportRowResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  /**
+   * Post the file to the import API; the mapping is omitted on first upload
+   * so the server suggests one
+   */
+  async function submit(mode: 'preview' | 'commit', columnMapping?: ColumnMapping) {
+    if (!file) return;
+    const form = new FormData();
+    form.set('file', file);
+    form.set('mode', mode);
+    if (sheet.trim() !== '') form.set('sheet', sheet.trim());
+    if (columnMapping) form.set('mapping', JSON.stringify(columnMapping));
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/customers/import', { method: 'POST', body: form });
+      const body = await response.json();
+      if (!response.ok) {
+        setError(describeError(body as ApiErrorBody));
+        return;
+      }
+      if (mode === 'commit') {
+        setReport(body.data as ImportRowResult[]);
+        setStep('done');
+      } else {
+        const result = body.data as ImportPreview;
+        setPreview(result);
+        setMapping(result.mapping);
+        setFields(body.meta.fields as ImportField[]);
+        setStep('preview');
+      }
+    } catch {
+      setError('The import service could not be reached');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function reset() {
+    setFile(null);
+    setStep('upload');
+    setPreview(null);
+    setReport(null);
+    setMapping({});
+    setError(null);
+  }
+
+  const mappedFields = new Set(Object.values(mapping).filter(Boolean));
+  const fieldGroups = [
+    { label: 'Customer', options: fields.filter(field => field.target === 'customer') },
+    { label: 'Health data', options: fields.filter(field => field.target === 'health') }
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6 lg:p-8">
+      {/* Header */}
+      <header className="mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-2">
+          Import Customers
+        </h1>
+        <p className="text-gray-600 text-sm sm:text-base">
+          Upload a CSV or XLSX file, map its columns, check the preview, then import.
+          Rows matching an existing customer by ID or email update it; invalid rows are skipped.
+        </p>
+      </header>
+
+      {error && (
+        <div role="alert" className="mb-6 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      {/* Upload */}
+      <section className="bg-white rounded-lg shadow p-4 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">1. Choose a file</h2>
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <label className="flex-1 text-sm text-gray-700">
+            File (.csv or .xlsx)
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(event) => {
+                reset();
+                setFile(event.target.files?.[0] ?? null);
+              }}
+              className="mt-1 block w-full text-sm"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Sheet (XLSX, optional)
+            <input
+              type="text"
+              value={sheet}
+              onChange={(event) => setSheet(event.target.value)}
+              placeholder="First sheet"
+              className="mt-1 block w-full rounded border border-gray-300 px-2 py-1"
+            />
+          </label>
+          <Button
+            label="Read file"
+            onClick={() => submit('preview')}
+            isLoading={loading && step === 'upload'}
+            disabled={!file}
+          />
+        </div>
+      </section>
+
+      {/* Mapping and preview */}
+      {step === 'preview' && preview && (
+        <>
+          <section className="bg-white rounded-lg shadow p-4 mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">2. Map columns</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {preview.headers.map(header => (
+                <label key={header} className="text-sm text-gray-700">
+                  <span className="font-medium">{header}</span>
+                  <select
+                    value={mapping[header] ?? ''}
+                    onChange={(event) => setMapping({ ...mapping, [header]: event.target.value || null })}
+                    className="mt-1 block w-full rounded border border-gray-300 px-2 py-1"
+                  >
+                    <option value="">Ignore column</option>
+                    {fieldGroups.map(({ label, options }) => (
+                      <optgroup key={label} label={label}>
+                        {options.map(field => (
+                          <option
+                            key={field.key}
+                            value={field.key}
+                            disabled={mappedFields.has(field.key) && mapping[header] !== field.key}
+                          >
+                            {field.label}
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <div className="mt-4">
+              <Button
+                label="Update preview"
+                variant="secondary"
+                onClick={() => submit('preview', mapping)}
+                disabled={loading}
+              />
+            </div>
+          </section>
+
+          <section className="bg-white rounded-lg shadow p-4 mb-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">
+                3. Preview ({preview.summary.create} new, {preview.summary.update} updates,{' '}
+                {preview.summary.reject} rejected)
+              </h2>
+              <Button
+                label={`Import ${preview.summary.create + preview.summary.update} rows`}
+                onClick={() => submit('commit', mapping)}
+                isLoading={loading}
+                disabled={preview.summary.create + preview.summary.update === 0}
+              />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-4">Row</th>
+                    <th className="py-2 pr-4">Action</th>
+                    <th className="py-2 pr-4">Customer</th>
+                    <th className="py-2 pr-4">Score</th>
+                    <th className="py-2">Issues</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map(row => (
+                    <tr key={row.rowNumber} className="border-b align-top">
+                      <td className="py-2 pr-4 text-gray-500">{row.rowNumber}</td>
+                      <td className="py-2 pr-4">
+                        <span className={`rounded px-2 py-0.5 text-xs font-medium ${ACTION_STYLES[row.action]}`}>
+                          {row.action}{row.matchedBy && ` (by ${row.matchedBy})`}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <div className="font-medium text-gray-900">{row.customer.name ?? row.customerId ?? '—'}</div>
+                        <div className="text-gray-500">{row.customer.company ?? row.customer.email}</div>
+                      </td>
+                      <td className="py-2 pr-4">
+                        {row.score ? (
+                          <span className={RISK_STYLES[row.score.riskLevel]}>
+                            {row.score.overallScore} {row.score.riskLevel}
+                            {row.score.missingFactors.length > 0 && (
+                              <span className="block text-xs text-gray-500">
+                                missing {row.score.missingFactors.join(', ')}
+                              </span>
+                            )}
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
+                      <td className="py-2"><IssueList issues={row.issues} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+
+      {/* Report */}
+      {step === 'done' && report && (
+        <section className="bg-white rounded-lg shadow p-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Import complete: {report.filter(row => row.status === 'created').length} created,{' '}
+              {report.filter(row => row.status === 'updated').length} updated,{' '}
+              {report.filter(row => row.status === 'rejected' || row.status === 'failed').length} not imported
+            </h2>
+            <Button label="Import another file" variant="secondary" onClick={reset} />
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-600">
+                  <th className="py-2 pr-4">Row</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Customer ID</th>
+                  <th className="py-2">Issues</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.map(row => (
+                  <tr key={row.rowNumber} className="border-b align-top">
+                    <td className="py-2 pr-4 text-gray-500">{row.rowNumber}</td>
+                    <td className="py-2 pr-4">
+                      <span className={`rounded px-2 py-0.5 text-xs font-medium ${ACTION_STYLES[row.status]}`}>
+                        {row.status}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4 font-mono text-xs">{row.customerId ?? '—'}</td>
+                    <td className="py-2"><IssueList issues={row.issues} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
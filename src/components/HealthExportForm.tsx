@@ -0,0 +1,80 @@
+/**
+ * HealthExportForm Component
+ *
+ * Download form for the customer health export: format, risk band and tier
+ * filters and an optional date range. Submits a plain GET to
+ * /api/customers/export, so it works without client-side JavaScript and the
+ * browser streams the file straight to disk.
+ */
+
+export interface HealthExportFormProps {
+  className?: string;
+}
+
+const RISK_OPTIONS = [
+  { value: 'critical', label: 'Critical' },
+  { value: 'warning', label: 'Warning' },
+  { value: 'healthy', label: 'Healthy' }
+];
+
+const TIER_OPTIONS = [
+  { value: 'basic', label: 'Basic' },
+  { value: 'premium', label: 'Premium' },
+  { value: 'enterprise', label: 'Enterprise' }
+];
+
+export function HealthExportForm({ className }: HealthExportFormProps) {
+  return (
+    <form
+      action="/api/customers/export"
+      method="get"
+      className={`bg-white border border-gray-200 rounded-lg p-4 ${className || ''}`}
+    >
+      <h2 className="text-lg font-semibold text-gray-900 mb-3">Export Health Scores</h2>
+      <div className="flex flex-wrap items-end gap-4 text-sm text-gray-700">
+        <fieldset>
+          <legend className="mb-1">Risk</legend>
+          {RISK_OPTIONS.map(option => (
+            <label key={option.value} className="mr-3">
+              <input type="checkbox" name="risk" value={option.value} className="mr-1" />
+              {option.label}
+            </label>
+          ))}
+        </fieldset>
+        <fieldset>
+          <legend className="mb-1">Tier</legend>
+          {TIER_OPTIONS.map(option => (
+            <label key={option.value} className="mr-3">
+              <input type="checkbox" name="tier" value={option.value} className="mr-1" />
+              {option.label}
+            </label>
+          ))}
+        </fieldset>
+        <label>
+          <span className="block mb-1">Updated from</span>
+          <input type="date" name="from" className="rounded border border-gray-300 px-2 py-1" />
+        </label>
+        <label>
+          <span className="block mb-1">Updated to</span>
+          <input type="date" name="to" className="rounded border border-gray-300 px-2 py-1" />
+        </label>
+        <label>
+          <span className="block mb-1">Format</span>
+          <select name="format" defaultValue="csv" className="rounded border border-gray-300 px-2 py-1">
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+        </label>
+        <button
+          type="submit"
+          className="px-4 py-1.5 rounded-md bg-blue-600 text-white font-medium hover:bg-blue-700"
+        >
+          Download
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Leave filters unchecked to include every customer. Risk bands use the calculated score.
+      </p>
+    </form>
+  );
+}
@@ -0,0 +1,92 @@
+import type { PortfolioHealth } from '@/lib/portfolioHealth';
+
+export interface PortfolioHealthSummaryProps {
+  portfolio: PortfolioHealth;
+  className?: string;
+}
+
+/**
+ * Format a dollar amount compactly (e.g., $1.2M, $45K)
+ */
+function formatArr(amount: number): string {
+  if (amount >= 1_000_000) return `$${(amount / 1_000_000).toFixed(1)}M`;
+  if (amount >= 1_000) return `$${Math.round(amount / 1_000)}K`;
+  return `$${Math.round(amount)}`;
+}
+
+/**
+ * Get text color for a portfolio score
+ * Red: 0-30 (critical), Yellow: 31-70 (warning), Green: 71-100 (healthy)
+ */
+function getScoreTextColor(score: number): string {
+  if (score <= 30) return 'text-red-600';
+  if (score <= 70) return 'text-yellow-600';
+  return 'text-green-600';
+}
+
+/**
+ * PortfolioHealthSummary Component
+ *
+ * Displays portfolio-level health for leadership:
+ * - ARR-weighted portfolio health score with unweighted mean and median
+ * - Revenue at risk per risk level
+ * - Weakest factor per subscription tier
+ *
+ * Read-only presentation component
+ */
+export function PortfolioHealthSummary({ portfolio, className }: PortfolioHealthSummaryProps) {
+  const weightedScore = Math.round(portfolio.arrWeightedScore);
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-6 ${className || ''}`}>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {/* Portfolio Score */}
+        <div>
+          <h2 className="text-sm font-medium text-gray-600 mb-1">Portfolio Health (ARR-weighted)</h2>
+          <p className={`text-5xl font-bold ${getScoreTextColor(weightedScore)}`}>{weightedScore}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Mean {Math.round(portfolio.averageScore)} · Median {Math.round(portfolio.percentiles.p50)} ·{' '}
+            {portfolio.scoredCount} customers · {formatArr(portfolio.totalArr)} ARR
+          </p>
+        </div>
+
+        {/* Revenue at Risk */}
+        <div>
+          <h2 className="text-sm font-medium text-gray-600 mb-2">Revenue at Risk</h2>
+          <ul className="space-y-1 text-sm">
+            <li className="flex justify-between text-red-700">
+              <span>Critical ({portfolio.distribution.critical})</span>
+              <span className="font-semibold">{formatArr(portfolio.revenueAtRisk.critical)}</span>
+            </li>
+            <li className="flex justify-between text-yellow-700">
+              <span>Warning ({portfolio.distribution.warning})</span>
+              <span className="font-semibold">{formatArr(portfolio.revenueAtRisk.warning)}</span>
+            </li>
+            <li className="flex justify-between text-green-700">
+              <span>Healthy ({portfolio.distribution.healthy})</span>
+              <span className="font-semibold">{formatArr(portfolio.revenueAtRisk.healthy)}</span>
+            </li>
+          </ul>
+        </div>
+
+        {/* Segments */}
+        <div>
+          <h2 className="text-sm font-medium text-gray-600 mb-2">By Tier</h2>
+          <ul className="space-y-1 text-sm text-gray-700">
+            {portfolio.segments.map((segment) => (
+              <li key={segment.segment} className="flex justify-between gap-2">
+                <span className="capitalize">
+                  {segment.segment} ({segment.customerCount})
+                </span>
+                <span className="text-xs text-gray-500 text-right">
+                  Score {Math.round(segment.arrWeightedScore)}
+                  {segment.worstFactor && ` · weakest: ${segment.worstFactor.factor}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
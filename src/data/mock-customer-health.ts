@@ -240,6 +240,122 @@ export const mockCustomerHealthData: Record<string, CustomerHealthData> = {
       escalationCount: 4,
       openTicketCount: 6
     }
+  },
+
+  // Customer 9: Hannah Weber - Innovation Labs EMEA, division of Innovation Labs (Health Score: 80 - Healthy)
+  '9': {
+    customerId: '9',
+    payment: {
+      daysSinceLastPayment: 10,
+      averagePaymentDelay: 2,
+      overdueAmount: 0,
+      paymentConsistency: 0.9
+    },
+    engagement: {
+      loginsPerMonth: 36,
+      featureUsageCount: 12,
+      supportTicketsOpened: 3,
+      activeUserCount: 9
+    },
+    contract: {
+      daysUntilRenewal: 200,
+      contractValue: 90000,
+      hasRecentUpgrades: true,
+      autoRenewalEnabled: true
+    },
+    support: {
+      averageResolutionTimeHours: 10,
+      satisfactionScore: 4.5,
+      escalationCount: 0,
+      openTicketCount: 2
+    }
+  },
+
+  // Customer 10: Kenji Tanaka - Innovation Labs APAC, division of Innovation Labs (Health Score: 25 - Critical)
+  '10': {
+    customerId: '10',
+    payment: {
+      daysSinceLastPayment: 55,
+      averagePaymentDelay: 20,
+      overdueAmount: 12000,
+      paymentConsistency: 0.45
+    },
+    engagement: {
+      loginsPerMonth: 6,
+      featureUsageCount: 3,
+      supportTicketsOpened: 15,
+      activeUserCount: 2
+    },
+    contract: {
+      daysUntilRenewal: 30,
+      contractValue: 60000,
+      hasRecentUpgrades: false,
+      autoRenewalEnabled: false
+    },
+    support: {
+      averageResolutionTimeHours: 60,
+      satisfactionScore: 2.5,
+      escalationCount: 5,
+      openTicketCount: 8
+    }
+  },
+
+  // Customer 11: Claire Dubois - DataFlow Analytics Europe, subsidiary of DataFlow Analytics (Health Score: 65 - Warning)
+  '11': {
+    customerId: '11',
+    payment: {
+      daysSinceLastPayment: 20,
+      averagePaymentDelay: 6,
+      overdueAmount: 0,
+      paymentConsistency: 0.8
+    },
+    engagement: {
+      loginsPerMonth: 25,
+      featureUsageCount: 9,
+      supportTicketsOpened: 5,
+      activeUserCount: 6
+    },
+    contract: {
+      daysUntilRenewal: 120,
+      contractValue: 40000,
+      hasRecentUpgrades: false,
+      autoRenewalEnabled: true
+    },
+    support: {
+      averageResolutionTimeHours: 20,
+      satisfactionScore: 3.8,
+      escalationCount: 1,
+      openTicketCount: 3
+    }
+  },
+
+  // Customer 12: Luca Romano - DataFlow Analytics Italia, division of DataFlow Analytics Europe (Health Score: 40 - Warning)
+  '12': {
+    customerId: '12',
+    payment: {
+      daysSinceLastPayment: 35,
+      averagePaymentDelay: 12,
+      overdueAmount: 3000,
+      paymentConsistency: 0.6
+    },
+    engagement: {
+      loginsPerMonth: 14,
+      featureUsageCount: 5,
+      supportTicketsOpened: 9,
+      activeUserCount: 3
+    },
+    contract: {
+      daysUntilRenewal: 75,
+      contractValue: 25000,
+      hasRecentUpgrades: false,
+      autoRenewalEnabled: false
+    },
+    support: {
+      averageResolutionTimeHours: 36,
+      satisfactionScore: 3.2,
+      escalationCount: 2,
+      openTicketCount: 5
+    }
   }
 };
 
@@ -3,14 +3,17 @@
  * Used throughout the Customer Intelligence Dashboard components
  */
 
+export type SubscriptionTier = 'basic' | 'premium' | 'enterprise';
+
 export interface Customer {
   id: string;
   name: string;
   company: string;
   healthScore: number;
   email?: string;
-  subscriptionTier?: 'basic' | 'premium' | 'enterprise';
+  subscriptionTier?: SubscriptionTier;
   domains?: string[]; // Customer websites to health check
+  parentId?: string; // Parent account for subsidiaries and regional divisions
   createdAt?: string;
   updatedAt?: string;
 }
@@ -103,6 +106,54 @@ export const mockCustomers: Customer[] = [
     domains: ['cloudfirst.com', 'support.cloudfirst.com'],
     createdAt: '2024-01-28T15:30:00Z',
     updatedAt: '2024-01-28T15:30:00Z'
+  },
+  {
+    id: '9',
+    name: 'Hannah Weber',
+    company: 'Innovation Labs EMEA',
+    healthScore: 80,
+    email: 'hannah.weber@innovationlabs.tech',
+    subscriptionTier: 'enterprise',
+    domains: ['eu.innovationlabs.tech'],
+    parentId: '4',
+    createdAt: '2024-02-05T09:00:00Z',
+    updatedAt: '2024-02-05T09:00:00Z'
+  },
+  {
+    id: '10',
+    name: 'Kenji Tanaka',
+    company: 'Innovation Labs APAC',
+    healthScore: 25,
+    email: 'kenji.tanaka@innovationlabs.tech',
+    subscriptionTier: 'enterprise',
+    domains: ['apac.innovationlabs.tech'],
+    parentId: '4',
+    createdAt: '2024-02-12T02:30:00Z',
+    updatedAt: '2024-02-12T02:30:00Z'
+  },
+  {
+    id: '11',
+    name: 'Claire Dubois',
+    company: 'DataFlow Analytics Europe',
+    healthScore: 65,
+    email: 'claire.dubois@dataflow.ai',
+    subscriptionTier: 'enterprise',
+    domains: ['eu.dataflow.ai'],
+    parentId: '7',
+    createdAt: '2024-02-08T10:20:00Z',
+    updatedAt: '2024-02-08T10:20:00Z'
+  },
+  {
+    id: '12',
+    name: 'Luca Romano',
+    company: 'DataFlow Analytics Italia',
+    healthScore: 40,
+    email: 'luca.romano@dataflow.ai',
+    subscriptionTier: 'premium',
+    domains: ['it.dataflow.ai'],
+    parentId: '11',
+    createdAt: '2024-03-01T08:45:00Z',
+    updatedAt: '2024-03-01T08:45:00Z'
   }
 ];
 
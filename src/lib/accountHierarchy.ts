@@ -0,0 +1,282 @@
+/**
+ * Account Hierarchy
+ *
+ * Parent/child relationships between customers (subsidiaries and regional
+ * divisions linked through `parentId`) and health roll-up: a parent's
+ * health is the ARR-weighted aggregate of its children's, with the
+ * worst-scoring account below it surfaced so problems in divisions are
+ * visible at the level account executives manage.
+ *
+ * @module accountHierarchy
+ */
+
+import type { Customer } from '@/data/mock-customers';
+import {
+  calculateHealthScore,
+  CalculationError,
+  classifyRiskLevel,
+  DEFAULT_SCORING_PROFILE,
+  InvalidInputError,
+  type HealthScorer,
+  type HealthScoreResult,
+  type RiskBand,
+  type RiskLevel,
+  type ValidationIssue
+} from '@/lib/healthCalculator';
+import type { PortfolioEntry } from '@/lib/portfolioHealth';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A customer with its child accounts
+ */
+export interface AccountNode {
+  customer: Customer;
+  children: AccountNode[];
+}
+
+/**
+ * An account's own score, as surfaced on its ancestors
+ */
+export interface AccountScoreSummary {
+  customerId: string;
+  company: string;
+  overallScore: number;
+  riskLevel: RiskLevel;
+  arr: number;
+}
+
+/**
+ * Rolled-up health for an account and everything below it
+ */
+export interface AccountRollUp {
+  customer: Customer;
+  /** The account's own score, or undefined if it has no health data */
+  result?: HealthScoreResult;
+  /** The account's own annual contract value */
+  arr: number;
+  /**
+   * Own score for accounts with no scored accounts below them; otherwise
+   * the ARR-weighted mean of those accounts' own scores (rounded). Null
+   * when nothing in the subtree could be scored.
+   */
+  overallScore: number | null;
+  /** Risk level of overallScore (the own result's level when it is the own score) */
+  riskLevel: RiskLevel | null;
+  /** ARR behind overallScore: own ARR, or the sum over the scored accounts below */
+  totalArr: number;
+  /** Accounts below this one, at any depth */
+  descendantCount: number;
+  /** Lowest own score among the accounts below this one, at any depth */
+  worstChild: AccountScoreSummary | null;
+  children: AccountRollUp[];
+}
+
+/**
+ * Options for hierarchy scoring
+ */
+export interface AccountHierarchyOptions {
+  /** Scorer to use instead of the default profile */
+  scorer?: HealthScorer;
+}
+
+// ============================================================================
+// Hierarchy Construction
+// ============================================================================
+
+/**
+ * Validate a parent assignment against the existing customers
+ *
+ * The parent must exist, must not be the customer itself, and must not be
+ * one of the customer's descendants (which would create a cycle).
+ *
+ * @param customerId - Customer being assigned (undefined for a new customer)
+ * @param parentId - Proposed parent
+ * @param customers - Existing customers by ID
+ * @returns Validation issues at path 'parentId'; empty when valid
+ */
+export function validateParentAssignment(
+  customerId: string | undefined,
+  parentId: string,
+  customers: ReadonlyMap<string, Customer>
+): ValidationIssue[] {
+  const issue = (message: string): ValidationIssue[] => [
+    { path: 'parentId', code: 'invalid_value', message, received: parentId }
+  ];
+
+  if (parentId === customerId) {
+    return issue('parentId must not be the customer itself');
+  }
+  if (!customers.has(parentId)) {
+    return issue(`parentId ${parentId} does not exist`);
+  }
+
+  // Walk up from the new parent; reaching the customer means a cycle
+  const visited = new Set<string>();
+  let id: string | undefined = parentId;
+  while (id !== undefined && !visited.has(id)) {
+    if (id === customerId) {
+      return issue(`parentId ${parentId} is a descendant of customer ${customerId}`);
+    }
+    visited.add(id);
+    id = customers.get(id)?.parentId;
+  }
+  return [];
+}
+
+/**
+ * Arrange customers into trees by parentId
+ *
+ * Customers without a parent, or whose parent is not in the list, are
+ * roots. Input order is kept at every level. Accounts on a cycle (only
+ * possible with hand-edited data) are promoted to roots.
+ *
+ * @param customers - Customers to arrange
+ * @returns Root accounts with their descendants
+ */
+export function buildAccountHierarchy(customers: Customer[]): AccountNode[] {
+  const nodes = new Map(customers.map(customer => [customer.id, { customer, children: [] as AccountNode[] }]));
+
+  const isRoot = ({ id: customerId, parentId }: Customer): boolean => {
+    if (parentId === undefined || !nodes.has(parentId)) return true;
+    const visited = new Set<string>();
+    let id: string | undefined = parentId;
+    while (id !== undefined && !visited.has(id)) {
+      if (id === customerId) return true;
+      visited.add(id);
+      id = nodes.get(id)?.customer.parentId;
+    }
+    return false;
+  };
+
+  const roots: AccountNode[] = [];
+  for (const node of nodes.values()) {
+    if (isRoot(node.customer)) {
+      roots.push(node);
+    } else {
+      nodes.get(node.customer.parentId!)!.children.push(node);
+    }
+  }
+  return roots;
+}
+
+// ============================================================================
+// Health Roll-Up
+// ============================================================================
+
+/**
+ * Own scores of every scored account below a rolled-up account
+ */
+function scoredDescendants(rollUp: AccountRollUp): AccountScoreSummary[] {
+  return rollUp.children.flatMap(child => [
+    ...(child.result
+      ? [{
+        customerId: child.customer.id,
+        company: child.customer.company,
+        overallScore: child.result.overallScore,
+        riskLevel: child.result.riskLevel,
+        arr: child.arr
+      }]
+      : []),
+    ...scoredDescendants(child)
+  ]);
+}
+
+/**
+ * Roll up health from the leaves of an account tree
+ *
+ * A parent's score is the mean of the own scores of every account below it
+ * (children, their children, and so on) weighted by each account's ARR,
+ * falling back to an unweighted mean when none of them carries ARR. The
+ * parent's own score is kept in `result` but does not enter the aggregate;
+ * a parent with no scored accounts below it falls back to its own score.
+ * The worst child is the lowest own score below the parent (ties go to the
+ * larger ARR). The rolled-up score is classified with the same risk bands
+ * the accounts were scored with.
+ *
+ * @param node - Account tree
+ * @param scores - Own result and ARR per scored customer ID
+ * @param riskBands - Risk bands of the profile the accounts were scored with
+ * @returns Rolled-up health for the tree
+ */
+export function rollUpAccountHealth(
+  node: AccountNode,
+  scores: ReadonlyMap<string, { result: HealthScoreResult; arr: number }>,
+  riskBands: Record<RiskLevel, RiskBand> = DEFAULT_SCORING_PROFILE.riskBands
+): AccountRollUp {
+  const own = scores.get(node.customer.id);
+  const children = node.children.map(child => rollUpAccountHealth(child, scores, riskBands));
+  const rollUp: AccountRollUp = {
+    customer: node.customer,
+    ...(own && { result: own.result }),
+    arr: own?.arr ?? 0,
+    overallScore: own?.result.overallScore ?? null,
+    riskLevel: own?.result.riskLevel ?? null,
+    totalArr: own?.arr ?? 0,
+    descendantCount: children.reduce((sum, child) => sum + 1 + child.descendantCount, 0),
+    worstChild: null,
+    children
+  };
+
+  const below = scoredDescendants(rollUp);
+  if (below.length === 0) {
+    return rollUp;
+  }
+  const totalArr = below.reduce((sum, account) => sum + account.arr, 0);
+  const overallScore = Math.round(totalArr > 0
+    ? below.reduce((sum, account) => sum + account.overallScore * account.arr, 0) / totalArr
+    : below.reduce((sum, account) => sum + account.overallScore, 0) / below.length);
+  const worstChild = below.reduce((worst, account) =>
+    account.overallScore < worst.overallScore ||
+    (account.overallScore === worst.overallScore && account.arr > worst.arr)
+      ? account
+      : worst
+  );
+
+  return { ...rollUp, overallScore, riskLevel: classifyRiskLevel(overallScore, riskBands), totalArr, worstChild };
+}
+
+/**
+ * Score every customer and roll health up each account tree
+ *
+ * Customers are scored with partial data allowed. ARR is taken from
+ * `contract.contractValue`; customers without health data, or whose data
+ * fails validation or calculation, stay in the tree unscored. Any other
+ * error propagates.
+ *
+ * @param customers - Customers to arrange and score
+ * @param entries - Health data for the customers that have it
+ * @param options - Hierarchy options
+ * @returns Rolled-up health per root account
+ *
+ * @example
+ * const accounts = scoreAccountHierarchy(
+ *   mockCustomers,
+ *   mockCustomers.map(customer => ({ customer, healthData: getCustomerHealthData(customer.id)! }))
+ * );
+ * // accounts[3].overallScore: Innovation Labs rolled up from EMEA and APAC
+ * // accounts[3].worstChild: { company: 'Innovation Labs APAC', riskLevel: 'critical', ... }
+ */
+export function scoreAccountHierarchy(
+  customers: Customer[],
+  entries: PortfolioEntry[],
+  options: AccountHierarchyOptions = {}
+): AccountRollUp[] {
+  const scores = new Map<string, { result: HealthScoreResult; arr: number }>();
+  for (const { customer, healthData } of entries) {
+    try {
+      const data = { ...healthData, customerId: healthData.customerId ?? customer.id };
+      const result = options.scorer
+        ? options.scorer.calculate(data, { allowPartialData: true })
+        : calculateHealthScore(data, { allowPartialData: true });
+      scores.set(customer.id, { result, arr: healthData.contract?.contractValue ?? 0 });
+    } catch (error) {
+      // Unscorable accounts are shown without a score
+      if (!(error instanceof InvalidInputError) && !(error instanceof CalculationError)) throw error;
+    }
+  }
+  const riskBands = (options.scorer?.profile ?? DEFAULT_SCORING_PROFILE).riskBands;
+  return buildAccountHierarchy(customers).map(root => rollUpAccountHealth(root, scores, riskBands));
+}
@@ -0,0 +1,177 @@
+/**
+ * Audit API Helpers
+ *
+ * Request parsing and responses for the audit routes (query filters and
+ * export format), and audit context for writes: routes pass the caller's
+ * X-Actor and X-Change-Reason headers on to the repository, which stores
+ * them in the audit log.
+ *
+ * @module api/audit
+ */
+
+import { apiSuccess } from '@/lib/api/responses';
+import {
+  formatAuditLogCsv,
+  type AuditAction,
+  type AuditContext,
+  type AuditEntry,
+  type AuditQuery
+} from '@/lib/auditLog';
+import type { ValidationIssue } from '@/lib/healthCalculator';
+import { throwIfIssues } from '@/lib/ingestion/records';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Audit response formats: the JSON envelope, or a CSV / JSON Lines download
+ */
+export type AuditFormat = 'json' | 'csv' | 'jsonl';
+
+/** Actor recorded for API writes without an X-Actor header */
+export const DEFAULT_API_ACTOR = 'api';
+
+/** Longest accepted actor or reason header, in characters */
+const MAX_HEADER_LENGTH = 500;
+
+const AUDIT_ACTIONS: AuditAction[] = [
+  'customer.created',
+  'customer.updated',
+  'customer.deleted',
+  'health_data.updated',
+  'health_score.calculated'
+];
+const AUDIT_FORMATS: AuditFormat[] = ['json', 'csv', 'jsonl'];
+
+// ============================================================================
+// Request Parsing
+// ============================================================================
+
+/**
+ * Actor and reason for a write, from the X-Actor and X-Change-Reason headers
+ *
+ * Values are trimmed, stripped of control characters and truncated.
+ */
+export function readAuditContext(request: Request): AuditContext {
+  const clean = (value: string | null) =>
+    value?.replace(/[\u0000-\u001f\u007f]/g, '').trim().slice(0, MAX_HEADER_LENGTH) || undefined;
+  const reason = clean(request.headers.get('x-change-reason'));
+  return {
+    actor: clean(request.headers.get('x-actor')) ?? DEFAULT_API_ACTOR,
+    ...(reason && { reason })
+  };
+}
+
+/**
+ * Parse an ISO date parameter
+ */
+function parseDateParam(params: URLSearchParams, name: string, issues: ValidationIssue[]): Date | undefined {
+  const raw = params.get(name)?.trim();
+  if (!raw) return undefined;
+  const date = new Date(raw);
+  if (Number.isNaN(date.getTime())) {
+    issues.push({ path: name, code: 'invalid_value', message: `${name} must be an ISO date-time`, received: raw });
+    return undefined;
+  }
+  return date;
+}
+
+/**
+ * Parse audit query parameters
+ *
+ * Supported parameters: `action` (comma-separated or repeated), `from` and
+ * `to` (inclusive ISO date-times), `limit` (most recent N entries) and
+ * `format` (json, csv, jsonl; default json). `customerId` is read when the
+ * route does not fix the customer.
+ *
+ * @param params - Request search parameters
+ * @returns Audit query and response format
+ * @throws {InvalidInputError} With every invalid parameter
+ */
+export function parseAuditQuery(params: URLSearchParams): { query: AuditQuery; format: AuditFormat } {
+  const issues: ValidationIssue[] = [];
+
+  const actions = params.getAll('action').flatMap(value => value.split(',')).map(value => value.trim())
+    .filter(value => value !== '');
+  const unknown = actions.filter(action => !AUDIT_ACTIONS.includes(action as AuditAction));
+  if (unknown.length > 0) {
+    issues.push({
+      path: 'action',
+      code: 'invalid_value',
+      message: `action must be one or more of ${AUDIT_ACTIONS.join(', ')}`,
+      received: unknown.join(',')
+    });
+  }
+
+  const from = parseDateParam(params, 'from', issues);
+  const to = parseDateParam(params, 'to', issues);
+
+  const rawLimit = params.get('limit');
+  const limit = rawLimit === null || rawLimit.trim() === '' ? undefined : Number(rawLimit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    issues.push({
+      path: 'limit',
+      code: 'out_of_range',
+      message: 'limit must be a positive integer',
+      expected: { type: 'number', min: 1 },
+      received: rawLimit
+    });
+  }
+
+  const format = (params.get('format') ?? 'json') as AuditFormat;
+  if (!AUDIT_FORMATS.includes(format)) {
+    issues.push({
+      path: 'format',
+      code: 'invalid_value',
+      message: `format must be one of ${AUDIT_FORMATS.join(', ')}`,
+      received: format
+    });
+  }
+
+  throwIfIssues(issues);
+
+  const customerId = params.get('customerId')?.trim();
+  return {
+    query: {
+      ...(customerId && { customerId }),
+      ...(actions.length > 0 && { actions: actions as AuditAction[] }),
+      ...(from && { from }),
+      ...(to && { to }),
+      ...(limit !== undefined && { limit })
+    },
+    format
+  };
+}
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+/**
+ * Respond with audit entries in the requested format
+ *
+ * JSON uses the shared envelope with `{ total }` in meta; CSV and JSON Lines
+ * are served as downloads named `<fileStem>-<date>.<format>`.
+ *
+ * @param entries - Entries in sequence order
+ * @param format - Response format
+ * @param fileStem - Download file name without date or extension
+ */
+export function auditLogResponse(entries: AuditEntry[], format: AuditFormat, fileStem: string): Response {
+  if (format === 'json') {
+    return apiSuccess(entries, { meta: { total: entries.length } });
+  }
+
+  const body = format === 'csv'
+    ? formatAuditLogCsv(entries)
+    : entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+  const fileName = `${fileStem}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  return new Response(body, {
+    headers: {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+}
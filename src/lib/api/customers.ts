@@ -0,0 +1,364 @@
+/**
+ * Customer API Helpers
+ *
+ * Request parsing for the /api/customers routes: list and export query
+ * parameters (filtering by tier, risk band and date, search, sorting,
+ * pagination) and sanitization of customer bodies before they reach the
+ * repository, which performs field validation.
+ *
+ * @module api/customers
+ */
+
+import type { Customer, SubscriptionTier } from '@/data/mock-customers';
+import type { CustomerUpdate } from '@/lib/customerRepository';
+import { classifyRiskLevel, type RiskLevel, type ValidationIssue } from '@/lib/healthCalculator';
+import type { HealthExportFilter, HealthExportFormat } from '@/lib/healthExport';
+import { throwIfIssues } from '@/lib/ingestion/records';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Fields customers can be sorted by
+ */
+export type CustomerSortField = 'name' | 'company' | 'healthScore' | 'createdAt' | 'updatedAt';
+
+/**
+ * Parsed list query
+ */
+export interface CustomerListQuery {
+  /** Only customers on these tiers (all when empty) */
+  tiers: SubscriptionTier[];
+  /** Only customers whose stored score falls in these risk bands (all when empty) */
+  riskLevels: RiskLevel[];
+  /** Case-insensitive match against name, company and email */
+  search?: string;
+  /** Only direct child accounts of this customer */
+  parentId?: string;
+  sort: CustomerSortField;
+  order: 'asc' | 'desc';
+  /** 1-based page number */
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Pagination metadata returned alongside a page of results
+ */
+export interface PageMeta {
+  /** Customers matching the filters, across all pages */
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+/** Default page size for list requests */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/** Largest page size a client may request */
+export const MAX_PAGE_SIZE = 100;
+
+const TIERS: SubscriptionTier[] = ['basic', 'premium', 'enterprise'];
+const RISK_LEVELS: RiskLevel[] = ['healthy', 'warning', 'critical'];
+const SORT_FIELDS: CustomerSortField[] = ['name', 'company', 'healthScore', 'createdAt', 'updatedAt'];
+const EXPORT_FORMATS: HealthExportFormat[] = ['csv', 'json'];
+const DATE_FIELDS: HealthExportFilter['dateField'][] = ['createdAt', 'updatedAt'];
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================================================
+// Query Parsing
+// ============================================================================
+
+/**
+ * Parse a comma-separated list parameter against allowed values
+ */
+function parseListParam<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  allowed: readonly T[],
+  issues: ValidationIssue[]
+): T[] {
+  const values = params.getAll(name)
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(value => value !== '');
+  const invalid = values.filter(value => !allowed.includes(value as T));
+  if (invalid.length > 0) {
+    issues.push({
+      path: name,
+      code: 'invalid_value',
+      message: `${name} must be one or more of ${allowed.join(', ')}`,
+      received: invalid.join(',')
+    });
+  }
+  return [...new Set(values.filter(value => allowed.includes(value as T)))] as T[];
+}
+
+/**
+ * Parse a positive integer parameter
+ */
+function parseIntegerParam(
+  params: URLSearchParams,
+  name: string,
+  fallback: number,
+  max: number,
+  issues: ValidationIssue[]
+): number {
+  const raw = params.get(name);
+  if (raw === null || raw.trim() === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1 || value > max) {
+    issues.push({
+      path: name,
+      code: 'out_of_range',
+      message: `${name} must be an integer between 1 and ${max}`,
+      expected: { type: 'number', min: 1, max },
+      received: raw
+    });
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Parse list query parameters
+ *
+ * Supported parameters: `tier` and `risk` (comma-separated or repeated),
+ * `q`, `parentId` (direct child accounts of a customer), `sort` (name,
+ * company, healthScore, createdAt, updatedAt), `order` (asc, desc), `page`
+ * and `pageSize`.
+ *
+ * @param params - Request search parameters
+ * @returns Parsed query with defaults applied (sorted by name, page 1, 20 per page)
+ * @throws {InvalidInputError} With every invalid parameter
+ *
+ * @example
+ * parseCustomerListQuery(new URLSearchParams('tier=premium,enterprise&risk=critical&sort=healthScore'));
+ */
+export function parseCustomerListQuery(params: URLSearchParams): CustomerListQuery {
+  const issues: ValidationIssue[] = [];
+
+  const tiers = parseListParam(params, 'tier', TIERS, issues);
+  const riskLevels = parseListParam(params, 'risk', RISK_LEVELS, issues);
+
+  const sort = (params.get('sort') ?? 'name') as CustomerSortField;
+  if (!SORT_FIELDS.includes(sort)) {
+    issues.push({
+      path: 'sort',
+      code: 'invalid_value',
+      message: `sort must be one of ${SORT_FIELDS.join(', ')}`,
+      received: sort
+    });
+  }
+  const order = params.get('order') ?? 'asc';
+  if (order !== 'asc' && order !== 'desc') {
+    issues.push({ path: 'order', code: 'invalid_value', message: "order must be 'asc' or 'desc'", received: order });
+  }
+
+  const page = parseIntegerParam(params, 'page', 1, Number.MAX_SAFE_INTEGER, issues);
+  const pageSize = parseIntegerParam(params, 'pageSize', DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, issues);
+
+  throwIfIssues(issues);
+
+  const search = params.get('q')?.trim();
+  const parentId = params.get('parentId')?.trim();
+  return {
+    tiers,
+    riskLevels,
+    ...(search && { search }),
+    ...(parentId && { parentId }),
+    sort,
+    order: order as 'asc' | 'desc',
+    page,
+    pageSize
+  };
+}
+
+/**
+ * Parse an ISO date parameter; a date without a time covers that whole (UTC) day
+ */
+function parseDateParam(
+  params: URLSearchParams,
+  name: string,
+  boundary: 'start' | 'end',
+  issues: ValidationIssue[]
+): Date | undefined {
+  const raw = params.get(name)?.trim();
+  if (!raw) return undefined;
+
+  const date = new Date(DATE_ONLY_PATTERN.test(raw) && boundary === 'end' ? `${raw}T23:59:59.999Z` : raw);
+  if (Number.isNaN(date.getTime())) {
+    issues.push({
+      path: name,
+      code: 'invalid_value',
+      message: `${name} must be an ISO date (YYYY-MM-DD) or date-time`,
+      received: raw
+    });
+    return undefined;
+  }
+  return date;
+}
+
+/**
+ * Parse export query parameters
+ *
+ * Supported parameters: `format` (csv, json; default csv), `tier` and
+ * `risk` (comma-separated or repeated), `from` and `to` (inclusive ISO
+ * dates) and `dateField` (createdAt, updatedAt; default updatedAt), the
+ * customer date the range applies to. Risk bands are based on the
+ * calculated score.
+ *
+ * @param params - Request search parameters
+ * @returns Export format and filter
+ * @throws {InvalidInputError} With every invalid parameter
+ *
+ * @example
+ * parseHealthExportQuery(new URLSearchParams('format=json&risk=critical&from=2024-01-01'));
+ */
+export function parseHealthExportQuery(
+  params: URLSearchParams
+): { format: HealthExportFormat; filter: HealthExportFilter } {
+  const issues: ValidationIssue[] = [];
+
+  const format = (params.get('format') ?? 'csv') as HealthExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    issues.push({
+      path: 'format',
+      code: 'invalid_value',
+      message: `format must be one of ${EXPORT_FORMATS.join(', ')}`,
+      received: format
+    });
+  }
+  const dateField = (params.get('dateField') ?? 'updatedAt') as HealthExportFilter['dateField'];
+  if (!DATE_FIELDS.includes(dateField)) {
+    issues.push({
+      path: 'dateField',
+      code: 'invalid_value',
+      message: `dateField must be one of ${DATE_FIELDS.join(', ')}`,
+      received: dateField
+    });
+  }
+
+  const tiers = parseListParam(params, 'tier', TIERS, issues);
+  const riskLevels = parseListParam(params, 'risk', RISK_LEVELS, issues);
+  const from = parseDateParam(params, 'from', 'start', issues);
+  const to = parseDateParam(params, 'to', 'end', issues);
+  if (from && to && from > to) {
+    issues.push({ path: 'to', code: 'out_of_range', message: 'to must not be before from', received: params.get('to') });
+  }
+
+  throwIfIssues(issues);
+  return {
+    format,
+    filter: { riskLevels, tiers, dateField, ...(from && { from }), ...(to && { to }) }
+  };
+}
+
+// ============================================================================
+// Filtering, Sorting and Pagination
+// ============================================================================
+
+/**
+ * Apply a list query to customers
+ *
+ * Risk bands are based on the stored healthScore. Customers missing the
+ * sort field sort last regardless of order.
+ *
+ * @param customers - All customers
+ * @param query - Parsed list query
+ * @returns The requested page and pagination metadata
+ */
+export function queryCustomers(
+  customers: Customer[],
+  query: CustomerListQuery
+): { items: Customer[]; meta: PageMeta } {
+  const search = query.search?.toLowerCase();
+
+  const matching = customers.filter(customer =>
+    (query.tiers.length === 0 || (customer.subscriptionTier !== undefined &&
+      query.tiers.includes(customer.subscriptionTier))) &&
+    (query.riskLevels.length === 0 || query.riskLevels.includes(classifyRiskLevel(customer.healthScore))) &&
+    (query.parentId === undefined || customer.parentId === query.parentId) &&
+    (!search || [customer.name, customer.company, customer.email]
+      .some(value => value?.toLowerCase().includes(search)))
+  );
+
+  const direction = query.order === 'desc' ? -1 : 1;
+  matching.sort((a, b) => {
+    const left = a[query.sort];
+    const right = b[query.sort];
+    if (left === undefined || right === undefined) {
+      return left === right ? 0 : left === undefined ? 1 : -1;
+    }
+    const compared = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right));
+    return compared * direction || a.id.localeCompare(b.id);
+  });
+
+  const total = matching.length;
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    items: matching.slice(start, start + query.pageSize),
+    meta: {
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      totalPages: Math.ceil(total / query.pageSize)
+    }
+  };
+}
+
+// ============================================================================
+// Body Sanitization
+// ============================================================================
+
+/**
+ * Trim a string and remove control characters; other values pass through for validation
+ */
+function cleanString(value: unknown): unknown {
+  return typeof value === 'string' ? value.replace(/[\u0000-\u001f\u007f]/g, '').trim() : value;
+}
+
+/**
+ * Pick and clean the editable customer fields from a request body
+ *
+ * Strings are trimmed and stripped of control characters, emails and
+ * domains are lower-cased and domains are de-duplicated. A null parentId
+ * is kept (it detaches the customer). Unknown fields (including id,
+ * createdAt and updatedAt) are dropped. Values of the wrong type are kept
+ * as-is so repository validation reports them.
+ *
+ * @param body - Parsed JSON body
+ * @returns Customer fields present in the body
+ */
+export function sanitizeCustomerBody(body: Record<string, unknown>): CustomerUpdate {
+  const fields: Record<string, unknown> = {};
+
+  for (const field of ['name', 'company', 'subscriptionTier'] as const) {
+    if (body[field] !== undefined) fields[field] = cleanString(body[field]);
+  }
+  if (body.email !== undefined) {
+    const email = cleanString(body.email);
+    fields.email = typeof email === 'string' ? email.toLowerCase() : email;
+  }
+  if (body.healthScore !== undefined) {
+    fields.healthScore = body.healthScore;
+  }
+  if (body.parentId !== undefined) {
+    fields.parentId = cleanString(body.parentId);
+  }
+  if (body.domains !== undefined) {
+    fields.domains = Array.isArray(body.domains)
+      ? [...new Set(body.domains.map(domain => {
+        const cleaned = cleanString(domain);
+        return typeof cleaned === 'string' ? cleaned.toLowerCase() : cleaned;
+      }))]
+      : body.domains;
+  }
+
+  return fields as CustomerUpdate;
+}
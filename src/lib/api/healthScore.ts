@@ -0,0 +1,165 @@
+/**
+ * Health Score API Helpers
+ *
+ * Shared logic for the health score routes: resolving the scorer and
+ * calculation options from query parameters, and scoring batches where
+ * each record succeeds or fails on its own.
+ *
+ * @module api/healthScore
+ */
+
+import {
+  calculateHealthScore,
+  CalculationError,
+  InvalidInputError,
+  type HealthScoreOptions,
+  type HealthScoreResult,
+  type HealthScorer,
+  type PartialCustomerHealthData,
+  type ValidationIssue
+} from '@/lib/healthCalculator';
+import { throwIfIssues } from '@/lib/ingestion/records';
+import { scoringVersions } from '@/lib/scoringVersions';
+import type { ApiErrorCode } from '@/lib/api/responses';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * How a request wants scores calculated
+ */
+export interface ScoreRequestOptions {
+  /** Registered scoring version to use (default: the current default scorer) */
+  scorer?: HealthScorer;
+  options: HealthScoreOptions;
+}
+
+/**
+ * Outcome for one record of a batch
+ */
+export type BatchScoreItem =
+  | { index: number; customerId?: string; status: 'ok'; result: HealthScoreResult }
+  | {
+    index: number;
+    customerId?: string;
+    status: 'error';
+    error: { code: ApiErrorCode; message: string; issues?: ValidationIssue[] };
+  };
+
+/**
+ * Batch outcome with counts
+ */
+export interface BatchScoreResult {
+  items: BatchScoreItem[];
+  succeeded: number;
+  failed: number;
+}
+
+/** Largest number of records accepted in one batch request */
+export const MAX_BATCH_SIZE = 5000;
+
+// ============================================================================
+// Option Parsing
+// ============================================================================
+
+/**
+ * Read scoring options from query parameters
+ *
+ * - `version`: a registered scoring version key (e.g., '1.0.0/default@1.0.0')
+ * - `allowPartialData`: 'true' or 'false'
+ *
+ * @param params - Request search parameters
+ * @param defaults - Options applied when a parameter is absent
+ * @returns Scorer and calculation options
+ * @throws {InvalidInputError} If the version is unknown or a flag is not a boolean
+ */
+export function parseScoreRequestOptions(
+  params: URLSearchParams,
+  defaults: HealthScoreOptions = {}
+): ScoreRequestOptions {
+  const issues: ValidationIssue[] = [];
+  const options: HealthScoreOptions = { ...defaults };
+
+  const allowPartialData = params.get('allowPartialData');
+  if (allowPartialData === 'true' || allowPartialData === 'false') {
+    options.allowPartialData = allowPartialData === 'true';
+  } else if (allowPartialData !== null) {
+    issues.push({
+      path: 'allowPartialData',
+      code: 'invalid_value',
+      message: "allowPartialData must be 'true' or 'false'",
+      received: allowPartialData
+    });
+  }
+
+  const version = params.get('version');
+  const registered = version ? scoringVersions.get(version) : undefined;
+  if (version && !registered) {
+    const known = scoringVersions.list().map(entry => entry.id).join(', ');
+    issues.push({
+      path: 'version',
+      code: 'invalid_value',
+      message: `Unknown scoring version ${version}; registered: ${known}`,
+      received: version
+    });
+  }
+
+  throwIfIssues(issues);
+  return { scorer: registered?.scorer, options };
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score one record with the requested scorer
+ * @throws {InvalidInputError} If the data is invalid
+ * @throws {CalculationError} If the calculation fails
+ */
+export function scoreRecord(data: PartialCustomerHealthData, request: ScoreRequestOptions): HealthScoreResult {
+  return request.scorer
+    ? request.scorer.calculate(data, request.options)
+    : calculateHealthScore(data, request.options);
+}
+
+/**
+ * Score every record, isolating failures to their own item
+ *
+ * Invalid records report VALIDATION_ERROR with every issue; records that
+ * fail to calculate report CALCULATION_ERROR. Other errors propagate, as
+ * they indicate a server fault rather than bad input.
+ *
+ * @param records - Health data records (untrusted)
+ * @param request - Scorer and options
+ * @returns One item per record, in input order
+ */
+export function scoreBatch(records: unknown[], request: ScoreRequestOptions): BatchScoreResult {
+  const items = records.map((record, index): BatchScoreItem => {
+    const customerId = typeof record === 'object' && record !== null &&
+      typeof (record as { customerId?: unknown }).customerId === 'string'
+      ? (record as { customerId: string }).customerId
+      : undefined;
+    const reference = customerId !== undefined ? { index, customerId } : { index };
+
+    try {
+      return { ...reference, status: 'ok', result: scoreRecord(record as PartialCustomerHealthData, request) };
+    } catch (error) {
+      if (error instanceof InvalidInputError) {
+        return {
+          ...reference,
+          status: 'error',
+          error: { code: 'VALIDATION_ERROR', message: error.message, issues: error.issues }
+        };
+      }
+      if (error instanceof CalculationError) {
+        return { ...reference, status: 'error', error: { code: 'CALCULATION_ERROR', message: error.message } };
+      }
+      throw error;
+    }
+  });
+
+  const succeeded = items.filter(item => item.status === 'ok').length;
+  return { items, succeeded, failed: items.length - succeeded };
+}
@@ -0,0 +1,173 @@
+/**
+ * API Responses
+ *
+ * Shared JSON envelope for route handlers. Successful responses carry
+ * `{ data, meta? }`; failures carry `{ error: { code, message, issues? } }`
+ * with a stable machine-readable code, so scripts can branch on the code
+ * rather than parse messages.
+ *
+ * @module api/responses
+ */
+
+import { NextResponse } from 'next/server';
+import { CalculationError, InvalidInputError, type ValidationIssue } from '@/lib/healthCalculator';
+import { ConcurrencyError, CustomerNotFoundError } from '@/lib/customerRepository';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Machine-readable error codes
+ *
+ * - INVALID_JSON: the request body is not a JSON object
+ * - VALIDATION_ERROR: a body field or query parameter is invalid (see issues)
+ * - NOT_FOUND: the resource does not exist
+ * - CONFLICT: the resource changed since it was read (If-Match mismatch)
+ * - CALCULATION_ERROR: the health score could not be calculated
+ * - INTERNAL_ERROR: anything else; details are logged, not returned
+ */
+export type ApiErrorCode =
+  | 'INVALID_JSON'
+  | 'VALIDATION_ERROR'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'CALCULATION_ERROR'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Body of a successful response
+ */
+export interface ApiSuccess<T> {
+  data: T;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Body of a failed response
+ */
+export interface ApiFailure {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    /** Every invalid field, for VALIDATION_ERROR */
+    issues?: ValidationIssue[];
+  };
+}
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  INVALID_JSON: 400,
+  VALIDATION_ERROR: 400,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  CALCULATION_ERROR: 422,
+  INTERNAL_ERROR: 500
+};
+
+// ============================================================================
+// Custom Error Classes
+// ============================================================================
+
+/**
+ * Error thrown when a request body is not a JSON object
+ */
+export class InvalidJsonError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidJsonError';
+    Object.setPrototypeOf(this, InvalidJsonError.prototype);
+  }
+}
+
+// ============================================================================
+// Response Builders
+// ============================================================================
+
+/**
+ * Successful JSON response
+ *
+ * @param data - Response payload
+ * @param init - Status (default 200), metadata and extra headers
+ */
+export function apiSuccess<T>(
+  data: T,
+  init: { status?: number; meta?: Record<string, unknown>; headers?: HeadersInit } = {}
+): NextResponse<ApiSuccess<T>> {
+  const body: ApiSuccess<T> = init.meta ? { data, meta: init.meta } : { data };
+  return NextResponse.json(body, { status: init.status ?? 200, headers: init.headers });
+}
+
+/**
+ * Failed JSON response; the status follows from the code
+ */
+export function apiError(
+  code: ApiErrorCode,
+  message: string,
+  issues?: ValidationIssue[]
+): NextResponse<ApiFailure> {
+  const body: ApiFailure = { error: issues && issues.length > 0 ? { code, message, issues } : { code, message } };
+  return NextResponse.json(body, { status: STATUS_BY_CODE[code] });
+}
+
+/**
+ * Map a thrown error to a failed response
+ *
+ * Known errors keep their message; unexpected ones are logged and reported
+ * with a generic message so internals do not leak to clients.
+ */
+export function handleApiError(error: unknown): NextResponse<ApiFailure> {
+  if (error instanceof InvalidJsonError) {
+    return apiError('INVALID_JSON', error.message);
+  }
+  if (error instanceof InvalidInputError) {
+    return apiError('VALIDATION_ERROR', error.message, error.issues);
+  }
+  if (error instanceof CustomerNotFoundError) {
+    return apiError('NOT_FOUND', error.message);
+  }
+  if (error instanceof ConcurrencyError) {
+    return apiError('CONFLICT', error.message);
+  }
+  if (error instanceof CalculationError) {
+    return apiError('CALCULATION_ERROR', error.message);
+  }
+  console.error('Unhandled API error', error);
+  return apiError('INTERNAL_ERROR', 'An unexpected error occurred');
+}
+
+// ============================================================================
+// Request Helpers
+// ============================================================================
+
+/**
+ * Parse a JSON object body
+ * @throws {InvalidJsonError} If the body is not valid JSON or not an object
+ */
+export async function readJsonObject(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new InvalidJsonError('Request body must be valid JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new InvalidJsonError('Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Run a route handler body, turning thrown errors into envelope responses
+ *
+ * @example
+ * export function GET() {
+ *   return withErrorHandling(async () => apiSuccess(await repository.list()));
+ * }
+ */
+export async function withErrorHandling(handler: () => Promise<Response>): Promise<Response> {
+  try {
+    return await handler();
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
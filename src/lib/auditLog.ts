@@ -0,0 +1,778 @@
+/**
+ * Customer Audit Log
+ *
+ * Append-only record of every customer change: field-level diffs for
+ * customer and health data mutations, and the health score recalculated
+ * from stored health data whenever it changes, together with those inputs.
+ * Reads never write to the log. Each entry carries who made the change
+ * and why, and is chained to the previous entry by hash so tampering with
+ * the history is detectable.
+ *
+ * `AuditedCustomerRepository` wraps any CustomerRepository so that callers
+ * record changes simply by writing through it; `explainRiskLevelAt` answers
+ * "why was this account critical on that date" from the log alone.
+ *
+ * @module auditLog
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { appendFile, mkdir, readFile, truncate } from 'fs/promises';
+import path from 'path';
+import type { Customer } from '@/data/mock-customers';
+import { formatCsvRow, spreadsheetSafe } from '@/lib/csv';
+import type {
+  CustomerInput,
+  CustomerRepository,
+  CustomerUpdate,
+  WriteOptions
+} from '@/lib/customerRepository';
+import {
+  calculateHealthScore,
+  CalculationError,
+  InvalidInputError,
+  type HealthScoreResult,
+  type PartialCustomerHealthData,
+  type PreviousRiskLevel,
+  type RiskLevel,
+  type ScoreVersion
+} from '@/lib/healthCalculator';
+import type { HealthScoreUpdate } from '@/lib/scoreReconciliation';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Kind of change an entry records
+ */
+export type AuditAction =
+  | 'customer.created'
+  | 'customer.updated'
+  | 'customer.deleted'
+  | 'health_data.updated'
+  | 'health_score.calculated';
+
+/**
+ * One changed field; values are absent when the field did not exist before or after
+ */
+export interface FieldChange {
+  /** Dotted path (e.g., 'subscriptionTier', 'payment.overdueAmount', 'breakdown.payment') */
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Who made a change and why
+ */
+export interface AuditContext {
+  /** User, service or process responsible (default: 'system') */
+  actor?: string;
+  /** Free-text justification or source (e.g., 'Imported from q3-accounts.csv row 12') */
+  reason?: string;
+}
+
+/**
+ * Health score snapshot stored with a health_score.calculated entry
+ */
+export interface AuditedScore {
+  overallScore: number;
+  riskLevel: RiskLevel;
+  /** Band the score maps to, when hysteresis held riskLevel */
+  bandRiskLevel?: RiskLevel;
+  /** When the customer entered riskLevel (absent on entries recorded before it was tracked) */
+  riskLevelSince?: string;
+  confidence: number;
+  missingFactors: string[];
+  /** Per-factor score, weight and reasons */
+  factors: Record<string, { score: number; weight: number; reasons: string[] }>;
+  version: ScoreVersion;
+  inputHash: string;
+  calculatedAt: string;
+}
+
+/**
+ * An immutable audit log entry
+ */
+export interface AuditEntry {
+  id: string;
+  /** Position in the log, starting at 1 */
+  sequence: number;
+  /** ISO timestamp the entry was recorded */
+  timestamp: string;
+  customerId: string;
+  action: AuditAction;
+  actor: string;
+  reason?: string;
+  /** Field-level diff; for score entries, the change from the previous score */
+  changes: FieldChange[];
+  /** Score snapshot, for health_score.calculated */
+  score?: AuditedScore;
+  /** Health data the score was calculated from, for health_score.calculated */
+  inputs?: PartialCustomerHealthData;
+  /** Hash of the previous entry ('' for the first) */
+  previousHash: string;
+  /** SHA-256 of this entry's content and previousHash */
+  hash: string;
+}
+
+/**
+ * Entry content supplied by the writer; the log assigns the rest
+ */
+export type AuditEntryInput = Omit<AuditEntry, 'id' | 'sequence' | 'timestamp' | 'previousHash' | 'hash'> & {
+  timestamp?: string;
+};
+
+/**
+ * Audit log query
+ */
+export interface AuditQuery {
+  customerId?: string;
+  /** Only these actions (all when empty or omitted) */
+  actions?: AuditAction[];
+  /** Inclusive start */
+  from?: Date;
+  /** Inclusive end */
+  to?: Date;
+  /** Most recent N matching entries */
+  limit?: number;
+}
+
+/**
+ * Append-only storage for audit entries
+ */
+export interface AuditLog {
+  /** Record an entry; returns it with id, sequence, timestamp and hashes assigned */
+  append(entry: AuditEntryInput): Promise<AuditEntry>;
+  /** Matching entries in chronological order */
+  query(query?: AuditQuery): Promise<AuditEntry[]>;
+}
+
+/**
+ * Why a customer had its risk level at a point in time
+ */
+export interface RiskExplanation {
+  customerId: string;
+  /** Time the explanation is for */
+  at: string;
+  riskLevel: RiskLevel;
+  overallScore: number;
+  /** Score entry in effect at that time */
+  scoreEntry: AuditEntry;
+  /** Reasons from the weakest factors first (largest weighted shortfall) */
+  reasons: string[];
+  /** Changes recorded between the previous score and this one, i.e. what moved it */
+  precedingChanges: AuditEntry[];
+}
+
+/** Actor recorded when none is given */
+export const DEFAULT_AUDIT_ACTOR = 'system';
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Field-level differences between two values
+ *
+ * Objects are compared key by key (recursively, producing dotted paths);
+ * arrays and other values are compared as a whole.
+ *
+ * @param before - Previous value (undefined when created)
+ * @param after - New value (undefined when deleted)
+ * @param prefix - Path prefix for nested fields
+ * @returns One change per differing leaf field, sorted by path
+ *
+ * @example
+ * diffFields({ tier: 'basic', domains: ['a.com'] }, { tier: 'premium', domains: ['a.com'] });
+ * // [{ field: 'tier', before: 'basic', after: 'premium' }]
+ */
+export function diffFields(before: unknown, after: unknown, prefix = ''): FieldChange[] {
+  const comparable = (isPlainObject(before) || before === undefined) && (isPlainObject(after) || after === undefined);
+  if (comparable && (isPlainObject(before) || isPlainObject(after))) {
+    const left = isPlainObject(before) ? before : {};
+    const right = isPlainObject(after) ? after : {};
+    const keys = [...new Set([...Object.keys(left), ...Object.keys(right)])].sort();
+    return keys.flatMap(key => diffFields(left[key], right[key], prefix ? `${prefix}.${key}` : key));
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{
+    field: prefix,
+    ...(before !== undefined && { before }),
+    ...(after !== undefined && { after })
+  }];
+}
+
+/**
+ * Customer fields worth auditing (timestamps are implied by the entry)
+ */
+function auditedCustomerFields(customer: Customer | undefined): Record<string, unknown> | undefined {
+  if (!customer) return undefined;
+  const fields: Record<string, unknown> = { ...customer };
+  delete fields.createdAt;
+  delete fields.updatedAt;
+  return fields;
+}
+
+// ============================================================================
+// Hash Chain
+// ============================================================================
+
+/**
+ * SHA-256 over an entry's content and the previous hash
+ */
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(JSON.stringify(entry)).digest('hex');
+}
+
+/**
+ * Check that entries form an unbroken, unmodified hash chain
+ *
+ * @param entries - The complete log, in sequence order
+ * @returns The first sequence number that fails verification, or null if intact
+ */
+export function verifyAuditChain(entries: AuditEntry[]): number | null {
+  let previousHash = '';
+  for (const entry of entries) {
+    const { hash, ...content } = entry;
+    if (entry.previousHash !== previousHash || hashEntry(content) !== hash) {
+      return entry.sequence;
+    }
+    previousHash = hash;
+  }
+  return null;
+}
+
+// ============================================================================
+// In-Memory Log
+// ============================================================================
+
+/**
+ * Process-local audit log; entries are lost on restart
+ *
+ * Appends run one at a time, and an entry joins the log only once it has
+ * been persisted, so a failed write leaves no trace in memory or the chain.
+ *
+ * @example
+ * const log = new InMemoryAuditLog();
+ * const repository = new AuditedCustomerRepository(new InMemoryCustomerRepository(), log);
+ */
+export class InMemoryAuditLog implements AuditLog {
+  private readonly entries: AuditEntry[] = [];
+  /** Entries per customer, in sequence order, so per-customer queries skip the rest of the log */
+  private readonly entriesByCustomer = new Map<string, AuditEntry[]>();
+  private appending: Promise<unknown> = Promise.resolve();
+
+  append(input: AuditEntryInput): Promise<AuditEntry> {
+    const appended = this.appending.catch(() => undefined).then(() => this.appendNext(input));
+    this.appending = appended;
+    return appended;
+  }
+
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.ready();
+    const from = query.from?.getTime() ?? -Infinity;
+    const to = query.to?.getTime() ?? Infinity;
+    const candidates = query.customerId === undefined
+      ? this.entries
+      : this.entriesByCustomer.get(query.customerId) ?? [];
+    const matching = candidates.filter(entry => {
+      const time = Date.parse(entry.timestamp);
+      return (!query.actions?.length || query.actions.includes(entry.action)) && time >= from && time <= to;
+    });
+    const limited = query.limit !== undefined ? matching.slice(Math.max(0, matching.length - query.limit)) : matching;
+    return limited.map(entry => structuredClone(entry));
+  }
+
+  /**
+   * Add an entry to the log and the customer index; subclasses load stored entries through here
+   */
+  protected add(entry: AuditEntry): void {
+    this.entries.push(entry);
+    const forCustomer = this.entriesByCustomer.get(entry.customerId);
+    if (forCustomer) {
+      forCustomer.push(entry);
+    } else {
+      this.entriesByCustomer.set(entry.customerId, [entry]);
+    }
+  }
+
+  /**
+   * Resolves once stored entries are available; subclasses load lazily here
+   */
+  protected async ready(): Promise<void> {}
+
+  /**
+   * Called for every append before the entry joins the log; subclasses persist here
+   */
+  protected persist?(entry: AuditEntry): Promise<void>;
+
+  /**
+   * Chain and store one entry; appends run through here one at a time
+   */
+  private async appendNext(input: AuditEntryInput): Promise<AuditEntry> {
+    await this.ready();
+    const previous = this.entries[this.entries.length - 1];
+    const content: Omit<AuditEntry, 'hash'> = {
+      id: randomUUID(),
+      sequence: (previous?.sequence ?? 0) + 1,
+      timestamp: input.timestamp ?? new Date().toISOString(),
+      customerId: input.customerId,
+      action: input.action,
+      actor: input.actor,
+      ...(input.reason !== undefined && { reason: input.reason }),
+      changes: input.changes,
+      ...(input.score && { score: input.score }),
+      ...(input.inputs && { inputs: input.inputs }),
+      previousHash: previous?.hash ?? ''
+    };
+    const entry: AuditEntry = structuredClone({ ...content, hash: hashEntry(content) });
+    await this.persist?.(entry);
+    this.add(entry);
+    return structuredClone(entry);
+  }
+}
+
+// ============================================================================
+// JSON Lines Log
+// ============================================================================
+
+/**
+ * Audit log persisted as a JSON Lines file, one entry per line
+ *
+ * The file is only ever appended to, one complete line per entry. It is
+ * read on first access (again after a failed read). A final line without
+ * its newline is an append that never finished, so its entry never joined
+ * the log: it is cut off the file before new lines are appended. Any other
+ * unreadable line means the file is damaged, and reads and writes fail
+ * until it is repaired. Intended for a single server process, like
+ * JsonFileCustomerRepository.
+ */
+export class JsonLinesAuditLog extends InMemoryAuditLog {
+  private loading: Promise<void> | null = null;
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  protected ready(): Promise<void> {
+    this.loading ??= this.readFromDisk().catch(error => {
+      // Retry on the next access instead of failing every later one with the same error
+      this.loading = null;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  protected async persist(entry: AuditEntry): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+  }
+
+  private async readFromDisk(): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    const complete = content.lastIndexOf('\n') + 1;
+    const entries = content.slice(0, complete).split('\n').flatMap((line, index) => {
+      if (line.trim() === '') return [];
+      try {
+        return [JSON.parse(line) as AuditEntry];
+      } catch (error) {
+        throw new Error(
+          `Audit log ${this.filePath} is damaged: line ${index + 1} is not valid JSON ` +
+          `(${error instanceof Error ? error.message : 'Unknown error'}); repair it to resume auditing`
+        );
+      }
+    });
+    if (complete < content.length) {
+      await truncate(this.filePath, Buffer.byteLength(content.slice(0, complete), 'utf8'));
+    }
+    entries.forEach(entry => this.add(entry));
+  }
+}
+
+// ============================================================================
+// Score Recording and Explanation
+// ============================================================================
+
+/**
+ * Score snapshot for the log
+ */
+function toAuditedScore(result: HealthScoreResult): AuditedScore {
+  return {
+    overallScore: result.overallScore,
+    riskLevel: result.riskLevel,
+    ...(result.bandRiskLevel && { bandRiskLevel: result.bandRiskLevel }),
+    riskLevelSince: result.riskLevelSince.toISOString(),
+    confidence: result.confidence,
+    missingFactors: result.missingFactors,
+    factors: Object.fromEntries(Object.entries(result.breakdown).map(([factor, score]) => [
+      factor,
+      { score: score!.score, weight: score!.weight, reasons: score!.reasons }
+    ])),
+    version: result.version,
+    inputHash: result.inputHash,
+    calculatedAt: result.calculatedAt.toISOString()
+  };
+}
+
+/**
+ * Fields compared between consecutive scores
+ */
+function scoreSummary(score: AuditedScore | undefined): Record<string, unknown> | undefined {
+  return score && {
+    overallScore: score.overallScore,
+    riskLevel: score.riskLevel,
+    factors: Object.fromEntries(Object.entries(score.factors).map(([factor, { score: value }]) => [factor, value]))
+  };
+}
+
+/**
+ * The customer's latest recorded risk level, for debouncing the next score
+ *
+ * @param log - Audit log
+ * @param customerId - Customer to look up
+ * @returns Level, when it was entered and when it was calculated; undefined if no score was recorded
+ *
+ * @example
+ * const previousResult = await latestRecordedRiskLevel(getAuditLog(), '2');
+ * calculateHealthScore(healthData, { previousResult, hysteresis: {} });
+ */
+export async function latestRecordedRiskLevel(
+  log: AuditLog,
+  customerId: string
+): Promise<PreviousRiskLevel | undefined> {
+  const [latest] = await log.query({ customerId, actions: ['health_score.calculated'], limit: 1 });
+  if (!latest?.score) return undefined;
+  return {
+    customerId,
+    riskLevel: latest.score.riskLevel,
+    riskLevelSince: new Date(latest.score.riskLevelSince ?? latest.score.calculatedAt),
+    calculatedAt: new Date(latest.score.calculatedAt)
+  };
+}
+
+/**
+ * Record a recalculated health score with its inputs
+ *
+ * Only scores calculated from the customer's stored health data belong
+ * here. Skipped when the customer's latest recorded score came from the
+ * same inputs and scoring version with the same result, so rewriting
+ * unchanged health data does not duplicate it.
+ *
+ * @param log - Audit log
+ * @param customerId - Customer the score belongs to
+ * @param result - Calculated result
+ * @param inputs - Health data the result was calculated from
+ * @param context - Actor and reason
+ * @returns The new entry, or undefined if nothing changed
+ */
+export async function recordHealthScore(
+  log: AuditLog,
+  customerId: string,
+  result: HealthScoreResult,
+  inputs: PartialCustomerHealthData,
+  context: AuditContext = {}
+): Promise<AuditEntry | undefined> {
+  const [previous] = await log.query({ customerId, actions: ['health_score.calculated'], limit: 1 });
+  const score = toAuditedScore(result);
+  if (
+    previous?.score &&
+    previous.score.inputHash === score.inputHash &&
+    JSON.stringify(previous.score.version) === JSON.stringify(score.version) &&
+    previous.score.overallScore === score.overallScore &&
+    previous.score.riskLevel === score.riskLevel
+  ) {
+    return undefined;
+  }
+
+  return log.append({
+    customerId,
+    action: 'health_score.calculated',
+    actor: context.actor ?? DEFAULT_AUDIT_ACTOR,
+    ...(context.reason !== undefined && { reason: context.reason }),
+    changes: diffFields(scoreSummary(previous?.score), scoreSummary(score)),
+    score,
+    inputs: structuredClone(inputs)
+  });
+}
+
+/**
+ * Explain a customer's risk level at a point in time from the audit log
+ *
+ * Uses the latest score recorded at or before `at`. Reasons come from the
+ * factors that cost the most weighted points, and `precedingChanges` lists
+ * what was recorded between the previous score and that one.
+ *
+ * @param log - Audit log
+ * @param customerId - Customer to explain
+ * @param at - Point in time
+ * @returns The explanation, or null if no score was recorded by then
+ *
+ * @example
+ * const explanation = await explainRiskLevelAt(getAuditLog(), '3', new Date('2024-06-30'));
+ * // { riskLevel: 'critical', overallScore: 18, reasons: ['Overdue balance of $8,500 cost 30 points', ...] }
+ */
+export async function explainRiskLevelAt(
+  log: AuditLog,
+  customerId: string,
+  at: Date
+): Promise<RiskExplanation | null> {
+  const history = await log.query({ customerId, to: at });
+  const scoreIndexes = history
+    .map((entry, index) => (entry.action === 'health_score.calculated' ? index : -1))
+    .filter(index => index >= 0);
+  if (scoreIndexes.length === 0) {
+    return null;
+  }
+
+  const current = scoreIndexes[scoreIndexes.length - 1];
+  const previous = scoreIndexes.length > 1 ? scoreIndexes[scoreIndexes.length - 2] : -1;
+  const scoreEntry = history[current];
+  const score = scoreEntry.score!;
+
+  const reasons = Object.values(score.factors)
+    .sort((a, b) => (100 - b.score) * b.weight - (100 - a.score) * a.weight)
+    .flatMap(factor => factor.reasons);
+
+  return {
+    customerId,
+    at: at.toISOString(),
+    riskLevel: score.riskLevel,
+    overallScore: score.overallScore,
+    scoreEntry,
+    reasons,
+    precedingChanges: history.slice(previous + 1, current)
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Format a value for a CSV cell
+ */
+function cellValue(value: unknown): string | undefined {
+  return typeof value === 'string' || value === undefined ? spreadsheetSafe(value) : JSON.stringify(value);
+}
+
+/**
+ * Format entries as CSV with one line per field change (one line for
+ * entries without changes); object values are written as JSON. Text
+ * cells starting with a formula character are prefixed with an apostrophe.
+ *
+ * @param entries - Entries to export
+ * @returns CSV text with a header line
+ */
+export function formatAuditLogCsv(entries: AuditEntry[]): string {
+  let csv = formatCsvRow([
+    'sequence', 'timestamp', 'customerId', 'action', 'actor', 'reason', 'field', 'before', 'after', 'hash'
+  ]);
+  for (const entry of entries) {
+    const base = [
+      entry.sequence,
+      entry.timestamp,
+      spreadsheetSafe(entry.customerId),
+      entry.action,
+      spreadsheetSafe(entry.actor),
+      spreadsheetSafe(entry.reason)
+    ];
+    const changes: FieldChange[] = entry.changes.length > 0 ? entry.changes : [{ field: '' }];
+    for (const change of changes) {
+      csv += formatCsvRow([...base, spreadsheetSafe(change.field), cellValue(change.before), cellValue(change.after), entry.hash]);
+    }
+  }
+  return csv;
+}
+
+// ============================================================================
+// Audited Repository
+// ============================================================================
+
+/**
+ * Repository decorator that records every mutation in an audit log
+ *
+ * Reads pass straight through. Writes read the previous state, delegate,
+ * then append an entry with the field-level diff; they run one at a time,
+ * so concurrent writes through the same decorator cannot interleave
+ * between reading the previous state and recording the diff. Storing
+ * health data also recalculates the score (partial data allowed, risk level
+ * debounced against the last recorded score with DEFAULT_RISK_HYSTERESIS)
+ * and records it with its inputs; deleting a customer records the health data
+ * dropped with it. A write that fails is not recorded, and each write runs
+ * as a transaction on the inner repository, so a change whose entries
+ * cannot be appended is rolled back rather than kept unaudited.
+ *
+ * @example
+ * const repository = new AuditedCustomerRepository(new InMemoryCustomerRepository(createMockSeed()), log);
+ * await repository.update('1', { subscriptionTier: 'enterprise' }, { actor: 'jane@company.com', reason: 'Upsell' });
+ */
+export class AuditedCustomerRepository implements CustomerRepository {
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly inner: CustomerRepository,
+    readonly auditLog: AuditLog
+  ) {}
+
+  list(): Promise<Customer[]> {
+    return this.inner.list();
+  }
+
+  get(id: string): Promise<Customer | undefined> {
+    return this.inner.get(id);
+  }
+
+  getHealthData(id: string): Promise<PartialCustomerHealthData | undefined> {
+    return this.inner.getHealthData(id);
+  }
+
+  create(input: CustomerInput, options: WriteOptions = {}): Promise<Customer> {
+    return this.exclusive(async () => {
+      const customer = await this.inner.create(input, options);
+      await this.record(
+        customer.id,
+        'customer.created',
+        diffFields(undefined, auditedCustomerFields(customer)),
+        options
+      );
+      return customer;
+    });
+  }
+
+  update(id: string, changes: CustomerUpdate, options: WriteOptions = {}): Promise<Customer> {
+    return this.exclusive(async () => {
+      const before = await this.inner.get(id);
+      const customer = await this.inner.update(id, changes, options);
+      await this.record(
+        id,
+        'customer.updated',
+        diffFields(auditedCustomerFields(before), auditedCustomerFields(customer)),
+        options
+      );
+      return customer;
+    });
+  }
+
+  delete(id: string, options: WriteOptions = {}): Promise<void> {
+    return this.exclusive(async () => {
+      const before = await this.inner.get(id);
+      const healthBefore = await this.inner.getHealthData(id);
+      await this.inner.delete(id, options);
+      if (healthBefore) {
+        await this.record(id, 'health_data.updated', diffFields(healthBefore, undefined), options);
+      }
+      await this.record(id, 'customer.deleted', diffFields(auditedCustomerFields(before), undefined), options);
+    });
+  }
+
+  setHealthData(id: string, data: PartialCustomerHealthData, options: WriteOptions = {}): Promise<void> {
+    return this.exclusive(async () => {
+      const before = await this.inner.getHealthData(id);
+      await this.inner.setHealthData(id, data, options);
+      const after = (await this.inner.getHealthData(id))!;
+      await this.record(id, 'health_data.updated', diffFields(before, after), options);
+
+      const previousResult = await latestRecordedRiskLevel(this.auditLog, id);
+      let result: HealthScoreResult;
+      try {
+        result = calculateHealthScore(after, { allowPartialData: true, previousResult, hysteresis: {} });
+      } catch (error) {
+        // Data that cannot be scored (e.g., no factors at all) has nothing to record
+        if (error instanceof InvalidInputError || error instanceof CalculationError) return;
+        throw error;
+      }
+      await recordHealthScore(this.auditLog, id, result, after, options);
+    });
+  }
+
+  batch<T>(work: () => Promise<T>): Promise<T> {
+    return this.inner.batch(work);
+  }
+
+  transaction<T>(work: () => Promise<T>): Promise<T> {
+    return this.inner.transaction(work);
+  }
+
+  updateHealthScore(update: HealthScoreUpdate): Promise<void> {
+    return this.exclusive(async () => {
+      const before = await this.inner.get(update.customerId);
+      await this.inner.updateHealthScore(update);
+      const after = await this.inner.get(update.customerId);
+      await this.record(
+        update.customerId,
+        'customer.updated',
+        diffFields(auditedCustomerFields(before), auditedCustomerFields(after)),
+        { reason: 'Health score reconciliation' }
+      );
+    });
+  }
+
+  /**
+   * Run a write after every earlier one has settled, as an inner transaction
+   */
+  private exclusive<T>(write: () => Promise<T>): Promise<T> {
+    const result = this.writing.catch(() => undefined).then(() => this.inner.transaction(write));
+    this.writing = result;
+    return result;
+  }
+
+  private async record(
+    customerId: string,
+    action: AuditAction,
+    changes: FieldChange[],
+    context: AuditContext
+  ): Promise<void> {
+    await this.auditLog.append({
+      customerId,
+      action,
+      actor: context.actor ?? DEFAULT_AUDIT_ACTOR,
+      ...(context.reason !== undefined && { reason: context.reason }),
+      changes
+    });
+  }
+}
+
+// ============================================================================
+// Shared Log
+// ============================================================================
+
+/** Default location of the audit log file, relative to the working directory */
+export const DEFAULT_AUDIT_LOG_FILE = path.join('.data', 'audit-log.jsonl');
+
+let sharedAuditLog: AuditLog | null = null;
+
+/**
+ * Audit log shared by the customer repository and API routes
+ *
+ * Backed by a JSON Lines file at AUDIT_LOG_FILE (default
+ * .data/audit-log.jsonl), or kept in memory when CUSTOMER_REPOSITORY=memory.
+ *
+ * @returns The process-wide audit log
+ */
+export function getAuditLog(): AuditLog {
+  sharedAuditLog ??= process.env.CUSTOMER_REPOSITORY === 'memory'
+    ? new InMemoryAuditLog()
+    : new JsonLinesAuditLog(path.resolve(process.env.AUDIT_LOG_FILE ?? DEFAULT_AUDIT_LOG_FILE));
+  return sharedAuditLog;
+}
+
+/**
+ * Replace the shared audit log; null restores the default
+ */
+export function setAuditLog(log: AuditLog | null): void {
+  sharedAuditLog = log;
+}
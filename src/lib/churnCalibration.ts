@@ -0,0 +1,588 @@
+/**
+ * Churn Probability Calibration
+ *
+ * Fits a mapping from health scores (and optionally factor scores) to the
+ * probability that a customer churns, trained on historical outcomes.
+ * Supports logistic regression and isotonic regression, and reports
+ * calibration quality as Brier score, log loss and a reliability table.
+ *
+ * @module churnCalibration
+ */
+
+import { readFile } from 'fs/promises';
+import { parseCsvRecords } from '@/lib/csv';
+import {
+  healthFactors,
+  InvalidInputError,
+  toInvalidInputError,
+  type HealthFactor,
+  type HealthScoreResult,
+  type ValidationIssue
+} from '@/lib/healthCalculator';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A historical outcome: the customer's score and whether it churned
+ */
+export interface ChurnOutcome {
+  customerId: string;
+  /** Overall health score (0-100) at the time of observation */
+  score: number;
+  /** Whether the customer churned */
+  churned: boolean;
+  /** Factor scores (0-100) at the time of observation, when known */
+  factorScores?: Partial<Record<HealthFactor, number>>;
+}
+
+/**
+ * Calibration method
+ */
+export type CalibrationMethod = 'logistic' | 'isotonic';
+
+/**
+ * Logistic calibration on standardized features
+ */
+export interface LogisticCalibrationModel {
+  method: 'logistic';
+  /** Feature names: 'score' followed by any factors used */
+  features: ('score' | HealthFactor)[];
+  /** Feature means used for standardization (and to impute missing factors) */
+  means: number[];
+  /** Feature standard deviations used for standardization */
+  scales: number[];
+  /** Coefficient per standardized feature */
+  coefficients: number[];
+  intercept: number;
+}
+
+/**
+ * Isotonic calibration: non-increasing churn probability as score rises
+ */
+export interface IsotonicCalibrationModel {
+  method: 'isotonic';
+  /** Ascending block scores; probabilities are interpolated between them */
+  scores: number[];
+  /** Churn probability at each block score */
+  probabilities: number[];
+}
+
+/**
+ * A fitted churn calibration model (plain data, safe to serialize)
+ */
+export type ChurnCalibrationModel = LogisticCalibrationModel | IsotonicCalibrationModel;
+
+/**
+ * One row of a reliability table
+ */
+export interface ReliabilityBin {
+  /** Lowest predicted probability in the bin (inclusive) */
+  min: number;
+  /** Highest predicted probability in the bin */
+  max: number;
+  /** Outcomes whose prediction falls in the bin */
+  count: number;
+  /** Mean predicted probability in the bin */
+  meanPredicted: number;
+  /** Observed churn rate in the bin */
+  observedRate: number;
+}
+
+/**
+ * Calibration quality metrics
+ */
+export interface CalibrationMetrics {
+  sampleCount: number;
+  /** Observed churn rate across all outcomes */
+  baseRate: number;
+  /** Mean squared error of predicted probabilities (lower is better) */
+  brierScore: number;
+  /** Mean negative log-likelihood (lower is better) */
+  logLoss: number;
+  /** Predicted versus observed churn per probability bin (empty bins omitted) */
+  reliability: ReliabilityBin[];
+}
+
+/**
+ * Options for fitting a calibration
+ */
+export interface ChurnCalibrationOptions {
+  /** Calibration method (default 'logistic') */
+  method?: CalibrationMethod;
+  /** Include factor scores as features; logistic only (default false) */
+  useFactorScores?: boolean;
+  /** Gradient descent iterations; logistic only (default 2000) */
+  iterations?: number;
+  /** Gradient descent step size; logistic only (default 0.1) */
+  learningRate?: number;
+  /** L2 regularization strength; logistic only (default 0.01) */
+  l2?: number;
+  /** Reliability table bins (default 10) */
+  bins?: number;
+}
+
+/**
+ * Fitted model together with its in-sample quality metrics
+ */
+export interface ChurnCalibration {
+  model: ChurnCalibrationModel;
+  metrics: CalibrationMetrics;
+}
+
+const PROBABILITY_EPSILON = 1e-6;
+
+// ============================================================================
+// Outcome Loading
+// ============================================================================
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1']);
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0']);
+
+/**
+ * Parse a yes/no style value
+ */
+function parseChurned(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : undefined;
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (TRUE_VALUES.has(normalized)) return true;
+    if (FALSE_VALUES.has(normalized)) return false;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a score-like value (0-100)
+ */
+function parseScore(value: unknown): number | undefined {
+  const score = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof score === 'number' && Number.isFinite(score) && score >= 0 && score <= 100
+    ? score
+    : undefined;
+}
+
+/**
+ * Convert one raw record into an outcome, collecting issues
+ */
+function toChurnOutcome(
+  record: Record<string, unknown>,
+  path: string,
+  issues: ValidationIssue[]
+): ChurnOutcome | null {
+  const issueCount = issues.length;
+  const customerId = typeof record.customerId === 'number' ? String(record.customerId) : record.customerId;
+  const score = parseScore(record.score);
+  const churned = parseChurned(record.churned);
+
+  if (typeof customerId !== 'string' || customerId.trim() === '') {
+    issues.push({
+      path: `${path}.customerId`,
+      code: 'required',
+      message: `${path}.customerId is required`,
+      expected: { type: 'string' },
+      received: record.customerId
+    });
+  }
+  if (score === undefined) {
+    issues.push({
+      path: `${path}.score`,
+      code: 'out_of_range',
+      message: `${path}.score must be a number between 0 and 100`,
+      expected: { type: 'number', min: 0, max: 100 },
+      received: record.score
+    });
+  }
+  if (churned === undefined) {
+    issues.push({
+      path: `${path}.churned`,
+      code: 'invalid_value',
+      message: `${path}.churned must be yes/no, true/false or 1/0`,
+      expected: { type: 'boolean' },
+      received: record.churned
+    });
+  }
+
+  const factorScores: Partial<Record<HealthFactor, number>> = {};
+  for (const { key: factor } of healthFactors.list()) {
+    const raw = record[factor];
+    if (raw === undefined || raw === null || raw === '') continue;
+    const factorScore = parseScore(raw);
+    if (factorScore === undefined) {
+      issues.push({
+        path: `${path}.${factor}`,
+        code: 'out_of_range',
+        message: `${path}.${factor} must be a number between 0 and 100`,
+        expected: { type: 'number', min: 0, max: 100 },
+        received: raw
+      });
+    } else {
+      factorScores[factor] = factorScore;
+    }
+  }
+
+  if (issues.length > issueCount) return null;
+  return {
+    customerId: customerId as string,
+    score: score as number,
+    churned: churned as boolean,
+    ...(Object.keys(factorScores).length > 0 && { factorScores })
+  };
+}
+
+/**
+ * Parse historical churn outcomes from CSV or JSON content
+ *
+ * CSV needs a header row with `customerId,score,churned` and may add a
+ * score column per registered factor (e.g., `payment`, `engagement`).
+ * JSON must be an array of objects with the same fields. `churned` accepts
+ * yes/no, true/false or 1/0.
+ *
+ * @param content - File content
+ * @param format - Content format
+ * @returns Parsed outcomes
+ * @throws {InvalidInputError} With one issue per invalid field (paths like '[3].score')
+ */
+export function parseChurnOutcomes(content: string, format: 'csv' | 'json'): ChurnOutcome[] {
+  let records: unknown;
+  if (format === 'json') {
+    try {
+      records = JSON.parse(content);
+    } catch (error) {
+      throw new InvalidInputError(
+        `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    if (!Array.isArray(records)) {
+      throw new InvalidInputError('JSON outcomes must be an array of objects');
+    }
+  } else {
+    records = parseCsvRecords(content);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const outcomes: ChurnOutcome[] = [];
+  (records as unknown[]).forEach((record, index) => {
+    const path = `[${index}]`;
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+      issues.push({
+        path,
+        code: 'invalid_type',
+        message: `${path} must be an object`,
+        expected: { type: 'object' },
+        received: record
+      });
+      return;
+    }
+    const outcome = toChurnOutcome(record as Record<string, unknown>, path, issues);
+    if (outcome) outcomes.push(outcome);
+  });
+
+  if (issues.length > 0) {
+    throw toInvalidInputError(issues);
+  }
+
+  return outcomes;
+}
+
+/**
+ * Load historical churn outcomes from a local CSV or JSON file
+ *
+ * The format is taken from the file extension (.json, otherwise CSV).
+ *
+ * @param filePath - Path to the outcomes file
+ * @returns Parsed outcomes
+ * @throws {InvalidInputError} If the file cannot be read or contains invalid rows
+ *
+ * @example
+ * const outcomes = await loadChurnOutcomes('data/churn-outcomes.csv');
+ * const { model, metrics } = fitChurnCalibration(outcomes);
+ */
+export async function loadChurnOutcomes(filePath: string): Promise<ChurnOutcome[]> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new InvalidInputError(
+      `Cannot read churn outcomes from ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+  return parseChurnOutcomes(content, filePath.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+}
+
+// ============================================================================
+// Model Fitting
+// ============================================================================
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+function clampProbability(p: number): number {
+  return Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, p));
+}
+
+/**
+ * Raw feature vector; missing factor scores are imputed with the given means
+ */
+function featureVector(
+  features: LogisticCalibrationModel['features'],
+  score: number,
+  factorScores: Partial<Record<HealthFactor, number>> | undefined,
+  means: number[]
+): number[] {
+  return features.map((feature, i) =>
+    feature === 'score' ? score : factorScores?.[feature] ?? means[i]
+  );
+}
+
+/**
+ * Fit logistic regression by batch gradient descent on standardized features
+ */
+function fitLogistic(
+  outcomes: ChurnOutcome[],
+  useFactorScores: boolean,
+  iterations: number,
+  learningRate: number,
+  l2: number
+): LogisticCalibrationModel {
+  const features: LogisticCalibrationModel['features'] = ['score'];
+  if (useFactorScores) {
+    features.push(...new Set(outcomes.flatMap(outcome => Object.keys(outcome.factorScores ?? {}))));
+  }
+
+  const means = features.map(feature => {
+    const values = outcomes
+      .map(outcome => (feature === 'score' ? outcome.score : outcome.factorScores?.[feature]))
+      .filter((value): value is number => value !== undefined);
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  });
+
+  const raw = outcomes.map(outcome => featureVector(features, outcome.score, outcome.factorScores, means));
+  const scales = features.map((_, j) => {
+    const variance = raw.reduce((sum, x) => sum + (x[j] - means[j]) ** 2, 0) / raw.length;
+    return Math.sqrt(variance) || 1;
+  });
+  const xs = raw.map(x => x.map((value, j) => (value - means[j]) / scales[j]));
+  const ys = outcomes.map(outcome => (outcome.churned ? 1 : 0));
+
+  const coefficients = features.map(() => 0);
+  let intercept = 0;
+  const n = outcomes.length;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const gradient = features.map(() => 0);
+    let interceptGradient = 0;
+
+    for (let i = 0; i < n; i++) {
+      const z = intercept + xs[i].reduce((sum, x, j) => sum + x * coefficients[j], 0);
+      const error = sigmoid(z) - ys[i];
+      interceptGradient += error;
+      for (let j = 0; j < features.length; j++) {
+        gradient[j] += error * xs[i][j];
+      }
+    }
+
+    intercept -= (learningRate * interceptGradient) / n;
+    for (let j = 0; j < features.length; j++) {
+      coefficients[j] -= learningRate * (gradient[j] / n + l2 * coefficients[j]);
+    }
+  }
+
+  return { method: 'logistic', features, means, scales, coefficients, intercept };
+}
+
+/**
+ * Fit isotonic regression with pool-adjacent-violators, constraining churn
+ * probability to be non-increasing in score
+ */
+function fitIsotonic(outcomes: ChurnOutcome[]): IsotonicCalibrationModel {
+  const sorted = [...outcomes].sort((a, b) => a.score - b.score);
+  const blocks: { scoreSum: number; churnSum: number; count: number }[] = [];
+
+  for (const outcome of sorted) {
+    blocks.push({ scoreSum: outcome.score, churnSum: outcome.churned ? 1 : 0, count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      const sameScore = previous.scoreSum / previous.count === last.scoreSum / last.count;
+      if (!sameScore && previous.churnSum / previous.count >= last.churnSum / last.count) break;
+      blocks.pop();
+      previous.scoreSum += last.scoreSum;
+      previous.churnSum += last.churnSum;
+      previous.count += last.count;
+    }
+  }
+
+  return {
+    method: 'isotonic',
+    scores: blocks.map(block => block.scoreSum / block.count),
+    probabilities: blocks.map(block => block.churnSum / block.count)
+  };
+}
+
+/**
+ * Fit a churn calibration model on historical outcomes
+ *
+ * Logistic calibration can use the overall score alone or add factor
+ * scores as features; factors missing from an outcome are imputed with the
+ * training mean. Isotonic calibration uses the overall score only and
+ * guarantees that a higher score never predicts a higher churn probability.
+ *
+ * @param outcomes - Historical outcomes
+ * @param options - Fitting options
+ * @returns Fitted model with in-sample metrics
+ * @throws {InvalidInputError} If there are fewer than two outcomes or only one class
+ *
+ * @example
+ * const { model, metrics } = fitChurnCalibration(outcomes, { method: 'isotonic' });
+ * // metrics.brierScore, metrics.reliability
+ */
+export function fitChurnCalibration(
+  outcomes: ChurnOutcome[],
+  options: ChurnCalibrationOptions = {}
+): ChurnCalibration {
+  const {
+    method = 'logistic',
+    useFactorScores = false,
+    iterations = 2000,
+    learningRate = 0.1,
+    l2 = 0.01,
+    bins = 10
+  } = options;
+
+  if (outcomes.length < 2) {
+    throw new InvalidInputError(`At least 2 outcomes are required, got ${outcomes.length}`);
+  }
+  const churnedCount = outcomes.filter(outcome => outcome.churned).length;
+  if (churnedCount === 0 || churnedCount === outcomes.length) {
+    throw new InvalidInputError('Outcomes must include both churned and retained customers');
+  }
+
+  const model = method === 'isotonic'
+    ? fitIsotonic(outcomes)
+    : fitLogistic(outcomes, useFactorScores, iterations, learningRate, l2);
+
+  return { model, metrics: evaluateChurnCalibration(model, outcomes, bins) };
+}
+
+// ============================================================================
+// Prediction and Evaluation
+// ============================================================================
+
+/**
+ * Churn probability for a score and optional factor scores
+ */
+function predict(
+  model: ChurnCalibrationModel,
+  score: number,
+  factorScores?: Partial<Record<HealthFactor, number>>
+): number {
+  if (model.method === 'isotonic') {
+    const { scores, probabilities } = model;
+    if (score <= scores[0]) return probabilities[0];
+    if (score >= scores[scores.length - 1]) return probabilities[probabilities.length - 1];
+    const upper = scores.findIndex(blockScore => blockScore >= score);
+    const t = (score - scores[upper - 1]) / (scores[upper] - scores[upper - 1]);
+    return probabilities[upper - 1] + t * (probabilities[upper] - probabilities[upper - 1]);
+  }
+
+  const x = featureVector(model.features, score, factorScores, model.means);
+  const z = x.reduce(
+    (sum, value, j) => sum + ((value - model.means[j]) / model.scales[j]) * model.coefficients[j],
+    model.intercept
+  );
+  return sigmoid(z);
+}
+
+/**
+ * Churn probability for a health score result
+ *
+ * @param model - Fitted calibration model
+ * @param result - Health score result
+ * @returns Probability of churn (0-1)
+ */
+export function predictChurnProbability(model: ChurnCalibrationModel, result: HealthScoreResult): number {
+  const factorScores: Partial<Record<HealthFactor, number>> = {};
+  for (const [factor, factorScore] of Object.entries(result.breakdown)) {
+    if (factorScore) factorScores[factor] = factorScore.score;
+  }
+  return predict(model, result.overallScore, factorScores);
+}
+
+/**
+ * Copy of a result with `churnProbability` set from the model
+ *
+ * @example
+ * const result = withChurnProbability(calculateHealthScore(customerData), model);
+ * // result.churnProbability === 0.42
+ */
+export function withChurnProbability(
+  result: HealthScoreResult,
+  model: ChurnCalibrationModel
+): HealthScoreResult {
+  return { ...result, churnProbability: predictChurnProbability(model, result) };
+}
+
+/**
+ * Measure how well a model's probabilities match observed outcomes
+ *
+ * Use held-out outcomes for an honest estimate; fitChurnCalibration
+ * reports the same metrics in-sample.
+ *
+ * @param model - Fitted calibration model
+ * @param outcomes - Outcomes to evaluate against
+ * @param bins - Number of equal-width probability bins for the reliability table
+ * @returns Calibration metrics
+ * @throws {InvalidInputError} If there are no outcomes
+ */
+export function evaluateChurnCalibration(
+  model: ChurnCalibrationModel,
+  outcomes: ChurnOutcome[],
+  bins = 10
+): CalibrationMetrics {
+  if (outcomes.length === 0) {
+    throw new InvalidInputError('At least 1 outcome is required to evaluate a calibration');
+  }
+  if (!Number.isInteger(bins) || bins < 1) {
+    throw new InvalidInputError(`bins must be a positive integer, got ${bins}`);
+  }
+
+  const table = Array.from({ length: bins }, () => ({ count: 0, predictedSum: 0, churnSum: 0 }));
+  let brierSum = 0;
+  let logLossSum = 0;
+  let churnedCount = 0;
+
+  for (const outcome of outcomes) {
+    const p = predict(model, outcome.score, outcome.factorScores);
+    const y = outcome.churned ? 1 : 0;
+    const clamped = clampProbability(p);
+
+    brierSum += (p - y) ** 2;
+    logLossSum -= y * Math.log(clamped) + (1 - y) * Math.log(1 - clamped);
+    churnedCount += y;
+
+    const bin = table[Math.min(bins - 1, Math.floor(p * bins))];
+    bin.count++;
+    bin.predictedSum += p;
+    bin.churnSum += y;
+  }
+
+  return {
+    sampleCount: outcomes.length,
+    baseRate: churnedCount / outcomes.length,
+    brierScore: brierSum / outcomes.length,
+    logLoss: logLossSum / outcomes.length,
+    reliability: table
+      .map((bin, i): ReliabilityBin => ({
+        min: i / bins,
+        max: (i + 1) / bins,
+        count: bin.count,
+        meanPredicted: bin.count > 0 ? bin.predictedSum / bin.count : 0,
+        observedRate: bin.count > 0 ? bin.churnSum / bin.count : 0
+      }))
+      .filter(bin => bin.count > 0)
+  };
+}
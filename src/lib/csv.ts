@@ -0,0 +1,133 @@
+/**
+ * CSV Parsing and Writing
+ *
+ * Minimal RFC 4180 style CSV reader shared by file-based inputs (churn
+ * outcomes, product event logs, customer imports), and the matching writer
+ * used by exports. Supports quoted fields with embedded commas, newlines
+ * and doubled quotes.
+ *
+ * @module csv
+ */
+
+/**
+ * A row of cells and where it starts in the source file
+ */
+export interface SourceRow {
+  /** 1-based line (CSV) or row number (XLSX) the row starts on */
+  rowNumber: number;
+  cells: string[];
+}
+
+/**
+ * Split CSV content into rows of raw cells
+ *
+ * A leading UTF-8 byte order mark (as written by Excel) is ignored, and
+ * rows whose cells are all blank are dropped. Each row keeps the line it
+ * starts on, so messages can point at the file even after dropped rows
+ * or quoted fields spanning several lines.
+ *
+ * @param text - CSV text
+ * @returns Rows of untrimmed cells
+ */
+export function parseCsvRows(text: string): SourceRow[] {
+  const content = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const rows: SourceRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n' || (char === '\r' && content[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ rowNumber: rowStart, cells: row });
+      row = [];
+      field = '';
+      rowStart = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push({ rowNumber: rowStart, cells: row });
+  }
+
+  return rows.filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Split CSV content into records keyed by the header row
+ *
+ * Cells are trimmed; cells missing from short rows become empty strings.
+ *
+ * @param content - CSV text with a header row
+ * @returns One record per data row
+ *
+ * @example
+ * parseCsvRecords('customerId,score\n1,85');
+ * // [{ customerId: '1', score: '85' }]
+ */
+export function parseCsvRecords(content: string): Record<string, string>[] {
+  const rows = parseCsvRows(content);
+  if (rows.length === 0) return [];
+
+  const headers = rows[0].cells.map(header => header.trim());
+  return rows.slice(1).map(({ cells }) =>
+    Object.fromEntries(headers.map((header, i) => [header, cells[i]?.trim() ?? '']))
+  );
+}
+
+/**
+ * Neutralize text a spreadsheet would otherwise evaluate as a formula
+ *
+ * Exports that carry user-supplied text (names, actors, reasons) pass it
+ * through here, so opening the file cannot run e.g. `=HYPERLINK(...)`.
+ *
+ * @param text - Cell text
+ * @returns The text, prefixed with an apostrophe if it starts with a formula character
+ *
+ * @example
+ * spreadsheetSafe('=HYPERLINK("http://example.com")');
+ * // '\'=HYPERLINK("http://example.com")'
+ */
+export function spreadsheetSafe(text: string | undefined): string | undefined {
+  return text !== undefined && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+/**
+ * Format one CSV line, quoting cells that contain commas, quotes or newlines
+ *
+ * Undefined and null cells are written as empty cells.
+ *
+ * @param cells - Cell values
+ * @returns The line, terminated with CRLF
+ *
+ * @example
+ * formatCsvRow(['1', 'Acme, Inc', 85]);
+ * // '1,"Acme, Inc",85\r\n'
+ */
+export function formatCsvRow(cells: (string | number | boolean | null | undefined)[]): string {
+  return cells.map(cell => {
+    const text = cell === null || cell === undefined ? '' : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',') + '\r\n';
+}
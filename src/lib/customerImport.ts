@@ -0,0 +1,672 @@
+/**
+ * Customer Import
+ *
+ * Imports customers and their health data from CSV or XLSX files. Columns
+ * are mapped to Customer and CustomerHealthData fields, every row is
+ * validated with the repository and calculator rules, and the resulting
+ * health scores are previewed before anything is written. Rows are upserted
+ * by id or email; invalid rows are rejected individually and reported with
+ * the column each issue came from.
+ *
+ * @module customerImport
+ */
+
+import type { Customer } from '@/data/mock-customers';
+import { parseCsvRows, type SourceRow } from '@/lib/csv';
+import {
+  validateCustomerFields,
+  type CustomerInput,
+  type CustomerRepository,
+  type CustomerUpdate,
+  type WriteOptions
+} from '@/lib/customerRepository';
+import {
+  calculateHealthScore,
+  healthFactors,
+  HEALTH_FACTORS,
+  InvalidInputError,
+  validateCustomerHealthData,
+  type HealthFactorRegistry,
+  type PartialCustomerHealthData,
+  type RiskLevel,
+  type ValidationIssue
+} from '@/lib/healthCalculator';
+import { throwIfIssues } from '@/lib/ingestion/records';
+import { readXlsxRows } from '@/lib/xlsx';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Supported file formats
+ */
+export type ImportFormat = 'csv' | 'xlsx';
+
+/**
+ * Header row and data rows of an uploaded file
+ */
+export interface ImportTable {
+  /** Column headers, made unique (a repeated 'email' becomes 'email (2)') */
+  headers: string[];
+  /** Data rows, aligned with headers, with the row number each came from in the file */
+  rows: SourceRow[];
+}
+
+/**
+ * A field a column can be mapped to
+ */
+export interface ImportField {
+  /** Field path: a Customer field (e.g., 'email') or a health data path (e.g., 'payment.overdueAmount') */
+  key: string;
+  label: string;
+  target: 'customer' | 'health';
+  /** How cell text is converted ('list' splits on commas or semicolons) */
+  type: 'string' | 'number' | 'boolean' | 'list';
+  /** Required when creating a customer (for health fields: whenever the factor is present) */
+  required: boolean;
+}
+
+/**
+ * Column header to field key; null or a missing header means the column is ignored
+ */
+export type ColumnMapping = Record<string, string | null>;
+
+/**
+ * A problem with one row, traced back to its column where possible
+ */
+export interface ImportIssue {
+  /** Column header the issue came from, if it maps to a single column */
+  column?: string;
+  /** Field path (e.g., 'support.satisfactionScore') */
+  field: string;
+  code: string;
+  message: string;
+}
+
+/**
+ * Score preview for a row with health data
+ */
+export interface ImportScorePreview {
+  overallScore: number;
+  riskLevel: RiskLevel;
+  confidence: number;
+  missingFactors: string[];
+}
+
+/**
+ * What an import would do with one row
+ */
+export interface ImportRowPlan {
+  /** Row number in the file (the line for CSV), counting the header row, as a spreadsheet shows it */
+  rowNumber: number;
+  action: 'create' | 'update' | 'reject';
+  /** How an existing customer was matched, for updates */
+  matchedBy?: 'id' | 'email';
+  /** Existing customer ID for updates; supplied ID for creates */
+  customerId?: string;
+  /** Customer fields from the row (only non-empty mapped cells) */
+  customer: CustomerUpdate & { id?: string };
+  /**
+   * Health data to store, when any health column had a value: the row's
+   * factors over the customer's stored ones for updates
+   */
+  healthData?: PartialCustomerHealthData;
+  score?: ImportScorePreview;
+  issues: ImportIssue[];
+}
+
+/**
+ * Counts of planned (or performed) actions
+ */
+export interface ImportSummary {
+  total: number;
+  create: number;
+  update: number;
+  reject: number;
+}
+
+/**
+ * Preview of an import, before anything is written
+ */
+export interface ImportPreview {
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: ImportRowPlan[];
+  summary: ImportSummary;
+}
+
+/**
+ * Outcome of writing one row
+ */
+export interface ImportRowResult {
+  rowNumber: number;
+  status: 'created' | 'updated' | 'rejected' | 'failed';
+  customerId?: string;
+  score?: ImportScorePreview;
+  /** Validation issues (rejected) or the write error (failed) */
+  issues: ImportIssue[];
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ImportReport {
+  rows: ImportRowResult[];
+  summary: { total: number; created: number; updated: number; rejected: number; failed: number };
+}
+
+/** Largest number of data rows accepted in one file */
+export const MAX_IMPORT_ROWS = 10000;
+
+/** Rows written per repository batch (persisted once) during an import */
+const IMPORT_WRITE_CHUNK = 500;
+
+const CUSTOMER_FIELDS: ImportField[] = [
+  { key: 'id', label: 'Customer ID', target: 'customer', type: 'string', required: false },
+  { key: 'name', label: 'Name', target: 'customer', type: 'string', required: true },
+  { key: 'company', label: 'Company', target: 'customer', type: 'string', required: true },
+  { key: 'email', label: 'Email', target: 'customer', type: 'string', required: false },
+  { key: 'healthScore', label: 'Health score', target: 'customer', type: 'number', required: false },
+  { key: 'subscriptionTier', label: 'Subscription tier', target: 'customer', type: 'string', required: false },
+  { key: 'domains', label: 'Domains', target: 'customer', type: 'list', required: false },
+  { key: 'parentId', label: 'Parent customer ID', target: 'customer', type: 'string', required: false }
+];
+
+// ============================================================================
+// File Parsing
+// ============================================================================
+
+/**
+ * Detect the format from a file name or content type
+ * @returns The format, or null if unsupported
+ */
+export function detectImportFormat(fileName: string, contentType = ''): ImportFormat | null {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.xlsx') || contentType.includes('spreadsheetml')) return 'xlsx';
+  if (lowerName.endsWith('.csv') || contentType.includes('csv')) return 'csv';
+  return null;
+}
+
+/**
+ * Split an uploaded file into headers and data rows
+ *
+ * @param content - File contents
+ * @param format - File format
+ * @param sheetName - Worksheet to read from an XLSX file (default: the first)
+ * @returns Table with unique headers and rows padded to the header width
+ * @throws {InvalidInputError} If the file is unreadable, has no header row or too many rows
+ */
+export function parseImportFile(content: Buffer, format: ImportFormat, sheetName?: string): ImportTable {
+  const rows = format === 'xlsx'
+    ? readXlsxRows(content, sheetName, MAX_IMPORT_ROWS + 1)
+    : parseCsvRows(content.toString('utf8'));
+  if (rows.length === 0) {
+    throw new InvalidInputError('The file is empty', [
+      { path: 'file', code: 'required', message: 'The file is empty', received: undefined }
+    ]);
+  }
+  if (rows.length - 1 > MAX_IMPORT_ROWS) {
+    const message = `The file has ${rows.length - 1} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`;
+    throw new InvalidInputError(message, [
+      { path: 'file', code: 'out_of_range', message, expected: { max: MAX_IMPORT_ROWS }, received: rows.length - 1 }
+    ]);
+  }
+
+  const seen = new Map<string, number>();
+  const headers = rows[0].cells.map((cell, index) => {
+    const header = cell.trim() || `Column ${index + 1}`;
+    const count = (seen.get(header) ?? 0) + 1;
+    seen.set(header, count);
+    return count === 1 ? header : `${header} (${count})`;
+  });
+
+  return {
+    headers,
+    rows: rows.slice(1).map(({ rowNumber, cells }) => ({
+      rowNumber,
+      cells: headers.map((_, index) => cells[index]?.trim() ?? '')
+    }))
+  };
+}
+
+// ============================================================================
+// Field Mapping
+// ============================================================================
+
+/**
+ * Fields columns can be mapped to: Customer fields, then every field of
+ * every registered factor
+ *
+ * Built-in factors map to their top-level key (e.g., 'payment.overdueAmount');
+ * custom factors map under `factors` (e.g., 'factors.nps.score').
+ *
+ * @param registry - Registry providing the factor fields
+ */
+export function listImportFields(registry: HealthFactorRegistry = healthFactors): ImportField[] {
+  const healthFields = registry.list().flatMap(definition => {
+    const prefix = (HEALTH_FACTORS as readonly string[]).includes(definition.key)
+      ? definition.key
+      : `factors.${definition.key}`;
+    return definition.schema.map((rule): ImportField => ({
+      key: `${prefix}.${rule.field}`,
+      label: `${definition.label}: ${rule.field}`,
+      target: 'health',
+      type: rule.type,
+      required: rule.required
+    }));
+  });
+  return [...CUSTOMER_FIELDS, ...healthFields];
+}
+
+/**
+ * Lower-case alphanumerics only, so 'Overdue Amount' matches 'overdueAmount'
+ */
+function normalizeHeader(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Guess a mapping from headers to fields
+ *
+ * A header matches a field by its full path ('payment.overdueAmount') or,
+ * when unambiguous, by its last segment ('Overdue amount'). Each field is
+ * mapped at most once.
+ *
+ * @param headers - Column headers
+ * @param fields - Candidate fields
+ * @returns Suggested mapping; unmatched headers map to null
+ */
+export function suggestColumnMapping(headers: string[], fields: ImportField[] = listImportFields()): ColumnMapping {
+  const byPath = new Map(fields.map(field => [normalizeHeader(field.key), field.key]));
+  const bySegment = new Map<string, string | null>();
+  for (const field of fields) {
+    const segment = normalizeHeader(field.key.split('.').pop()!);
+    bySegment.set(segment, bySegment.has(segment) ? null : field.key);
+  }
+  bySegment.set('customerid', 'id');
+
+  const used = new Set<string>();
+  return Object.fromEntries(headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const key = byPath.get(normalized) ?? bySegment.get(normalized) ?? null;
+    if (!key || used.has(key)) return [header, null];
+    used.add(key);
+    return [header, key];
+  }));
+}
+
+/**
+ * Check a mapping refers to known headers and fields, each field at most once
+ * @throws {InvalidInputError} With every mapping problem
+ */
+function validateMapping(mapping: ColumnMapping, headers: string[], fields: ImportField[]): void {
+  const issues: ValidationIssue[] = [];
+  const fieldKeys = new Set(fields.map(field => field.key));
+  const mappedBy = new Map<string, string>();
+
+  for (const [header, key] of Object.entries(mapping)) {
+    if (key === null || key === '') continue;
+    const path = `mapping.${header}`;
+    if (!headers.includes(header)) {
+      issues.push({ path, code: 'invalid_value', message: `Column ${header} is not in the file`, received: header });
+    } else if (!fieldKeys.has(key)) {
+      issues.push({ path, code: 'invalid_value', message: `Column ${header} maps to unknown field ${key}`, received: key });
+    } else if (mappedBy.has(key)) {
+      issues.push({
+        path,
+        code: 'invalid_value',
+        message: `Columns ${mappedBy.get(key)} and ${header} both map to ${key}`,
+        received: key
+      });
+    } else {
+      mappedBy.set(key, header);
+    }
+  }
+  throwIfIssues(issues);
+}
+
+// ============================================================================
+// Row Conversion
+// ============================================================================
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+/**
+ * Convert cell text to a field value
+ * @returns The value, or an issue message when the text does not fit the type
+ */
+function convertCell(text: string, field: ImportField): { value: unknown } | { error: string } {
+  switch (field.type) {
+    case 'number': {
+      const value = Number(text.replace(/,/g, ''));
+      return Number.isFinite(value) ? { value } : { error: `${field.key} must be a number, got '${text}'` };
+    }
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: true };
+      if (FALSE_VALUES.includes(lower)) return { value: false };
+      return { error: `${field.key} must be true or false, got '${text}'` };
+    }
+    case 'list':
+      return { value: text.split(/[;,]/).map(item => item.trim()).filter(item => item !== '') };
+    default:
+      return { value: text };
+  }
+}
+
+/**
+ * Set a dotted path on a nested object, creating intermediate objects
+ */
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const segments = path.split('.');
+  let node = target;
+  for (const segment of segments.slice(0, -1)) {
+    node[segment] ??= {};
+    node = node[segment] as Record<string, unknown>;
+  }
+  node[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Convert calculator/repository issues to row issues, attributing columns
+ */
+function toImportIssues(issues: ValidationIssue[], columnByField: Map<string, string>): ImportIssue[] {
+  return issues.map(issue => {
+    const column = columnByField.get(issue.path);
+    return {
+      ...(column !== undefined && { column }),
+      field: issue.path,
+      code: issue.code,
+      message: issue.message
+    };
+  });
+}
+
+// ============================================================================
+// Preview and Import
+// ============================================================================
+
+/**
+ * Plan an import without writing anything
+ *
+ * For each row: non-empty mapped cells are converted, customer fields are
+ * validated with the repository rules and health data with the calculator
+ * rules (factors without any values are treated as missing). Emails and
+ * domains are lower-cased, as in the customer API. Rows are
+ * matched to existing customers by id, then by email (case-insensitive);
+ * unmatched rows create customers. For updates, the row's health factors
+ * replace the stored ones factor by factor and the merged data is what gets
+ * validated, scored and stored. When the row has health data and no
+ * healthScore column value, the stored healthScore is set to the calculated
+ * score. A row that matches the same customer as an earlier row is
+ * rejected, so each customer is written once.
+ *
+ * @param table - Parsed file
+ * @param mapping - Column mapping
+ * @param existing - Customers currently stored
+ * @param fields - Mappable fields
+ * @param storedHealthData - Health data currently stored, by customer ID
+ * @returns Per-row plan with score previews and issues
+ * @throws {InvalidInputError} If the mapping is invalid
+ */
+export function previewImport(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  existing: Customer[],
+  fields: ImportField[] = listImportFields(),
+  storedHealthData: ReadonlyMap<string, PartialCustomerHealthData> = new Map()
+): ImportPreview {
+  validateMapping(mapping, table.headers, fields);
+
+  const fieldsByKey = new Map(fields.map(field => [field.key, field]));
+  const columns = table.headers
+    .map((header, index) => ({ header, index, field: mapping[header] ? fieldsByKey.get(mapping[header]!) : undefined }))
+    .filter((column): column is { header: string; index: number; field: ImportField } => column.field !== undefined);
+  const columnByField = new Map(columns.map(column => [column.field.key, column.header]));
+
+  const byId = new Map(existing.map(customer => [customer.id, customer]));
+  const byEmail = new Map(
+    existing.filter(customer => customer.email).map(customer => [customer.email!.toLowerCase(), customer])
+  );
+  const claimedBy = new Map<string, number>();
+
+  const rows = table.rows.map(({ rowNumber, cells }): ImportRowPlan => {
+    const issues: ImportIssue[] = [];
+    const customer: Record<string, unknown> = {};
+    const health: Record<string, unknown> = {};
+
+    for (const { header, index, field } of columns) {
+      const text = cells[index];
+      if (text === '') continue;
+      const converted = convertCell(text, field);
+      if ('error' in converted) {
+        issues.push({ column: header, field: field.key, code: 'invalid_type', message: converted.error });
+        continue;
+      }
+      setPath(field.target === 'customer' ? customer : health, field.key, converted.value);
+    }
+
+    const input = customer as CustomerUpdate & { id?: string };
+    if (typeof input.email === 'string') input.email = input.email.toLowerCase();
+    if (input.domains) input.domains = [...new Set(input.domains.map(domain => domain.toLowerCase()))];
+
+    const hasHealthData = Object.keys(health).length > 0;
+    if (Object.keys(customer).every(key => key === 'id') && !hasHealthData && issues.length === 0) {
+      issues.push({ field: '', code: 'required', message: 'Row has no values to import' });
+    }
+
+    // Match an existing customer by id, then email
+    const email = typeof input.email === 'string' ? input.email : undefined;
+    const matchedById = input.id !== undefined ? byId.get(input.id) : undefined;
+    const matchedByEmail = !matchedById && email ? byEmail.get(email) : undefined;
+    const match = matchedById ?? matchedByEmail;
+    const matchedBy = matchedById ? 'id' as const : matchedByEmail ? 'email' as const : undefined;
+
+    const claimKey = match ? `id:${match.id}` : input.id !== undefined ? `id:${input.id}` : email && `email:${email}`;
+    if (claimKey && claimedBy.has(claimKey)) {
+      issues.push({
+        field: match || input.id !== undefined ? 'id' : 'email',
+        code: 'duplicate',
+        message: `Row ${claimedBy.get(claimKey)} already imports this customer`
+      });
+    }
+
+    // Validate health data, then preview the score
+    let healthData: PartialCustomerHealthData | undefined;
+    let score: ImportScorePreview | undefined;
+    if (hasHealthData) {
+      const stored = match ? storedHealthData.get(match.id) : undefined;
+      const merged = stored ? { ...stored, ...health } : health;
+      const healthIssues = validateCustomerHealthData(merged, { allowPartialData: true });
+      issues.push(...toImportIssues(healthIssues, columnByField));
+      if (healthIssues.length === 0) {
+        healthData = merged as PartialCustomerHealthData;
+        try {
+          const result = calculateHealthScore(healthData, { allowPartialData: true });
+          score = {
+            overallScore: result.overallScore,
+            riskLevel: result.riskLevel,
+            confidence: result.confidence,
+            missingFactors: result.missingFactors
+          };
+          if (input.healthScore === undefined) {
+            input.healthScore = result.overallScore;
+          }
+        } catch (error) {
+          issues.push({
+            field: '',
+            code: 'calculation_failed',
+            message: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+    }
+
+    const { id, ...fieldsToValidate } = input;
+    issues.push(...toImportIssues(validateCustomerFields(fieldsToValidate, match !== undefined), columnByField));
+
+    const valid = issues.length === 0;
+    if (valid && claimKey) {
+      claimedBy.set(claimKey, rowNumber);
+    }
+    return {
+      rowNumber,
+      action: !valid ? 'reject' : match ? 'update' : 'create',
+      ...(matchedBy && { matchedBy }),
+      ...((match?.id ?? id) !== undefined && { customerId: match?.id ?? id }),
+      customer: input,
+      ...(healthData && { healthData }),
+      ...(score && { score }),
+      issues
+    };
+  });
+
+  return {
+    headers: table.headers,
+    mapping,
+    rows,
+    summary: {
+      total: rows.length,
+      create: rows.filter(row => row.action === 'create').length,
+      update: rows.filter(row => row.action === 'update').length,
+      reject: rows.filter(row => row.action === 'reject').length
+    }
+  };
+}
+
+/**
+ * Stored health data of the given customers, for previewImport
+ *
+ * @param repository - Customer store
+ * @param customers - Customers to read health data for
+ * @returns Health data by customer ID (customers without any are omitted)
+ */
+export async function readStoredHealthData(
+  repository: CustomerRepository,
+  customers: Customer[]
+): Promise<Map<string, PartialCustomerHealthData>> {
+  const stored = new Map<string, PartialCustomerHealthData>();
+  for (const customer of customers) {
+    const healthData = await repository.getHealthData(customer.id);
+    if (healthData) stored.set(customer.id, healthData);
+  }
+  return stored;
+}
+
+/**
+ * Let other work run between import chunks
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+/**
+ * Write one planned row, reporting a failed write instead of throwing
+ */
+async function writeImportRow(
+  plan: ImportRowPlan,
+  repository: CustomerRepository,
+  versions: Map<string, string | undefined>,
+  context: Pick<WriteOptions, 'actor' | 'reason'>
+): Promise<ImportRowResult> {
+  const base = { rowNumber: plan.rowNumber, ...(plan.score && { score: plan.score }) };
+  if (plan.action === 'reject') {
+    return { ...base, status: 'rejected', issues: plan.issues };
+  }
+
+  try {
+    const { id, ...changes } = plan.customer;
+    const audit = {
+      actor: context.actor ?? 'import',
+      reason: `${context.reason ?? 'Import'} (row ${plan.rowNumber})`
+    };
+    const customer = plan.action === 'update'
+      ? await repository.update(plan.customerId!, changes, {
+        ...audit,
+        expectedUpdatedAt: versions.get(plan.customerId!)
+      })
+      : await repository.create({ ...changes, ...(id !== undefined && { id }) } as CustomerInput, audit);
+
+    if (plan.healthData) {
+      await repository.setHealthData(customer.id, plan.healthData, audit);
+    }
+    return {
+      ...base,
+      status: plan.action === 'update' ? 'updated' : 'created',
+      customerId: customer.id,
+      issues: []
+    };
+  } catch (error) {
+    return {
+      ...base,
+      status: 'failed',
+      ...(plan.customerId !== undefined && { customerId: plan.customerId }),
+      issues: error instanceof InvalidInputError && error.issues.length > 0
+        ? error.issues.map(issue => ({ field: issue.path, code: issue.code, message: issue.message }))
+        : [{ field: '', code: 'write_failed', message: error instanceof Error ? error.message : 'Unknown error' }]
+    };
+  }
+}
+
+/**
+ * Validate and write an import, row by row
+ *
+ * Rows are planned with previewImport against the repository's current
+ * customers, then written in order. Rejected rows are skipped; a row whose
+ * write fails (e.g., the customer changed since it was read, or its parent
+ * account does not exist yet) is reported as failed without stopping the
+ * rest, so parent accounts must come before their children. Imported
+ * health data replaces the stored data factor by factor; factors absent
+ * from the row are kept. Every write carries the context's actor, and its
+ * reason suffixed with the row number, for audited repositories.
+ *
+ * Writes go through repository batches of IMPORT_WRITE_CHUNK rows, so a
+ * file-backed store is persisted once per batch rather than per write, and
+ * other requests get to run between batches.
+ *
+ * @param table - Parsed file
+ * @param mapping - Column mapping
+ * @param repository - Customer store to write to
+ * @param context - Actor and reason for the writes (default actor: 'import')
+ * @returns Per-row outcome and totals
+ * @throws {InvalidInputError} If the mapping is invalid
+ *
+ * @example
+ * const table = parseImportFile(buffer, 'csv');
+ * const report = await runImport(table, suggestColumnMapping(table.headers), getCustomerRepository());
+ */
+export async function runImport(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  repository: CustomerRepository,
+  context: Pick<WriteOptions, 'actor' | 'reason'> = {}
+): Promise<ImportReport> {
+  const existing = await repository.list();
+  const versions = new Map(existing.map(customer => [customer.id, customer.updatedAt]));
+  const preview = previewImport(table, mapping, existing, undefined, await readStoredHealthData(repository, existing));
+  const rows: ImportRowResult[] = [];
+
+  for (let start = 0; start < preview.rows.length; start += IMPORT_WRITE_CHUNK) {
+    if (start > 0) {
+      await yieldToEventLoop();
+    }
+    await repository.batch(async () => {
+      for (const plan of preview.rows.slice(start, start + IMPORT_WRITE_CHUNK)) {
+        rows.push(await writeImportRow(plan, repository, versions, context));
+      }
+    });
+  }
+
+  return {
+    rows,
+    summary: {
+      total: rows.length,
+      created: rows.filter(row => row.status === 'created').length,
+      updated: rows.filter(row => row.status === 'updated').length,
+      rejected: rows.filter(row => row.status === 'rejected').length,
+      failed: rows.filter(row => row.status === 'failed').length
+    }
+  };
+}
@@ -0,0 +1,692 @@
+/**
+ * Customer Repository
+ *
+ * Storage abstraction for customers and their health data. Pages, API
+ * routes and services read and write through `getCustomerRepository()`
+ * instead of importing the mock data modules, so the backing store can be
+ * swapped without touching callers.
+ *
+ * Two implementations are provided:
+ * - InMemoryCustomerRepository: process-local, seeded from the mocks
+ * - JsonFileCustomerRepository: the same, persisted to a JSON file so data
+ *   survives restarts (single process; writes are serialized and atomic)
+ *
+ * Updates use optimistic concurrency: pass the `updatedAt` you read as
+ * `expectedUpdatedAt` and the write fails with ConcurrencyError if the
+ * customer changed in the meantime.
+ *
+ * @module customerRepository
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { mockCustomers, type Customer, type SubscriptionTier } from '@/data/mock-customers';
+import { mockCustomerHealthData } from '@/data/mock-customer-health';
+import { validateParentAssignment } from '@/lib/accountHierarchy';
+import { AuditedCustomerRepository, getAuditLog } from '@/lib/auditLog';
+import {
+  hasWeightedFactor,
+  InvalidInputError,
+  validateCustomerHealthData,
+  type PartialCustomerHealthData,
+  type ValidationIssue
+} from '@/lib/healthCalculator';
+import { throwIfIssues } from '@/lib/ingestion/records';
+import type { CustomerScoreWriter, HealthScoreUpdate } from '@/lib/scoreReconciliation';
+import { generateSyntheticDataset, MAX_SYNTHETIC_CUSTOMERS } from '@/lib/syntheticData';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Fields for a new customer; the ID is generated when omitted
+ */
+export type CustomerInput = Omit<Customer, 'id' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+/**
+ * Editable customer fields; a null parentId detaches the customer from its parent
+ */
+export type CustomerUpdate = Partial<Omit<Customer, 'id' | 'createdAt' | 'updatedAt' | 'parentId'>> & {
+  parentId?: string | null;
+};
+
+/**
+ * Options for writes
+ */
+export interface WriteOptions {
+  /** updatedAt the caller last read; the write fails if the stored value differs (existing customers only) */
+  expectedUpdatedAt?: string;
+  /** Who made the change; recorded by audited repositories (see AuditedCustomerRepository) */
+  actor?: string;
+  /** Why the change was made; recorded by audited repositories */
+  reason?: string;
+}
+
+/**
+ * Initial contents of a repository
+ */
+export interface CustomerRepositorySeed {
+  customers: Customer[];
+  /** Health data keyed by customer ID */
+  healthData: Record<string, PartialCustomerHealthData>;
+}
+
+/**
+ * Storage for customers and their health data
+ *
+ * All methods return copies; mutating a returned object does not change
+ * the stored customer.
+ */
+export interface CustomerRepository extends CustomerScoreWriter {
+  /** All customers, in insertion order */
+  list(): Promise<Customer[]>;
+  /** A customer, or undefined if not found */
+  get(id: string): Promise<Customer | undefined>;
+  /**
+   * Add a customer, stamping createdAt and updatedAt
+   * @throws {InvalidInputError} If a field is invalid, the ID is taken or the parent does not exist
+   */
+  create(input: CustomerInput, options?: WriteOptions): Promise<Customer>;
+  /**
+   * Apply changes and stamp a new updatedAt
+   * @throws {CustomerNotFoundError} If the customer does not exist
+   * @throws {ConcurrencyError} If expectedUpdatedAt is stale
+   * @throws {InvalidInputError} If a field is invalid or the new parent would create a cycle
+   */
+  update(id: string, changes: CustomerUpdate, options?: WriteOptions): Promise<Customer>;
+  /**
+   * Remove a customer and its health data
+   * @throws {CustomerNotFoundError} If the customer does not exist
+   * @throws {ConcurrencyError} If expectedUpdatedAt is stale
+   * @throws {InvalidInputError} If other customers have it as their parent
+   */
+  delete(id: string, options?: WriteOptions): Promise<void>;
+  /** A customer's health data, or undefined if none is stored */
+  getHealthData(id: string): Promise<PartialCustomerHealthData | undefined>;
+  /**
+   * Store a customer's health data (factors may be missing, but at least one weighted factor is required)
+   * @throws {CustomerNotFoundError} If the customer does not exist
+   * @throws {InvalidInputError} If the data fails validation
+   */
+  setHealthData(id: string, data: PartialCustomerHealthData, options?: WriteOptions): Promise<void>;
+  /**
+   * Run a group of writes, persisting once when the group settles instead
+   * of after every write. Writes apply (and are visible to reads)
+   * immediately; writes that succeeded are persisted even if `work` throws.
+   * @returns What `work` resolves to
+   */
+  batch<T>(work: () => Promise<T>): Promise<T>;
+  /**
+   * Run a group of writes that are kept or undone together: if `work`
+   * throws, or the store then fails to persist, every write in the group is
+   * rolled back and nothing is persisted. Writes are visible to reads while
+   * the group runs; a transaction inside another one (or inside a batch)
+   * joins it. Meant to be run one at a time, as AuditedCustomerRepository does.
+   * @returns What `work` resolves to
+   */
+  transaction<T>(work: () => Promise<T>): Promise<T>;
+}
+
+// ============================================================================
+// Custom Error Classes
+// ============================================================================
+
+/**
+ * Error thrown when a customer does not exist
+ */
+export class CustomerNotFoundError extends Error {
+  readonly customerId: string;
+
+  constructor(customerId: string) {
+    super(`Customer ${customerId} not found`);
+    this.name = 'CustomerNotFoundError';
+    this.customerId = customerId;
+    Object.setPrototypeOf(this, CustomerNotFoundError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a write is based on an outdated read
+ */
+export class ConcurrencyError extends Error {
+  readonly customerId: string;
+  /** updatedAt currently stored */
+  readonly currentUpdatedAt: string | undefined;
+
+  constructor(customerId: string, expectedUpdatedAt: string, currentUpdatedAt: string | undefined) {
+    super(
+      `Customer ${customerId} was modified since ${expectedUpdatedAt} (now ${currentUpdatedAt ?? 'unversioned'})`
+    );
+    this.name = 'ConcurrencyError';
+    this.customerId = customerId;
+    this.currentUpdatedAt = currentUpdatedAt;
+    Object.setPrototypeOf(this, ConcurrencyError.prototype);
+  }
+}
+
+// ============================================================================
+// Validation Utilities
+// ============================================================================
+
+const SUBSCRIPTION_TIERS: SubscriptionTier[] = ['basic', 'premium', 'enterprise'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Validate customer fields, collecting every issue
+ *
+ * @param input - Fields to validate (typically untrusted input)
+ * @param partial - Skip required-field checks, as for updates
+ * @returns All validation issues; empty when the fields are valid
+ */
+export function validateCustomerFields(input: CustomerUpdate, partial = false): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const field of ['name', 'company'] as const) {
+    const value = input[field];
+    if (value === undefined && partial) continue;
+    if (typeof value !== 'string' || value.trim() === '') {
+      issues.push({
+        path: field,
+        code: value === undefined ? 'required' : 'invalid_value',
+        message: `${field} must be a non-empty string`,
+        expected: { type: 'string' },
+        received: value
+      });
+    }
+  }
+
+  const { healthScore } = input;
+  if (healthScore !== undefined || !partial) {
+    if (typeof healthScore !== 'number' || !Number.isInteger(healthScore) || healthScore < 0 || healthScore > 100) {
+      issues.push({
+        path: 'healthScore',
+        code: healthScore === undefined ? 'required' : 'out_of_range',
+        message: 'healthScore must be an integer between 0 and 100',
+        expected: { type: 'number', min: 0, max: 100 },
+        received: healthScore
+      });
+    }
+  }
+
+  if (input.email !== undefined && (typeof input.email !== 'string' || !EMAIL_PATTERN.test(input.email))) {
+    issues.push({
+      path: 'email',
+      code: 'invalid_value',
+      message: 'email must be an email address',
+      received: input.email
+    });
+  }
+  if (input.subscriptionTier !== undefined && !SUBSCRIPTION_TIERS.includes(input.subscriptionTier)) {
+    issues.push({
+      path: 'subscriptionTier',
+      code: 'invalid_value',
+      message: `subscriptionTier must be one of ${SUBSCRIPTION_TIERS.join(', ')}`,
+      received: input.subscriptionTier
+    });
+  }
+  if (
+    input.domains !== undefined &&
+    (!Array.isArray(input.domains) || input.domains.some(domain => typeof domain !== 'string'))
+  ) {
+    issues.push({
+      path: 'domains',
+      code: 'invalid_type',
+      message: 'domains must be an array of strings',
+      expected: { type: 'object' },
+      received: input.domains
+    });
+  }
+  if (
+    input.parentId !== undefined &&
+    !(input.parentId === null && partial) &&
+    (typeof input.parentId !== 'string' || input.parentId.trim() === '')
+  ) {
+    issues.push({
+      path: 'parentId',
+      code: 'invalid_type',
+      message: partial ? 'parentId must be a non-empty string or null' : 'parentId must be a non-empty string',
+      expected: { type: 'string' },
+      received: input.parentId
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Copy only the editable customer fields, dropping unknown keys
+ */
+function pickCustomerFields(input: CustomerUpdate): CustomerUpdate {
+  const fields: (keyof CustomerUpdate)[] = [
+    'name', 'company', 'healthScore', 'email', 'subscriptionTier', 'domains', 'parentId'
+  ];
+  return Object.fromEntries(
+    fields.filter(field => input[field] !== undefined).map(field => [field, input[field]])
+  ) as CustomerUpdate;
+}
+
+/**
+ * ISO timestamp for a write, strictly later than the previous updatedAt
+ *
+ * Two writes within the same millisecond must still produce different
+ * versions, or a stale expectedUpdatedAt could pass the concurrency check.
+ */
+function nextTimestamp(previous?: string, at: Date = new Date()): string {
+  const previousTime = previous ? Date.parse(previous) : NaN;
+  const time = Number.isNaN(previousTime) ? at.getTime() : Math.max(at.getTime(), previousTime + 1);
+  return new Date(time).toISOString();
+}
+
+// ============================================================================
+// In-Memory Repository
+// ============================================================================
+
+/**
+ * Process-local repository; contents are lost on restart
+ *
+ * @example
+ * const repository = new InMemoryCustomerRepository(createMockSeed());
+ * const customer = await repository.get('1');
+ * await repository.update('1', { healthScore: 90 }, { expectedUpdatedAt: customer!.updatedAt });
+ */
+export class InMemoryCustomerRepository implements CustomerRepository {
+  protected readonly customers = new Map<string, Customer>();
+  protected readonly healthData = new Map<string, PartialCustomerHealthData>();
+  private batchDepth = 0;
+  private batchDirty = false;
+  /** Undo steps of the writes in the open transaction, in the order they were made */
+  private undoSteps: (() => void)[] | null = null;
+
+  constructor(seed: CustomerRepositorySeed = { customers: [], healthData: {} }) {
+    this.load(seed);
+  }
+
+  async list(): Promise<Customer[]> {
+    await this.ready();
+    return [...this.customers.values()].map(customer => structuredClone(customer));
+  }
+
+  async get(id: string): Promise<Customer | undefined> {
+    await this.ready();
+    const customer = this.customers.get(id);
+    return customer ? structuredClone(customer) : undefined;
+  }
+
+  async create(input: CustomerInput): Promise<Customer> {
+    await this.ready();
+    const issues = validateCustomerFields(input, false);
+    if (input.id !== undefined && (typeof input.id !== 'string' || input.id.trim() === '')) {
+      issues.push({ path: 'id', code: 'invalid_value', message: 'id must be a non-empty string', received: input.id });
+    } else if (input.id !== undefined && this.customers.has(input.id)) {
+      issues.push({ path: 'id', code: 'invalid_value', message: `id ${input.id} already exists`, received: input.id });
+    }
+    if (issues.length === 0 && input.parentId !== undefined) {
+      issues.push(...validateParentAssignment(input.id, input.parentId, this.customers));
+    }
+    throwIfIssues(issues);
+
+    const now = nextTimestamp();
+    const customer: Customer = {
+      id: input.id ?? randomUUID(),
+      ...pickCustomerFields(input),
+      createdAt: now,
+      updatedAt: now
+    } as Customer;
+    this.customers.set(customer.id, customer);
+    await this.saved(() => this.customers.delete(customer.id));
+    return structuredClone(customer);
+  }
+
+  async update(id: string, changes: CustomerUpdate, options: WriteOptions = {}): Promise<Customer> {
+    await this.ready();
+    return this.applyUpdate(id, changes, options.expectedUpdatedAt, new Date());
+  }
+
+  async delete(id: string, options: WriteOptions = {}): Promise<void> {
+    await this.ready();
+    this.requireCurrent(id, options.expectedUpdatedAt);
+    const children = [...this.customers.values()].filter(customer => customer.parentId === id);
+    if (children.length > 0) {
+      const message = `Customer ${id} has ${children.length} child account(s); reassign or delete them first`;
+      throw new InvalidInputError(message, [{
+        path: 'id',
+        code: 'invalid_value',
+        message,
+        received: children.map(child => child.id)
+      }]);
+    }
+    const customers = [...this.customers];
+    const healthData = [...this.healthData];
+    this.customers.delete(id);
+    this.healthData.delete(id);
+    await this.saved(() => {
+      // Rebuilt rather than re-inserted, so the customer keeps its place in insertion order
+      this.customers.clear();
+      customers.forEach(([customerId, customer]) => this.customers.set(customerId, customer));
+      this.healthData.clear();
+      healthData.forEach(([customerId, data]) => this.healthData.set(customerId, data));
+    });
+  }
+
+  async getHealthData(id: string): Promise<PartialCustomerHealthData | undefined> {
+    await this.ready();
+    const data = this.healthData.get(id);
+    return data ? structuredClone(data) : undefined;
+  }
+
+  async setHealthData(id: string, data: PartialCustomerHealthData): Promise<void> {
+    await this.ready();
+    this.requireCurrent(id);
+    const stored = { ...structuredClone(data), customerId: id };
+    const issues = validateCustomerHealthData(stored, { allowPartialData: true });
+    if (issues.length === 0 && !hasWeightedFactor(stored)) {
+      const message = 'Health data must include at least one weighted factor';
+      issues.push({ path: '', code: 'required', message, received: data });
+    }
+    throwIfIssues(issues);
+    const previous = this.healthData.get(id);
+    this.healthData.set(id, stored);
+    await this.saved(() => (previous ? this.healthData.set(id, previous) : this.healthData.delete(id)));
+  }
+
+  /**
+   * Write back a reconciled score (see writeBackHealthScores)
+   * @throws {CustomerNotFoundError} If the customer does not exist
+   * @throws {ConcurrencyError} If the customer changed since it was reconciled
+   */
+  async updateHealthScore(update: HealthScoreUpdate): Promise<void> {
+    await this.ready();
+    const at = new Date(update.updatedAt);
+    if (Number.isNaN(at.getTime())) {
+      throw new InvalidInputError(`updatedAt must be a valid timestamp, got ${update.updatedAt}`);
+    }
+    await this.applyUpdate(update.customerId, { healthScore: update.healthScore }, update.expectedUpdatedAt, at);
+  }
+
+  async batch<T>(work: () => Promise<T>): Promise<T> {
+    await this.ready();
+    this.batchDepth++;
+    try {
+      return await work();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0 && this.batchDirty) {
+        this.batchDirty = false;
+        await this.persist();
+      }
+    }
+  }
+
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    await this.ready();
+    if (this.undoSteps) {
+      return work();
+    }
+
+    const undoSteps: (() => void)[] = [];
+    const undoAll = () => undoSteps.reverse().forEach(undo => undo());
+    this.undoSteps = undoSteps;
+    let result: T;
+    try {
+      result = await work();
+    } catch (error) {
+      undoAll();
+      throw error;
+    } finally {
+      this.undoSteps = null;
+    }
+    if (undoSteps.length > 0) {
+      await this.saved(undoAll);
+    }
+    return result;
+  }
+
+  /**
+   * Resolves once stored data is available; subclasses load lazily here
+   */
+  protected async ready(): Promise<void> {}
+
+  /**
+   * Called after every mutation, or once at the end of a batch; subclasses persist here
+   */
+  protected async persist(): Promise<void> {}
+
+  /**
+   * Replace the contents with a seed
+   */
+  protected load(seed: CustomerRepositorySeed): void {
+    this.customers.clear();
+    this.healthData.clear();
+    for (const customer of seed.customers) {
+      this.customers.set(customer.id, structuredClone(customer));
+    }
+    for (const [id, data] of Object.entries(seed.healthData)) {
+      this.healthData.set(id, { ...structuredClone(data), customerId: id });
+    }
+  }
+
+  /**
+   * Current contents as a seed
+   */
+  protected snapshot(): CustomerRepositorySeed {
+    return {
+      customers: [...this.customers.values()],
+      healthData: Object.fromEntries(this.healthData)
+    };
+  }
+
+  /**
+   * Persist after a mutation, or defer to the end of the current
+   * transaction or batch
+   *
+   * @param undo - Reverts the mutation in memory; run if the transaction
+   *   is rolled back or persisting fails, so memory never runs ahead of the store
+   */
+  private async saved(undo: () => void): Promise<void> {
+    if (this.undoSteps) {
+      this.undoSteps.push(undo);
+      return;
+    }
+    if (this.batchDepth > 0) {
+      this.batchDirty = true;
+      return;
+    }
+    try {
+      await this.persist();
+    } catch (error) {
+      undo();
+      throw error;
+    }
+  }
+
+  private async applyUpdate(
+    id: string,
+    changes: CustomerUpdate,
+    expectedUpdatedAt: string | undefined,
+    at: Date
+  ): Promise<Customer> {
+    const current = this.requireCurrent(id, expectedUpdatedAt);
+    const issues = validateCustomerFields(changes, true);
+    if (issues.length === 0 && typeof changes.parentId === 'string') {
+      issues.push(...validateParentAssignment(id, changes.parentId, this.customers));
+    }
+    throwIfIssues(issues);
+
+    const { parentId, ...fields } = pickCustomerFields(changes);
+    const updated: Customer = {
+      ...current,
+      ...fields,
+      ...(typeof parentId === 'string' && { parentId }),
+      updatedAt: nextTimestamp(current.updatedAt, at)
+    };
+    if (parentId === null) {
+      delete updated.parentId;
+    }
+    this.customers.set(id, updated);
+    await this.saved(() => this.customers.set(id, current));
+    return structuredClone(updated);
+  }
+
+  /**
+   * The stored customer, checked against the caller's expected version
+   * @throws {CustomerNotFoundError} If the customer does not exist
+   * @throws {ConcurrencyError} If expectedUpdatedAt is given and stale
+   */
+  private requireCurrent(id: string, expectedUpdatedAt?: string): Customer {
+    const current = this.customers.get(id);
+    if (!current) {
+      throw new CustomerNotFoundError(id);
+    }
+    if (expectedUpdatedAt !== undefined && expectedUpdatedAt !== current.updatedAt) {
+      throw new ConcurrencyError(id, expectedUpdatedAt, current.updatedAt);
+    }
+    return current;
+  }
+}
+
+// ============================================================================
+// JSON File Repository
+// ============================================================================
+
+/**
+ * Repository persisted to a JSON file
+ *
+ * The file is read on first access; if it does not exist it is created
+ * from the seed (a seed function is only called then). Every mutation rewrites the file via a temporary file and
+ * rename, so a crash never leaves it half-written. Intended for a single
+ * server process: concurrent processes would overwrite each other.
+ *
+ * @example
+ * const repository = new JsonFileCustomerRepository('.data/customers.json', createMockSeed());
+ * await repository.create({ name: 'Ana Lima', company: 'Lima Freight', healthScore: 70 });
+ */
+export class JsonFileCustomerRepository extends InMemoryCustomerRepository {
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly seed: CustomerRepositorySeed | (() => CustomerRepositorySeed) = { customers: [], healthData: {} }
+  ) {
+    super();
+  }
+
+  protected ready(): Promise<void> {
+    this.loading ??= this.readFromDisk().catch(error => {
+      // Retry on the next access instead of failing every later one with the same error
+      this.loading = null;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  protected persist(): Promise<void> {
+    const content = JSON.stringify(this.snapshot(), null, 2);
+    this.writing = this.writing.catch(() => undefined).then(() => this.writeToDisk(content));
+    return this.writing;
+  }
+
+  private async readFromDisk(): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.load(typeof this.seed === 'function' ? this.seed() : this.seed);
+      await this.persist();
+      return;
+    }
+
+    let parsed: Partial<CustomerRepositorySeed>;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error(
+        `${this.filePath} is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    if (!Array.isArray(parsed.customers)) {
+      throw new Error(`${this.filePath} must contain a customers array`);
+    }
+    this.load({ customers: parsed.customers, healthData: parsed.healthData ?? {} });
+  }
+
+  private async writeToDisk(content: string): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, content, 'utf8');
+    await rename(tempPath, this.filePath);
+  }
+}
+
+// ============================================================================
+// Shared Repository
+// ============================================================================
+
+/** Default location of the JSON data file, relative to the working directory */
+export const DEFAULT_CUSTOMER_DATA_FILE = path.join('.data', 'customers.json');
+
+/**
+ * Seed built from the mock customers and health data
+ */
+export function createMockSeed(): CustomerRepositorySeed {
+  return structuredClone({ customers: mockCustomers, healthData: mockCustomerHealthData });
+}
+
+/**
+ * Seed for the shared repository: the mocks, plus SYNTHETIC_CUSTOMERS
+ * generated customers (seeded by SYNTHETIC_SEED, default 1) when set
+ * @throws {Error} If SYNTHETIC_CUSTOMERS is not a whole number within MAX_SYNTHETIC_CUSTOMERS
+ */
+function createDefaultSeed(): CustomerRepositorySeed {
+  const seed = createMockSeed();
+  const raw = process.env.SYNTHETIC_CUSTOMERS?.trim();
+  if (!raw) return seed;
+
+  const count = Number(raw);
+  if (!/^\d+$/.test(raw) || count > MAX_SYNTHETIC_CUSTOMERS) {
+    throw new Error(`SYNTHETIC_CUSTOMERS must be a whole number from 0 to ${MAX_SYNTHETIC_CUSTOMERS}, got '${raw}'`);
+  }
+  const synthetic = generateSyntheticDataset({ count, seed: process.env.SYNTHETIC_SEED ?? 1 });
+  return {
+    customers: [...seed.customers, ...synthetic.customers],
+    healthData: { ...seed.healthData, ...synthetic.healthData }
+  };
+}
+
+let sharedRepository: CustomerRepository | null = null;
+
+/**
+ * Repository shared by pages and API routes
+ *
+ * Backed by a JSON file at CUSTOMER_DATA_FILE (default .data/customers.json),
+ * seeded from the mocks on first run. Set CUSTOMER_REPOSITORY=memory to use
+ * a non-persistent in-memory store instead. Set SYNTHETIC_CUSTOMERS (and
+ * optionally SYNTHETIC_SEED) to add a generated dataset to the seed, e.g.
+ * for load testing; with the JSON store the seed is only generated when the
+ * file does not exist yet. Every write is recorded in the shared audit log (see getAuditLog).
+ *
+ * @returns The process-wide repository
+ */
+export function getCustomerRepository(): CustomerRepository {
+  if (!sharedRepository) {
+    const store = process.env.CUSTOMER_REPOSITORY === 'memory'
+      ? new InMemoryCustomerRepository(createDefaultSeed())
+      : new JsonFileCustomerRepository(
+        path.resolve(process.env.CUSTOMER_DATA_FILE ?? DEFAULT_CUSTOMER_DATA_FILE),
+        createDefaultSeed
+      );
+    sharedRepository = new AuditedCustomerRepository(store, getAuditLog());
+  }
+  return sharedRepository;
+}
+
+/**
+ * Replace the shared repository (e.g., with another backing store); null restores the default
+ */
+export function setCustomerRepository(repository: CustomerRepository | null): void {
+  sharedRepository = repository;
+}
@@ -80,10 +80,78 @@ export interface CustomerHealthData {
   contract: ContractInfo;
   /** Support interaction data */
   support: SupportData;
+  /** Inputs for additional registered factors, keyed by factor (e.g., { nps: { score: 42 } }) */
+  factors?: Record<string, unknown>;
   /** Optional customer ID for logging and debugging */
   customerId?: string;
 }
 
+/**
+ * Sub-component of a factor score (e.g., overdue amount within payment)
+ *
+ * Weighted components are averaged into the factor's base score; bonus
+ * components are added on top of it (capped at 100).
+ */
+export interface FactorComponent {
+  /** Input field the component is derived from (e.g., 'overdueAmount') */
+  key: string;
+  /** Human-readable component name */
+  label: string;
+  /** How the component contributes to the factor score */
+  kind: 'weighted' | 'bonus';
+  /** Input value the component was computed from */
+  value: number | boolean;
+  /** Component score (0-100); for bonuses, the share of the maximum bonus earned */
+  score: number;
+  /** Weight within the factor as decimal; 0 for bonuses */
+  weight: number;
+  /** Factor points this component added */
+  pointsAdded: number;
+  /** Factor points this component cost relative to its best possible value */
+  pointsLost: number;
+  /** Description of the input, used to build reasons (e.g., 'Overdue balance of $8,500') */
+  description: string;
+}
+
+/**
+ * Customer health data where whole factors may be unknown
+ *
+ * Used with `allowPartialData` to score accounts that lack, for example,
+ * support or billing data.
+ */
+export type PartialCustomerHealthData =
+  Omit<CustomerHealthData, 'payment' | 'engagement' | 'contract' | 'support'> &
+  Partial<Pick<CustomerHealthData, 'payment' | 'engagement' | 'contract' | 'support'>>;
+
+/**
+ * Options for a single health score calculation
+ */
+export interface HealthScoreOptions {
+  /**
+   * Score whatever factors are present instead of failing on missing ones.
+   * The weight of missing factors is redistributed proportionally.
+   */
+  allowPartialData?: boolean;
+  /** The customer's previous result; riskLevelSince carries over while the level is unchanged */
+  previousResult?: PreviousRiskLevel;
+  /**
+   * Debounce riskLevel against previousResult so a score hovering around a
+   * band boundary does not flip levels on every recalculation. Omitted
+   * settings use DEFAULT_RISK_HYSTERESIS.
+   */
+  hysteresis?: Partial<RiskHysteresis>;
+}
+
+/**
+ * Hysteresis settings for risk-level transitions
+ */
+export interface RiskHysteresis {
+  /** Whole points a score must clear a band boundary by before the level changes */
+  margin: number;
+  /** Days the previous level must have been held before it may change */
+  minDwellDays: number;
+}
+
 /**
  * Individual factor score with weighting information
  */
@@ -94,6 +162,10 @@ export interface FactorScore {
   weight: number;
   /** Weighted contribution to overall score (score * weight) */
   weightedScore: number;
+  /** Sub-components that make up the factor score */
+  components: FactorComponent[];
+  /** Human-readable explanations, largest impact first (e.g., 'Overdue balance of $8,500 cost 30 points') */
+  reasons: string[];
 }
 
 /**
@@ -101,27 +173,263 @@ export interface FactorScore {
  */
 export type RiskLevel = 'healthy' | 'warning' | 'critical';
 
+/**
+ * Identifier of a built-in scoring factor
+ */
+export type BuiltInHealthFactor = 'payment' | 'engagement' | 'contract' | 'support';
+
+/**
+ * Identifier of a registered scoring factor (a built-in or a custom one, e.g., 'nps')
+ */
+export type HealthFactor = string;
+
+/**
+ * Factor scores keyed by factor (factors without data are omitted)
+ */
+export type FactorBreakdown = Partial<Record<HealthFactor, FactorScore>>;
+
+/**
+ * Inclusive overall-score range (0-100) mapped to a risk level
+ */
+export interface RiskBand {
+  /** Lowest score in the band (inclusive) */
+  min: number;
+  /** Highest score in the band (inclusive) */
+  max: number;
+}
+
+/**
+ * Normalization caps for payment scoring
+ */
+export interface PaymentNormalization {
+  /** Days since last payment at which the component scores 0 */
+  maxDaysSinceLastPayment: number;
+  /** Average payment delay (days) at which the component scores 0 */
+  maxAveragePaymentDelay: number;
+  /** Overdue amount (dollars) at which the component scores 0 */
+  maxOverdueAmount: number;
+}
+
+/**
+ * Normalization caps for engagement scoring
+ */
+export interface EngagementNormalization {
+  /** Logins per month that earn a full login score */
+  maxLoginsPerMonth: number;
+  /** Feature count that earns a full feature usage score */
+  maxFeatureUsageCount: number;
+  /** Tickets per month that are still considered normal */
+  acceptableSupportTickets: number;
+  /** Tickets per month above which the ticket score becomes concerning */
+  elevatedSupportTickets: number;
+  /** Tickets per month at which the ticket score reaches 0 */
+  maxSupportTickets: number;
+  /** Active users that earn the full active user bonus */
+  maxActiveUserCount: number;
+}
+
+/**
+ * Normalization caps for contract scoring
+ */
+export interface ContractNormalization {
+  /** Days until renewal below which the renewal is urgent */
+  urgentRenewalDays: number;
+  /** Days until renewal from which the renewal is considered stable */
+  stableRenewalDays: number;
+  /** Days until renewal that earn a full renewal score */
+  maxRenewalDays: number;
+  /** Annual contract value (dollars) that earns a full value score */
+  maxContractValue: number;
+}
+
+/**
+ * Normalization caps for support scoring
+ */
+export interface SupportNormalization {
+  /** Average resolution time (hours) at which the component scores 0 */
+  maxResolutionTimeHours: number;
+  /** Escalation count at which the component scores 0 */
+  maxEscalationCount: number;
+  /** Open ticket count at which the component scores 0 */
+  maxOpenTicketCount: number;
+}
+
+/**
+ * Per-factor normalization caps
+ */
+export interface NormalizationProfile {
+  payment: PaymentNormalization;
+  engagement: EngagementNormalization;
+  contract: ContractNormalization;
+  support: SupportNormalization;
+}
+
+/**
+ * Complete scoring model: factor weights, risk bands and normalization caps
+ */
+export interface ScoringProfile {
+  /** Human-readable profile name (e.g., 'default', 'product-led') */
+  name: string;
+  /** Profile revision; bump whenever weights, bands or caps change */
+  version: string;
+  /** Weights of the registered factors this profile scores, as decimals; must sum to 1.0 */
+  weights: Record<HealthFactor, number>;
+  /** Non-overlapping score bands covering 0-100 */
+  riskBands: Record<RiskLevel, RiskBand>;
+  /** Normalization caps used by the individual factor calculations */
+  normalization: NormalizationProfile;
+}
+
 /**
  * Complete health score calculation result
  */
 export interface HealthScoreResult {
   /** Overall health score (0-100) */
   overallScore: number;
-  /** Risk level classification */
+  /** Risk level classification (debounced when calculated with hysteresis) */
   riskLevel: RiskLevel;
-  /** Detailed breakdown of individual factor scores */
-  breakdown: {
-    payment: FactorScore;
-    engagement: FactorScore;
-    contract: FactorScore;
-    support: FactorScore;
-  };
+  /** When the customer entered riskLevel */
+  riskLevelSince: Date;
+  /** Level the score's band maps to, set when hysteresis kept riskLevel short of it */
+  bandRiskLevel?: RiskLevel;
+  /** Detailed breakdown of individual factor scores (missing factors are omitted) */
+  breakdown: FactorBreakdown;
+  /** Share of the profile's total weight backed by data (0-1); 1 when all factors are present */
+  confidence: number;
+  /** Factors that had no data and were excluded from the score */
+  missingFactors: HealthFactor[];
+  /** Calibrated probability of churn (0-1), set by applying a churn calibration model */
+  churnProbability?: number;
+  /** Algorithm and profile that produced the result */
+  version: ScoreVersion;
+  /** Stable hash of the input data (see hashHealthInput) */
+  inputHash: string;
   /** Timestamp when calculation was performed */
   calculatedAt: Date;
   /** Optional customer ID for reference */
   customerId?: string;
 }
 
+/**
+ * The parts of a previous result that risk classification depends on
+ */
+export type PreviousRiskLevel = Pick<HealthScoreResult, 'riskLevel' | 'riskLevelSince' | 'calculatedAt' | 'customerId'>;
+
+/**
+ * Identifies the exact scoring logic behind a result
+ */
+export interface ScoreVersion {
+  /** Version of the factor calculation code (HEALTH_ALGORITHM_VERSION) */
+  algorithm: string;
+  /** Name of the scoring profile */
+  profile: string;
+  /** Revision of the scoring profile */
+  profileVersion: string;
+}
+
+/**
+ * Machine-readable validation error code
+ */
+export type ValidationErrorCode =
+  | 'required'
+  | 'invalid_type'
+  | 'not_finite'
+  | 'negative'
+  | 'out_of_range'
+  | 'invalid_value';
+
+/**
+ * A single validation problem with the offending field
+ */
+export interface ValidationIssue {
+  /** Dotted path to the field (e.g., 'support.satisfactionScore'); empty for the record itself */
+  path: string;
+  /** Error code */
+  code: ValidationErrorCode;
+  /** Human-readable message */
+  message: string;
+  /** Expected type and/or range, when applicable */
+  expected?: {
+    type?: 'number' | 'boolean' | 'string' | 'object';
+    min?: number;
+    max?: number;
+  };
+  /** Value that was received */
+  received: unknown;
+}
+
+/**
+ * Health scorer bound to a validated scoring profile
+ */
+export interface HealthScorer {
+  /** Profile used by this scorer */
+  readonly profile: ScoringProfile;
+  /** Version of the factor calculation code used by this scorer */
+  readonly algorithmVersion: string;
+  /** Factors scored by this scorer, in profile order */
+  readonly factors: readonly HealthFactor[];
+  /** Collect every validation issue for this scorer's factors */
+  validate(customerData: unknown, options?: HealthScoreOptions): ValidationIssue[];
+  /** Calculate a health score using the scorer's profile */
+  calculate(customerData: PartialCustomerHealthData, options?: HealthScoreOptions): HealthScoreResult;
+}
+
+/**
+ * Declarative rule for a single field of a factor's input object
+ */
+export interface FactorFieldRule {
+  /** Field name within the factor's input object */
+  field: string;
+  /** Expected value type */
+  type: 'number' | 'boolean';
+  /** Whether the field must be present */
+  required: boolean;
+  /** Inclusive lower bound for numbers */
+  min?: number;
+  /** Inclusive upper bound for numbers */
+  max?: number;
+}
+
+/**
+ * Factor score together with the components it was built from
+ */
+export interface FactorEvaluation {
+  /** Factor score (0-100) */
+  score: number;
+  /** Components used to explain the score; may be empty */
+  components: FactorComponent[];
+}
+
+/**
+ * A scoring factor that can be registered with a HealthFactorRegistry
+ *
+ * The factor's input is read from `customerData[key]` or, for factors
+ * without a dedicated field, from `customerData.factors[key]`.
+ *
+ * @example
+ * const npsFactor: HealthFactorDefinition<{ score: number }> = {
+ *   key: 'nps',
+ *   label: 'Net Promoter Score',
+ *   defaultWeight: 0.1,
+ *   schema: [{ field: 'score', type: 'number', required: true, min: -100, max: 100 }],
+ *   score: input => ({ score: (input.score + 100) / 2, components: [] })
+ * };
+ */
+export interface HealthFactorDefinition<TInput = unknown> {
+  /** Unique factor key; also the key in breakdowns and profile weights */
+  key: HealthFactor;
+  /** Human-readable factor name */
+  label: string;
+  /** Weight used when building weights from the registry (0-1) */
+  defaultWeight: number;
+  /** Rules for the fields of the factor's input object */
+  schema: FactorFieldRule[];
+  /** Additional checks run once the input passes the schema */
+  validate?(input: TInput, path: string): ValidationIssue[];
+  /** Score the input (0-100); the profile provides normalization caps */
+  score(input: TInput, profile: ScoringProfile): FactorEvaluation;
+}
+
 // ============================================================================
 // Custom Error Classes
 // ============================================================================
@@ -130,9 +438,13 @@ export interface HealthScoreResult {
  * Error thrown when input data fails validation
  */
 export class InvalidInputError extends Error {
-  constructor(message: string) {
+  /** Every validation issue found, in field order */
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
     super(message);
     this.name = 'InvalidInputError';
+    this.issues = issues;
     Object.setPrototypeOf(this, InvalidInputError.prototype);
   }
 }
@@ -153,12 +465,188 @@ export class CalculationError extends Error {
 // ============================================================================
 
 /**
- * Validates that a number is non-negative
- * @throws {InvalidInputError} If value is negative
+ * Field rules for each factor's input object
+ */
+const FACTOR_FIELD_RULES: Record<BuiltInHealthFactor, FactorFieldRule[]> = {
+  payment: [
+    { field: 'daysSinceLastPayment', type: 'number', required: true, min: 0 },
+    { field: 'averagePaymentDelay', type: 'number', required: true, min: 0 },
+    { field: 'overdueAmount', type: 'number', required: true, min: 0 },
+    { field: 'paymentConsistency', type: 'number', required: false, min: 0, max: 1 }
+  ],
+  engagement: [
+    { field: 'loginsPerMonth', type: 'number', required: true, min: 0 },
+    { field: 'featureUsageCount', type: 'number', required: true, min: 0 },
+    { field: 'supportTicketsOpened', type: 'number', required: true, min: 0 },
+    { field: 'activeUserCount', type: 'number', required: false, min: 0 }
+  ],
+  contract: [
+    { field: 'daysUntilRenewal', type: 'number', required: true },
+    { field: 'contractValue', type: 'number', required: true, min: 0 },
+    { field: 'hasRecentUpgrades', type: 'boolean', required: true },
+    { field: 'autoRenewalEnabled', type: 'boolean', required: false }
+  ],
+  support: [
+    { field: 'averageResolutionTimeHours', type: 'number', required: true, min: 0 },
+    { field: 'satisfactionScore', type: 'number', required: true, min: 1, max: 5 },
+    { field: 'escalationCount', type: 'number', required: true, min: 0 },
+    { field: 'openTicketCount', type: 'number', required: true, min: 0 }
+  ]
+};
+
+/**
+ * Checks that a value is present
+ * @returns The issue, or null if the value is present
+ */
+function checkRequired(value: unknown, path: string): ValidationIssue | null {
+  if (value === null || value === undefined) {
+    return { path, code: 'required', message: `${path} is required but was not provided`, received: value };
+  }
+  return null;
+}
+
+/**
+ * Checks that a value is a finite number
+ * @returns The issue, or null if the value is a finite number
+ */
+function checkFiniteNumber(value: unknown, path: string): ValidationIssue | null {
+  if (typeof value !== 'number') {
+    return {
+      path,
+      code: 'invalid_type',
+      message: `${path} must be a number, got ${typeof value}`,
+      expected: { type: 'number' },
+      received: value
+    };
+  }
+  if (!Number.isFinite(value)) {
+    return {
+      path,
+      code: 'not_finite',
+      message: `${path} must be a finite number, got ${value}`,
+      expected: { type: 'number' },
+      received: value
+    };
+  }
+  return null;
+}
+
+/**
+ * Checks that a number is within an (optionally open-ended) range
+ * @returns The issue, or null if the value is in range
+ */
+function checkRange(value: number, path: string, min?: number, max?: number): ValidationIssue | null {
+  if (min !== undefined && max === undefined && value < min) {
+    return min === 0
+      ? { path, code: 'negative', message: `${path} must be non-negative, got ${value}`, expected: { min }, received: value }
+      : { path, code: 'out_of_range', message: `${path} must be at least ${min}, got ${value}`, expected: { min }, received: value };
+  }
+  if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    return {
+      path,
+      code: 'out_of_range',
+      message: `${path} must be between ${min ?? '-Infinity'} and ${max ?? 'Infinity'}, got ${value}`,
+      expected: { min, max },
+      received: value
+    };
+  }
+  return null;
+}
+
+/**
+ * Checks a single field against its rule, reporting at most one issue
+ */
+function checkField(value: unknown, rule: FactorFieldRule, path: string): ValidationIssue | null {
+  if (value === null || value === undefined) {
+    return rule.required ? checkRequired(value, path) : null;
+  }
+  if (rule.type === 'boolean') {
+    return typeof value === 'boolean'
+      ? null
+      : {
+        path,
+        code: 'invalid_type',
+        message: `${path} must be a boolean`,
+        expected: { type: 'boolean' },
+        received: value
+      };
+  }
+  return checkFiniteNumber(value, path) ?? checkRange(value as number, path, rule.min, rule.max);
+}
+
+/**
+ * Collects every issue in a factor's input object
+ */
+function collectFactorIssues(rules: FactorFieldRule[], data: unknown, path: string): ValidationIssue[] {
+  const requiredIssue = checkRequired(data, path);
+  if (requiredIssue) {
+    return [requiredIssue];
+  }
+  if (typeof data !== 'object') {
+    return [{
+      path,
+      code: 'invalid_type',
+      message: `${path} must be an object`,
+      expected: { type: 'object' },
+      received: data
+    }];
+  }
+
+  const record = data as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+  for (const rule of rules) {
+    const issue = checkField(record[rule.field], rule, `${path}.${rule.field}`);
+    if (issue) {
+      issues.push(issue);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Locates a factor's input: its own field, or else customerData.factors[key]
  */
-function validateNonNegative(value: number, fieldName: string): void {
-  if (value < 0) {
-    throw new InvalidInputError(`${fieldName} must be non-negative, got ${value}`);
+function readFactorInput(record: Record<string, unknown>, factor: HealthFactor): { value: unknown; path: string } {
+  const direct = record[factor];
+  if (direct !== null && direct !== undefined) {
+    return { value: direct, path: factor };
+  }
+  const extra = record.factors;
+  if (extra !== null && typeof extra === 'object') {
+    const value = (extra as Record<string, unknown>)[factor];
+    if (value !== null && value !== undefined) {
+      return { value, path: `factors.${factor}` };
+    }
+  }
+  return { value: direct, path: factor };
+}
+
+/**
+ * Build an InvalidInputError carrying every issue
+ *
+ * The message is the first issue's, followed by a count of the rest.
+ *
+ * @param issues - Collected issues (at least one)
+ * @returns Error summarizing the issues
+ *
+ * @example
+ * toInvalidInputError(issues).message; // 'payment.overdueAmount must be non-negative, got -5 (and 1 more issue)'
+ */
+export function toInvalidInputError(issues: ValidationIssue[]): InvalidInputError {
+  const [first, ...rest] = issues;
+  const message = rest.length === 0
+    ? first.message
+    : `${first.message} (and ${rest.length} more ${rest.length === 1 ? 'issue' : 'issues'})`;
+  return new InvalidInputError(message, issues);
+}
+
+/**
+ * Throws if any issues were collected
+ * @throws {InvalidInputError} Carrying every issue
+ */
+function throwIfInvalid(issues: ValidationIssue[]): void {
+  if (issues.length > 0) {
+    throw toInvalidInputError(issues);
   }
 }
 
@@ -167,9 +655,8 @@ function validateNonNegative(value: number, fieldName: string): void {
  * @throws {InvalidInputError} If value is out of range
  */
 function validateRange(value: number, min: number, max: number, fieldName: string): void {
-  if (value < min || value > max) {
-    throw new InvalidInputError(`${fieldName} must be between ${min} and ${max}, got ${value}`);
-  }
+  const issue = checkRange(value, fieldName, min, max);
+  throwIfInvalid(issue ? [issue] : []);
 }
 
 /**
@@ -177,9 +664,8 @@ function validateRange(value: number, min: number, max: number, fieldName: strin
  * @throws {InvalidInputError} If value is null or undefined
  */
 function validateRequired(value: unknown, fieldName: string): void {
-  if (value === null || value === undefined) {
-    throw new InvalidInputError(`${fieldName} is required but was not provided`);
-  }
+  const issue = checkRequired(value, fieldName);
+  throwIfInvalid(issue ? [issue] : []);
 }
 
 /**
@@ -187,9 +673,106 @@ function validateRequired(value: unknown, fieldName: string): void {
  * @throws {InvalidInputError} If value is not a finite number
  */
 function validateFiniteNumber(value: number, fieldName: string): void {
-  if (!Number.isFinite(value)) {
-    throw new InvalidInputError(`${fieldName} must be a finite number, got ${value}`);
+  const issue = checkFiniteNumber(value, fieldName);
+  throwIfInvalid(issue ? [issue] : []);
+}
+
+/**
+ * Builds an InvalidInputError for a value that breaks a custom rule
+ */
+function invalidValue(path: string, message: string, received: unknown): InvalidInputError {
+  return new InvalidInputError(message, [{ path, code: 'invalid_value', message, received }]);
+}
+
+/**
+ * Whether data includes at least one factor with a weight above zero
+ *
+ * Partial data without one is valid field by field but cannot be scored.
+ *
+ * @param customerData - Data to check
+ * @param weights - Factor weights (default: the default profile's)
+ * @returns True if a weighted factor is present
+ */
+export function hasWeightedFactor(
+  customerData: PartialCustomerHealthData,
+  weights: Record<HealthFactor, number> = DEFAULT_SCORING_PROFILE.weights
+): boolean {
+  const record = customerData as Record<string, unknown>;
+  return Object.entries(weights).some(([factor, weight]) => {
+    const { value } = readFactorInput(record, factor);
+    return weight > 0 && value !== null && value !== undefined;
+  });
+}
+
+/**
+ * Validate customer health data, collecting every issue instead of stopping at the first
+ *
+ * Each issue carries the field's JSON path (e.g., 'support.satisfactionScore'),
+ * an error code, the expected type/range and the received value, so API
+ * responses and forms can highlight all bad fields at once.
+ *
+ * @param customerData - Data to validate (typically untrusted input)
+ * @param options - With allowPartialData, missing factors are not reported
+ * @param factors - Factors to validate (defaults to the built-ins)
+ * @returns All validation issues; empty when the data is valid
+ *
+ * @example
+ * const issues = validateCustomerHealthData(body);
+ * // [{ path: 'support.satisfactionScore', code: 'out_of_range',
+ * //    expected: { min: 1, max: 5 }, received: 7, message: '...' }]
+ */
+export function validateCustomerHealthData(
+  customerData: unknown,
+  options: HealthScoreOptions = {},
+  factors: readonly HealthFactorDefinition[] = BUILT_IN_FACTORS
+): ValidationIssue[] {
+  if (customerData === null || customerData === undefined || typeof customerData !== 'object') {
+    return [{
+      path: '',
+      code: customerData === null || customerData === undefined ? 'required' : 'invalid_type',
+      message: 'customerData must be an object',
+      expected: { type: 'object' },
+      received: customerData
+    }];
+  }
+
+  const record = customerData as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  if (record.factors !== undefined && (record.factors === null || typeof record.factors !== 'object')) {
+    issues.push({
+      path: 'factors',
+      code: 'invalid_type',
+      message: 'factors must be an object keyed by factor',
+      expected: { type: 'object' },
+      received: record.factors
+    });
   }
+
+  for (const definition of factors) {
+    const { value, path } = readFactorInput(record, definition.key);
+    if ((value === null || value === undefined) && options.allowPartialData) {
+      continue;
+    }
+    const factorIssues = collectFactorIssues(definition.schema, value, path);
+    // Custom checks only run on input that matches the schema
+    if (factorIssues.length === 0 && definition.validate) {
+      factorIssues.push(...definition.validate(value, path));
+    }
+    issues.push(...factorIssues);
+  }
+
+  if (record.customerId !== undefined && typeof record.customerId !== 'string') {
+    issues.push({
+      path: 'customerId',
+      code: 'invalid_type',
+      message: 'customerId must be a string',
+      expected: { type: 'string' },
+      received: record.customerId
+    });
+  }
+
+  return issues;
 }
 
 // ============================================================================
@@ -213,20 +796,524 @@ function normalizeToScore(value: number, min: number, max: number): number {
   return clampScore(normalized);
 }
 
-/**
- * Inverse normalization: higher source values produce lower scores
- * Useful for metrics where lower is better (e.g., days overdue)
- */
-function inverseNormalizeToScore(value: number, min: number, max: number): number {
-  if (max === min) return 50; // Neutral score for no range
-  const normalized = ((max - value) / (max - min)) * 100;
-  return clampScore(normalized);
+/**
+ * Inverse normalization: higher source values produce lower scores
+ * Useful for metrics where lower is better (e.g., days overdue)
+ */
+function inverseNormalizeToScore(value: number, min: number, max: number): number {
+  if (max === min) return 50; // Neutral score for no range
+  const normalized = ((max - value) / (max - min)) * 100;
+  return clampScore(normalized);
+}
+
+// ============================================================================
+// Scoring Profiles
+// ============================================================================
+
+/**
+ * Ordered list of the built-in scoring factors
+ */
+export const HEALTH_FACTORS: readonly BuiltInHealthFactor[] = ['payment', 'engagement', 'contract', 'support'];
+
+/**
+ * Default scoring profile
+ *
+ * Weights: payment 40%, engagement 30%, contract 20%, support 10%.
+ * Bands: healthy 71-100, warning 31-70, critical 0-30.
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: 'default',
+  version: '1.0.0',
+  weights: {
+    payment: 0.4,
+    engagement: 0.3,
+    contract: 0.2,
+    support: 0.1
+  },
+  riskBands: {
+    healthy: { min: 71, max: 100 },
+    warning: { min: 31, max: 70 },
+    critical: { min: 0, max: 30 }
+  },
+  normalization: {
+    payment: {
+      maxDaysSinceLastPayment: 60,
+      maxAveragePaymentDelay: 30,
+      maxOverdueAmount: 10000
+    },
+    engagement: {
+      maxLoginsPerMonth: 60,
+      maxFeatureUsageCount: 20,
+      acceptableSupportTickets: 5,
+      elevatedSupportTickets: 15,
+      maxSupportTickets: 30,
+      maxActiveUserCount: 10
+    },
+    contract: {
+      urgentRenewalDays: 30,
+      stableRenewalDays: 180,
+      maxRenewalDays: 360,
+      maxContractValue: 100000
+    },
+    support: {
+      maxResolutionTimeHours: 72,
+      maxEscalationCount: 10,
+      maxOpenTicketCount: 20
+    }
+  }
+};
+
+/** Tolerance when checking that weights sum to 1.0 */
+const WEIGHT_SUM_TOLERANCE = 1e-6;
+
+/**
+ * Validates that a normalization cap is a positive finite number
+ * @throws {InvalidInputError} If the cap is not positive
+ */
+function validatePositiveCap(value: number, fieldName: string): void {
+  validateRequired(value, fieldName);
+  validateFiniteNumber(value, fieldName);
+  if (value <= 0) {
+    throw invalidValue(fieldName, `${fieldName} must be greater than 0, got ${value}`, value);
+  }
+}
+
+/**
+ * Validates that a set of thresholds is strictly increasing
+ * @throws {InvalidInputError} If the thresholds are out of order
+ */
+function validateAscending<T>(values: T, keys: (keyof T & string)[], prefix: string): void {
+  for (let i = 1; i < keys.length; i++) {
+    const previous = values[keys[i - 1]];
+    const current = values[keys[i]];
+    if (current <= previous) {
+      throw invalidValue(
+        `${prefix}.${keys[i]}`,
+        `${prefix}.${keys[i]} (${current}) must be greater than ${prefix}.${keys[i - 1]} (${previous})`,
+        current
+      );
+    }
+  }
+}
+
+/**
+ * Validate a scoring profile
+ *
+ * Checks that:
+ * - Every weighted factor is registered, weights are within 0-1 and sum to 1.0
+ * - Risk bands are integer ranges within 0-100 that neither overlap nor leave gaps,
+ *   ordered critical < warning < healthy
+ * - Every normalization cap is positive and tiered thresholds are increasing
+ *
+ * @param profile - Scoring profile to validate
+ * @param registry - Registry the weighted factors must be registered in
+ * @throws {InvalidInputError} If the profile is invalid
+ */
+export function validateScoringProfile(
+  profile: ScoringProfile,
+  registry: HealthFactorRegistry = healthFactors
+): void {
+  validateRequired(profile, 'profile');
+  if (typeof profile.version !== 'string' || profile.version.trim() === '') {
+    throw invalidValue('profile.version', 'profile.version must be a non-empty string', profile.version);
+  }
+  validateRequired(profile.weights, 'profile.weights');
+  validateRequired(profile.riskBands, 'profile.riskBands');
+  validateRequired(profile.normalization, 'profile.normalization');
+
+  // Weights
+  const weightedFactors = Object.keys(profile.weights);
+  if (weightedFactors.length === 0) {
+    throw invalidValue('profile.weights', 'profile.weights must weight at least one factor', profile.weights);
+  }
+  let weightSum = 0;
+  for (const factor of weightedFactors) {
+    const weight = profile.weights[factor];
+    const fieldName = `profile.weights.${factor}`;
+    if (!registry.has(factor)) {
+      throw invalidValue(fieldName, `${fieldName} refers to unregistered factor '${factor}'`, weight);
+    }
+    validateRequired(weight, fieldName);
+    validateFiniteNumber(weight, fieldName);
+    validateRange(weight, 0, 1, fieldName);
+    weightSum += weight;
+  }
+  if (Math.abs(weightSum - 1) > WEIGHT_SUM_TOLERANCE) {
+    throw invalidValue('profile.weights', `profile.weights must sum to 1, got ${weightSum}`, profile.weights);
+  }
+
+  // Risk bands, ordered from lowest to highest
+  const bandOrder: RiskLevel[] = ['critical', 'warning', 'healthy'];
+  let expectedMin = 0;
+  for (const level of bandOrder) {
+    const band = profile.riskBands[level];
+    const fieldName = `profile.riskBands.${level}`;
+    validateRequired(band, fieldName);
+    for (const bound of ['min', 'max'] as const) {
+      validateRequired(band[bound], `${fieldName}.${bound}`);
+      if (!Number.isInteger(band[bound])) {
+        throw invalidValue(
+          `${fieldName}.${bound}`, `${fieldName}.${bound} must be an integer, got ${band[bound]}`, band[bound]
+        );
+      }
+      validateRange(band[bound], 0, 100, `${fieldName}.${bound}`);
+    }
+    if (band.min > band.max) {
+      throw invalidValue(fieldName, `${fieldName}.min (${band.min}) must not exceed max (${band.max})`, band);
+    }
+    if (band.min < expectedMin) {
+      throw invalidValue(fieldName, `${fieldName} (${band.min}-${band.max}) overlaps the band below it`, band);
+    }
+    if (band.min > expectedMin) {
+      throw invalidValue(fieldName, `${fieldName} leaves scores ${expectedMin}-${band.min - 1} unclassified`, band);
+    }
+    expectedMin = band.max + 1;
+  }
+  if (expectedMin !== 101) {
+    throw invalidValue(
+      'profile.riskBands', `profile.riskBands leaves scores ${expectedMin}-100 unclassified`, profile.riskBands
+    );
+  }
+
+  // Normalization caps
+  const { payment, engagement, contract, support } = profile.normalization;
+  validateRequired(payment, 'profile.normalization.payment');
+  validateRequired(engagement, 'profile.normalization.engagement');
+  validateRequired(contract, 'profile.normalization.contract');
+  validateRequired(support, 'profile.normalization.support');
+
+  validatePositiveCap(payment.maxDaysSinceLastPayment, 'profile.normalization.payment.maxDaysSinceLastPayment');
+  validatePositiveCap(payment.maxAveragePaymentDelay, 'profile.normalization.payment.maxAveragePaymentDelay');
+  validatePositiveCap(payment.maxOverdueAmount, 'profile.normalization.payment.maxOverdueAmount');
+
+  validatePositiveCap(engagement.maxLoginsPerMonth, 'profile.normalization.engagement.maxLoginsPerMonth');
+  validatePositiveCap(engagement.maxFeatureUsageCount, 'profile.normalization.engagement.maxFeatureUsageCount');
+  validatePositiveCap(engagement.acceptableSupportTickets, 'profile.normalization.engagement.acceptableSupportTickets');
+  validatePositiveCap(engagement.elevatedSupportTickets, 'profile.normalization.engagement.elevatedSupportTickets');
+  validatePositiveCap(engagement.maxSupportTickets, 'profile.normalization.engagement.maxSupportTickets');
+  validateAscending(
+    engagement,
+    ['acceptableSupportTickets', 'elevatedSupportTickets', 'maxSupportTickets'],
+    'profile.normalization.engagement'
+  );
+  validatePositiveCap(engagement.maxActiveUserCount, 'profile.normalization.engagement.maxActiveUserCount');
+  if (engagement.maxActiveUserCount <= 1) {
+    throw invalidValue(
+      'profile.normalization.engagement.maxActiveUserCount',
+      `profile.normalization.engagement.maxActiveUserCount must be greater than 1, got ${engagement.maxActiveUserCount}`,
+      engagement.maxActiveUserCount
+    );
+  }
+
+  validatePositiveCap(contract.urgentRenewalDays, 'profile.normalization.contract.urgentRenewalDays');
+  validatePositiveCap(contract.stableRenewalDays, 'profile.normalization.contract.stableRenewalDays');
+  validatePositiveCap(contract.maxRenewalDays, 'profile.normalization.contract.maxRenewalDays');
+  validateAscending(
+    contract,
+    ['urgentRenewalDays', 'stableRenewalDays', 'maxRenewalDays'],
+    'profile.normalization.contract'
+  );
+  validatePositiveCap(contract.maxContractValue, 'profile.normalization.contract.maxContractValue');
+
+  validatePositiveCap(support.maxResolutionTimeHours, 'profile.normalization.support.maxResolutionTimeHours');
+  validatePositiveCap(support.maxEscalationCount, 'profile.normalization.support.maxEscalationCount');
+  validatePositiveCap(support.maxOpenTicketCount, 'profile.normalization.support.maxOpenTicketCount');
+}
+
+/**
+ * Classify an overall score into a risk level using the profile's bands
+ *
+ * @param overallScore - Overall health score (0-100)
+ * @param riskBands - Validated risk bands
+ * @returns Risk level whose band contains the score
+ * @throws {CalculationError} If no band contains the score
+ */
+export function classifyRiskLevel(
+  overallScore: number,
+  riskBands: Record<RiskLevel, RiskBand> = DEFAULT_SCORING_PROFILE.riskBands
+): RiskLevel {
+  for (const level of Object.keys(riskBands) as RiskLevel[]) {
+    const band = riskBands[level];
+    if (overallScore >= band.min && overallScore <= band.max) {
+      return level;
+    }
+  }
+  throw new CalculationError(`No risk band contains score ${overallScore}`);
+}
+
+/** Default hysteresis: clear a boundary by 3 points after holding a level for 7 days */
+export const DEFAULT_RISK_HYSTERESIS: RiskHysteresis = { margin: 3, minDwellDays: 7 };
+
+/** Settings that reduce applyRiskHysteresis to plain band classification */
+const NO_HYSTERESIS: RiskHysteresis = { margin: 0, minDwellDays: 0 };
+
+const RISK_LEVEL_ORDER: RiskLevel[] = ['critical', 'warning', 'healthy'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Outcome of classifying a score against a previous result
+ */
+export interface RiskTransition {
+  riskLevel: RiskLevel;
+  /** When the customer entered riskLevel */
+  riskLevelSince: Date;
+  /** Level the score's band maps to */
+  bandRiskLevel: RiskLevel;
+  /** Whether riskLevel was held at the previous level despite the band */
+  held: boolean;
+}
+
+/**
+ * Validates hysteresis settings, filling in defaults
+ * @throws {InvalidInputError} If the margin is not a whole number of points, or the
+ * margin or dwell time is negative or not finite
+ */
+function resolveHysteresis(hysteresis: Partial<RiskHysteresis>): RiskHysteresis {
+  const resolved = { ...DEFAULT_RISK_HYSTERESIS, ...hysteresis };
+  validateFiniteNumber(resolved.margin, 'hysteresis.margin');
+  if (!Number.isInteger(resolved.margin)) {
+    // Bands are integer ranges, so a fractional shift would fall between them
+    throw invalidValue(
+      'hysteresis.margin', `hysteresis.margin must be an integer, got ${resolved.margin}`, resolved.margin
+    );
+  }
+  validateRange(resolved.margin, 0, 100, 'hysteresis.margin');
+  validateFiniteNumber(resolved.minDwellDays, 'hysteresis.minDwellDays');
+  validateRange(resolved.minDwellDays, 0, Infinity, 'hysteresis.minDwellDays');
+  return resolved;
+}
+
+/**
+ * Classify a score, only leaving the previous risk level once it was clearly crossed
+ *
+ * Moving up, the score must reach the next band's minimum plus `margin`;
+ * moving down, it must fall to the band's maximum minus `margin`. A score
+ * that jumps several bands lands on the furthest band it clears by the
+ * margin. Even a clear crossing is held until the previous level has lasted
+ * `minDwellDays`. Without a previous result the band level applies.
+ *
+ * @param overallScore - Overall health score (0-100)
+ * @param previous - The customer's previous result, if any
+ * @param calculatedAt - Time of the new classification
+ * @param riskBands - Validated risk bands
+ * @param hysteresis - Margin and dwell time (omitted settings use DEFAULT_RISK_HYSTERESIS)
+ * @returns Debounced risk level and when the customer entered it
+ * @throws {InvalidInputError} If the hysteresis settings are invalid
+ *
+ * @example
+ * // Previously 'warning' at 70 for two weeks; 72 has not cleared 71 + 3
+ * applyRiskHysteresis(72, previous, new Date()).riskLevel; // 'warning'
+ */
+export function applyRiskHysteresis(
+  overallScore: number,
+  previous: PreviousRiskLevel | undefined,
+  calculatedAt: Date,
+  riskBands: Record<RiskLevel, RiskBand> = DEFAULT_SCORING_PROFILE.riskBands,
+  hysteresis: Partial<RiskHysteresis> = {}
+): RiskTransition {
+  const { margin, minDwellDays } = resolveHysteresis(hysteresis);
+  const bandRiskLevel = classifyRiskLevel(overallScore, riskBands);
+
+  if (!previous) {
+    return { riskLevel: bandRiskLevel, riskLevelSince: calculatedAt, bandRiskLevel, held: false };
+  }
+  const previousSince = previous.riskLevelSince ?? previous.calculatedAt;
+  if (bandRiskLevel === previous.riskLevel) {
+    return { riskLevel: bandRiskLevel, riskLevelSince: previousSince, bandRiskLevel, held: false };
+  }
+
+  // Furthest level the score clears by the margin, in the direction it moved
+  const movingUp = RISK_LEVEL_ORDER.indexOf(bandRiskLevel) > RISK_LEVEL_ORDER.indexOf(previous.riskLevel);
+  const clearedLevel = classifyRiskLevel(
+    Math.min(100, Math.max(0, movingUp ? overallScore - margin : overallScore + margin)),
+    riskBands
+  );
+  const clearedIndex = RISK_LEVEL_ORDER.indexOf(clearedLevel);
+  const previousIndex = RISK_LEVEL_ORDER.indexOf(previous.riskLevel);
+  const crossed = movingUp ? clearedIndex > previousIndex : clearedIndex < previousIndex;
+  const dwelled = calculatedAt.getTime() - previousSince.getTime() >= minDwellDays * MS_PER_DAY;
+
+  if (!crossed || !dwelled) {
+    return { riskLevel: previous.riskLevel, riskLevelSince: previousSince, bandRiskLevel, held: true };
+  }
+  return { riskLevel: clearedLevel, riskLevelSince: calculatedAt, bandRiskLevel, held: false };
+}
+
+// ============================================================================
+// Factor Explanation Utilities
+// ============================================================================
+
+/** Points below which a component is not worth a reason string */
+const MIN_REASON_POINTS = 1;
+
+/**
+ * Formats a dollar amount for reason strings (e.g., $8,500)
+ */
+function formatCurrency(amount: number): string {
+  return `$${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+/**
+ * Formats a count with a singular or plural noun
+ */
+function formatCount(count: number, singular: string, plural = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+/**
+ * Builds a weighted component from its normalized score
+ */
+function weightedComponent(
+  key: string,
+  label: string,
+  value: number,
+  score: number,
+  weight: number,
+  description: string
+): FactorComponent {
+  return {
+    key,
+    label,
+    kind: 'weighted',
+    value,
+    score,
+    weight,
+    pointsAdded: score * weight,
+    pointsLost: (100 - score) * weight,
+    description
+  };
+}
+
+/**
+ * Builds a bonus component, accounting for the factor's 100-point cap
+ *
+ * @param bonus - Bonus points earned before capping
+ * @param maxBonus - Maximum bonus the component can award
+ * @param baseScore - Factor score before this bonus is applied
+ */
+function bonusComponent(
+  key: string,
+  label: string,
+  value: number | boolean,
+  bonus: number,
+  maxBonus: number,
+  baseScore: number,
+  description: string
+): FactorComponent {
+  const headroom = Math.max(0, 100 - baseScore);
+  const pointsAdded = Math.min(bonus, headroom);
+  return {
+    key,
+    label,
+    kind: 'bonus',
+    value,
+    score: maxBonus > 0 ? (bonus / maxBonus) * 100 : 0,
+    weight: 0,
+    pointsAdded,
+    pointsLost: Math.max(0, Math.min(maxBonus, headroom) - pointsAdded),
+    description
+  };
+}
+
+/**
+ * Sums the weighted contributions of components (in order)
+ */
+function sumWeightedComponents(components: FactorComponent[]): number {
+  return components.reduce((sum, component) => sum + component.score * component.weight, 0);
+}
+
+/**
+ * Generate reason strings for a factor's components
+ *
+ * Costs are listed before gains, each sorted by impact. Components whose
+ * impact rounds below one point are omitted.
+ *
+ * @param components - Factor components
+ * @returns Reasons such as "Overdue balance of $8,500 cost 30 points"
+ */
+export function explainFactorComponents(components: FactorComponent[]): string[] {
+  const costs: { points: number; reason: string }[] = [];
+  const gains: { points: number; reason: string }[] = [];
+
+  for (const component of components) {
+    const lost = Math.round(component.pointsLost);
+    const added = Math.round(component.pointsAdded);
+
+    if (component.kind === 'bonus' && added >= MIN_REASON_POINTS) {
+      gains.push({ points: added, reason: `${component.description} added ${formatCount(added, 'point')}` });
+    } else if (lost >= MIN_REASON_POINTS) {
+      costs.push({ points: lost, reason: `${component.description} cost ${formatCount(lost, 'point')}` });
+    }
+  }
+
+  costs.sort((a, b) => b.points - a.points);
+  gains.sort((a, b) => b.points - a.points);
+
+  return [...costs, ...gains].map(entry => entry.reason);
+}
+
+// ============================================================================
+// Individual Factor Calculation Functions
+// ============================================================================
+
+/**
+ * Evaluate payment components (see calculatePaymentScore)
+ */
+function evaluatePaymentFactor(
+  paymentData: PaymentHistory,
+  normalization: PaymentNormalization
+): FactorEvaluation {
+  throwIfInvalid(collectFactorIssues(FACTOR_FIELD_RULES.payment, paymentData, 'payment'));
+
+  const { daysSinceLastPayment, averagePaymentDelay, overdueAmount, paymentConsistency } = paymentData;
+
+  const { maxDaysSinceLastPayment, maxAveragePaymentDelay, maxOverdueAmount } = normalization;
+
+  // Calculate component scores
+  // Days since last payment: 0 days = 100, 60+ days = 0 (default caps)
+  const daysSinceScore = inverseNormalizeToScore(
+    Math.min(daysSinceLastPayment, maxDaysSinceLastPayment), 0, maxDaysSinceLastPayment
+  );
+
+  // Average payment delay: 0 days = 100, 30+ days = 0
+  const delayScore = inverseNormalizeToScore(
+    Math.min(averagePaymentDelay, maxAveragePaymentDelay), 0, maxAveragePaymentDelay
+  );
+
+  // Overdue amount: $0 = 100, $10000+ = 0
+  const overdueScore = inverseNormalizeToScore(Math.min(overdueAmount, maxOverdueAmount), 0, maxOverdueAmount);
+
+  // Weighted average of components
+  const components = [
+    weightedComponent(
+      'daysSinceLastPayment', 'Days since last payment', daysSinceLastPayment, daysSinceScore, 0.3,
+      `Last payment ${formatCount(daysSinceLastPayment, 'day')} ago`
+    ),
+    weightedComponent(
+      'averagePaymentDelay', 'Average payment delay', averagePaymentDelay, delayScore, 0.35,
+      `Average payment delay of ${formatCount(averagePaymentDelay, 'day')}`
+    ),
+    weightedComponent(
+      'overdueAmount', 'Overdue amount', overdueAmount, overdueScore, 0.35,
+      overdueAmount > 0 ? `Overdue balance of ${formatCurrency(overdueAmount)}` : 'No overdue balance'
+    )
+  ];
+  let baseScore = sumWeightedComponents(components);
+
+  // Apply consistency bonus if available
+  if (paymentConsistency !== undefined) {
+    const consistencyBonus = paymentConsistency * 10; // Up to 10 point bonus
+    components.push(bonusComponent(
+      'paymentConsistency', 'Payment consistency', paymentConsistency, consistencyBonus, 10, baseScore,
+      `Payment consistency of ${Math.round(paymentConsistency * 100)}%`
+    ));
+    baseScore = Math.min(100, baseScore + consistencyBonus);
+  }
+
+  return { score: Math.round(clampScore(baseScore)), components };
 }
 
-// ============================================================================
-// Individual Factor Calculation Functions
-// ============================================================================
-
 /**
  * Calculate payment health score (0-100)
  *
@@ -237,6 +1324,7 @@ function inverseNormalizeToScore(value: number, min: number, max: number): numbe
  * - Payment consistency bonus (optional)
  *
  * @param paymentData - Payment history information
+ * @param normalization - Normalization caps (defaults to DEFAULT_SCORING_PROFILE)
  * @returns Normalized payment score (0-100)
  * @throws {InvalidInputError} If data validation fails
  *
@@ -248,50 +1336,83 @@ function inverseNormalizeToScore(value: number, min: number, max: number): numbe
  *   paymentConsistency: 0.9
  * }); // Returns ~85
  */
-export function calculatePaymentScore(paymentData: PaymentHistory): number {
-  validateRequired(paymentData, 'paymentData');
-
-  const { daysSinceLastPayment, averagePaymentDelay, overdueAmount, paymentConsistency } = paymentData;
-
-  // Validate required fields
-  validateRequired(daysSinceLastPayment, 'daysSinceLastPayment');
-  validateRequired(averagePaymentDelay, 'averagePaymentDelay');
-  validateRequired(overdueAmount, 'overdueAmount');
+export function calculatePaymentScore(
+  paymentData: PaymentHistory,
+  normalization: PaymentNormalization = DEFAULT_SCORING_PROFILE.normalization.payment
+): number {
+  return evaluatePaymentFactor(paymentData, normalization).score;
+}
 
-  validateFiniteNumber(daysSinceLastPayment, 'daysSinceLastPayment');
-  validateFiniteNumber(averagePaymentDelay, 'averagePaymentDelay');
-  validateFiniteNumber(overdueAmount, 'overdueAmount');
+/**
+ * Evaluate engagement components (see calculateEngagementScore)
+ */
+function evaluateEngagementFactor(
+  engagementData: EngagementMetrics,
+  normalization: EngagementNormalization
+): FactorEvaluation {
+  throwIfInvalid(collectFactorIssues(FACTOR_FIELD_RULES.engagement, engagementData, 'engagement'));
 
-  validateNonNegative(daysSinceLastPayment, 'daysSinceLastPayment');
-  validateNonNegative(averagePaymentDelay, 'averagePaymentDelay');
-  validateNonNegative(overdueAmount, 'overdueAmount');
+  const { loginsPerMonth, featureUsageCount, supportTicketsOpened, activeUserCount } = engagementData;
 
-  // Validate optional fields if present
-  if (paymentConsistency !== undefined) {
-    validateFiniteNumber(paymentConsistency, 'paymentConsistency');
-    validateRange(paymentConsistency, 0, 1, 'paymentConsistency');
-  }
+  const {
+    maxLoginsPerMonth,
+    maxFeatureUsageCount,
+    acceptableSupportTickets,
+    elevatedSupportTickets,
+    maxSupportTickets,
+    maxActiveUserCount
+  } = normalization;
 
   // Calculate component scores
-  // Days since last payment: 0 days = 100, 60+ days = 0
-  const daysSinceScore = inverseNormalizeToScore(Math.min(daysSinceLastPayment, 60), 0, 60);
+  // Logins per month: 0 = 0, 60+ = 100 (1-2 logins per day = excellent, default caps)
+  const loginScore = normalizeToScore(Math.min(loginsPerMonth, maxLoginsPerMonth), 0, maxLoginsPerMonth);
 
-  // Average payment delay: 0 days = 100, 30+ days = 0
-  const delayScore = inverseNormalizeToScore(Math.min(averagePaymentDelay, 30), 0, 30);
+  // Feature usage: 0 = 0, 20+ = 100
+  const featureScore = normalizeToScore(
+    Math.min(featureUsageCount, maxFeatureUsageCount), 0, maxFeatureUsageCount
+  );
 
-  // Overdue amount: $0 = 100, $10000+ = 0
-  const overdueScore = inverseNormalizeToScore(Math.min(overdueAmount, 10000), 0, 10000);
+  // Support tickets: 0-5 = 100, 6-15 = moderate, 16+ = concerning
+  let ticketScore: number;
+  if (supportTicketsOpened <= acceptableSupportTickets) {
+    ticketScore = 100;
+  } else if (supportTicketsOpened <= elevatedSupportTickets) {
+    ticketScore = inverseNormalizeToScore(supportTicketsOpened, acceptableSupportTickets, elevatedSupportTickets);
+  } else {
+    ticketScore = inverseNormalizeToScore(
+      Math.min(supportTicketsOpened, maxSupportTickets), elevatedSupportTickets, maxSupportTickets
+    );
+  }
 
-  // Weighted average of components
-  let baseScore = (daysSinceScore * 0.3) + (delayScore * 0.35) + (overdueScore * 0.35);
+  // Base score without active user count
+  const components = [
+    weightedComponent(
+      'loginsPerMonth', 'Logins per month', loginsPerMonth, loginScore, 0.4,
+      `${formatCount(loginsPerMonth, 'login')} per month`
+    ),
+    weightedComponent(
+      'featureUsageCount', 'Features used', featureUsageCount, featureScore, 0.4,
+      `${formatCount(featureUsageCount, 'feature')} in use`
+    ),
+    weightedComponent(
+      'supportTicketsOpened', 'Support tickets opened', supportTicketsOpened, ticketScore, 0.2,
+      `${formatCount(supportTicketsOpened, 'support ticket')} opened`
+    )
+  ];
+  let baseScore = sumWeightedComponents(components);
 
-  // Apply consistency bonus if available
-  if (paymentConsistency !== undefined) {
-    const consistencyBonus = paymentConsistency * 10; // Up to 10 point bonus
-    baseScore = Math.min(100, baseScore + consistencyBonus);
+  // Apply active user bonus if available
+  if (activeUserCount !== undefined) {
+    // 1 user = neutral, 10+ users = significant bonus
+    const userBonus = normalizeToScore(Math.min(activeUserCount, maxActiveUserCount), 1, maxActiveUserCount) * 0.15;
+    components.push(bonusComponent(
+      'activeUserCount', 'Active users', activeUserCount, userBonus, 15, baseScore,
+      formatCount(activeUserCount, 'active user')
+    ));
+    baseScore = Math.min(100, baseScore + userBonus);
   }
 
-  return Math.round(clampScore(baseScore));
+  return { score: Math.round(clampScore(baseScore)), components };
 }
 
 /**
@@ -304,6 +1425,7 @@ export function calculatePaymentScore(paymentData: PaymentHistory): number {
  * - Active user count (higher = better, optional)
  *
  * @param engagementData - Engagement metrics
+ * @param normalization - Normalization caps (defaults to DEFAULT_SCORING_PROFILE)
  * @returns Normalized engagement score (0-100)
  * @throws {InvalidInputError} If data validation fails
  *
@@ -315,58 +1437,79 @@ export function calculatePaymentScore(paymentData: PaymentHistory): number {
  *   activeUserCount: 8
  * }); // Returns ~78
  */
-export function calculateEngagementScore(engagementData: EngagementMetrics): number {
-  validateRequired(engagementData, 'engagementData');
-
-  const { loginsPerMonth, featureUsageCount, supportTicketsOpened, activeUserCount } = engagementData;
-
-  // Validate required fields
-  validateRequired(loginsPerMonth, 'loginsPerMonth');
-  validateRequired(featureUsageCount, 'featureUsageCount');
-  validateRequired(supportTicketsOpened, 'supportTicketsOpened');
+export function calculateEngagementScore(
+  engagementData: EngagementMetrics,
+  normalization: EngagementNormalization = DEFAULT_SCORING_PROFILE.normalization.engagement
+): number {
+  return evaluateEngagementFactor(engagementData, normalization).score;
+}
 
-  validateFiniteNumber(loginsPerMonth, 'loginsPerMonth');
-  validateFiniteNumber(featureUsageCount, 'featureUsageCount');
-  validateFiniteNumber(supportTicketsOpened, 'supportTicketsOpened');
+/**
+ * Evaluate contract components (see calculateContractScore)
+ */
+function evaluateContractFactor(
+  contractData: ContractInfo,
+  normalization: ContractNormalization
+): FactorEvaluation {
+  throwIfInvalid(collectFactorIssues(FACTOR_FIELD_RULES.contract, contractData, 'contract'));
 
-  validateNonNegative(loginsPerMonth, 'loginsPerMonth');
-  validateNonNegative(featureUsageCount, 'featureUsageCount');
-  validateNonNegative(supportTicketsOpened, 'supportTicketsOpened');
+  const { daysUntilRenewal, contractValue, hasRecentUpgrades, autoRenewalEnabled } = contractData;
 
-  // Validate optional fields if present
-  if (activeUserCount !== undefined) {
-    validateFiniteNumber(activeUserCount, 'activeUserCount');
-    validateNonNegative(activeUserCount, 'activeUserCount');
-  }
+  const { urgentRenewalDays, stableRenewalDays, maxRenewalDays, maxContractValue } = normalization;
 
   // Calculate component scores
-  // Logins per month: 0 = 0, 60+ = 100 (1-2 logins per day = excellent)
-  const loginScore = normalizeToScore(Math.min(loginsPerMonth, 60), 0, 60);
-
-  // Feature usage: 0 = 0, 20+ = 100
-  const featureScore = normalizeToScore(Math.min(featureUsageCount, 20), 0, 20);
-
-  // Support tickets: 0-5 = 100, 6-15 = moderate, 16+ = concerning
-  let ticketScore: number;
-  if (supportTicketsOpened <= 5) {
-    ticketScore = 100;
-  } else if (supportTicketsOpened <= 15) {
-    ticketScore = inverseNormalizeToScore(supportTicketsOpened, 5, 15);
+  // Days until renewal: <30 = urgent, 30-180 = moderate, 180-360 = good, 360+ = excellent (default caps)
+  let renewalScore: number;
+  if (daysUntilRenewal < 0) {
+    renewalScore = 0; // Expired contract
+  } else if (daysUntilRenewal < urgentRenewalDays) {
+    renewalScore = normalizeToScore(daysUntilRenewal, 0, urgentRenewalDays) * 0.5; // Critical period
+  } else if (daysUntilRenewal < stableRenewalDays) {
+    renewalScore = 50 + normalizeToScore(
+      daysUntilRenewal - urgentRenewalDays, 0, stableRenewalDays - urgentRenewalDays
+    ) * 0.3;
   } else {
-    ticketScore = inverseNormalizeToScore(Math.min(supportTicketsOpened, 30), 15, 30);
+    const stableSpan = maxRenewalDays - stableRenewalDays;
+    renewalScore = 80 + normalizeToScore(
+      Math.min(daysUntilRenewal - stableRenewalDays, stableSpan), 0, stableSpan
+    ) * 0.2;
   }
 
-  // Base score without active user count
-  let baseScore = (loginScore * 0.4) + (featureScore * 0.4) + (ticketScore * 0.2);
+  // Contract value: $0 = 0, $100k+ = 100 (higher value = more stable relationship)
+  const valueScore = normalizeToScore(Math.min(contractValue, maxContractValue), 0, maxContractValue);
 
-  // Apply active user bonus if available
-  if (activeUserCount !== undefined) {
-    // 1 user = neutral, 10+ users = significant bonus
-    const userBonus = normalizeToScore(Math.min(activeUserCount, 10), 1, 10) * 0.15;
-    baseScore = Math.min(100, baseScore + userBonus);
-  }
+  // Recent upgrades: strong positive signal
+  const upgradeBonus = hasRecentUpgrades ? 15 : 0;
+
+  // Auto-renewal: confidence boost
+  const autoRenewalBonus = autoRenewalEnabled === true ? 10 : 0;
+
+  // Weighted average with bonuses
+  const components = [
+    weightedComponent(
+      'daysUntilRenewal', 'Days until renewal', daysUntilRenewal, renewalScore, 0.5,
+      daysUntilRenewal < 0
+        ? `Contract expired ${formatCount(-daysUntilRenewal, 'day')} ago`
+        : `Renewal in ${formatCount(daysUntilRenewal, 'day')}`
+    ),
+    weightedComponent(
+      'contractValue', 'Contract value', contractValue, valueScore, 0.5,
+      `Annual contract value of ${formatCurrency(contractValue)}`
+    )
+  ];
+  const baseScore = sumWeightedComponents(components);
+  components.push(bonusComponent(
+    'hasRecentUpgrades', 'Recent upgrades', hasRecentUpgrades, upgradeBonus, 15, baseScore,
+    hasRecentUpgrades ? 'Recent upgrade' : 'No recent upgrades'
+  ));
+  components.push(bonusComponent(
+    'autoRenewalEnabled', 'Auto-renewal', autoRenewalEnabled === true, autoRenewalBonus, 10,
+    Math.min(100, baseScore + upgradeBonus),
+    autoRenewalEnabled === true ? 'Auto-renewal enabled' : 'Auto-renewal not enabled'
+  ));
+  const finalScore = Math.min(100, baseScore + upgradeBonus + autoRenewalBonus);
 
-  return Math.round(clampScore(baseScore));
+  return { score: Math.round(clampScore(finalScore)), components };
 }
 
 /**
@@ -379,6 +1522,7 @@ export function calculateEngagementScore(engagementData: EngagementMetrics): num
  * - Auto-renewal status (confidence boost)
  *
  * @param contractData - Contract information
+ * @param normalization - Normalization caps (defaults to DEFAULT_SCORING_PROFILE)
  * @returns Normalized contract score (0-100)
  * @throws {InvalidInputError} If data validation fails
  *
@@ -390,52 +1534,67 @@ export function calculateEngagementScore(engagementData: EngagementMetrics): num
  *   autoRenewalEnabled: true
  * }); // Returns ~88
  */
-export function calculateContractScore(contractData: ContractInfo): number {
-  validateRequired(contractData, 'contractData');
-
-  const { daysUntilRenewal, contractValue, hasRecentUpgrades, autoRenewalEnabled } = contractData;
+export function calculateContractScore(
+  contractData: ContractInfo,
+  normalization: ContractNormalization = DEFAULT_SCORING_PROFILE.normalization.contract
+): number {
+  return evaluateContractFactor(contractData, normalization).score;
+}
 
-  // Validate required fields
-  validateRequired(daysUntilRenewal, 'daysUntilRenewal');
-  validateRequired(contractValue, 'contractValue');
-  validateRequired(hasRecentUpgrades, 'hasRecentUpgrades');
+/**
+ * Evaluate support components (see calculateSupportScore)
+ */
+function evaluateSupportFactor(
+  supportData: SupportData,
+  normalization: SupportNormalization
+): FactorEvaluation {
+  throwIfInvalid(collectFactorIssues(FACTOR_FIELD_RULES.support, supportData, 'support'));
 
-  validateFiniteNumber(daysUntilRenewal, 'daysUntilRenewal');
-  validateFiniteNumber(contractValue, 'contractValue');
-  validateNonNegative(contractValue, 'contractValue');
+  const { averageResolutionTimeHours, satisfactionScore, escalationCount, openTicketCount } = supportData;
 
-  // Validate optional fields if present
-  if (autoRenewalEnabled !== undefined && typeof autoRenewalEnabled !== 'boolean') {
-    throw new InvalidInputError('autoRenewalEnabled must be a boolean');
-  }
+  const { maxResolutionTimeHours, maxEscalationCount, maxOpenTicketCount } = normalization;
 
   // Calculate component scores
-  // Days until renewal: <30 = urgent, 30-180 = moderate, 180-360 = good, 360+ = excellent
-  let renewalScore: number;
-  if (daysUntilRenewal < 0) {
-    renewalScore = 0; // Expired contract
-  } else if (daysUntilRenewal < 30) {
-    renewalScore = normalizeToScore(daysUntilRenewal, 0, 30) * 0.5; // Critical period
-  } else if (daysUntilRenewal < 180) {
-    renewalScore = 50 + normalizeToScore(daysUntilRenewal - 30, 0, 150) * 0.3;
-  } else {
-    renewalScore = 80 + normalizeToScore(Math.min(daysUntilRenewal - 180, 180), 0, 180) * 0.2;
-  }
-
-  // Contract value: $0 = 0, $100k+ = 100 (higher value = more stable relationship)
-  const valueScore = normalizeToScore(Math.min(contractValue, 100000), 0, 100000);
+  // Resolution time: 0-24 hours = excellent, 24-72 = good, 72+ = concerning (default caps)
+  const resolutionScore = inverseNormalizeToScore(
+    Math.min(averageResolutionTimeHours, maxResolutionTimeHours), 0, maxResolutionTimeHours
+  );
 
-  // Recent upgrades: strong positive signal
-  const upgradeBonus = hasRecentUpgrades ? 15 : 0;
+  // Satisfaction: 1 = 0, 5 = 100 (linear scale)
+  const satisfactionScoreNormalized = normalizeToScore(satisfactionScore, 1, 5);
 
-  // Auto-renewal: confidence boost
-  const autoRenewalBonus = autoRenewalEnabled === true ? 10 : 0;
+  // Escalations: 0 = 100, 10+ = 0
+  const escalationScore = inverseNormalizeToScore(
+    Math.min(escalationCount, maxEscalationCount), 0, maxEscalationCount
+  );
 
-  // Weighted average with bonuses
-  const baseScore = (renewalScore * 0.5) + (valueScore * 0.5);
-  const finalScore = Math.min(100, baseScore + upgradeBonus + autoRenewalBonus);
+  // Open tickets: 0 = 100, 20+ = 0
+  const openTicketScore = inverseNormalizeToScore(
+    Math.min(openTicketCount, maxOpenTicketCount), 0, maxOpenTicketCount
+  );
 
-  return Math.round(clampScore(finalScore));
+  // Weighted average (satisfaction is most important)
+  const components = [
+    weightedComponent(
+      'averageResolutionTimeHours', 'Average resolution time', averageResolutionTimeHours, resolutionScore, 0.25,
+      `Average resolution time of ${formatCount(averageResolutionTimeHours, 'hour')}`
+    ),
+    weightedComponent(
+      'satisfactionScore', 'Satisfaction score', satisfactionScore, satisfactionScoreNormalized, 0.4,
+      `Satisfaction score of ${satisfactionScore}/5`
+    ),
+    weightedComponent(
+      'escalationCount', 'Escalations', escalationCount, escalationScore, 0.2,
+      formatCount(escalationCount, 'escalation')
+    ),
+    weightedComponent(
+      'openTicketCount', 'Open tickets', openTicketCount, openTicketScore, 0.15,
+      formatCount(openTicketCount, 'open ticket')
+    )
+  ];
+  const finalScore = sumWeightedComponents(components);
+
+  return { score: Math.round(clampScore(finalScore)), components };
 }
 
 /**
@@ -448,6 +1607,7 @@ export function calculateContractScore(contractData: ContractInfo): number {
  * - Open ticket count (lower = better)
  *
  * @param supportData - Support interaction data
+ * @param normalization - Normalization caps (defaults to DEFAULT_SCORING_PROFILE)
  * @returns Normalized support score (0-100)
  * @throws {InvalidInputError} If data validation fails
  *
@@ -459,57 +1619,403 @@ export function calculateContractScore(contractData: ContractInfo): number {
  *   openTicketCount: 2
  * }); // Returns ~82
  */
-export function calculateSupportScore(supportData: SupportData): number {
-  validateRequired(supportData, 'supportData');
+export function calculateSupportScore(
+  supportData: SupportData,
+  normalization: SupportNormalization = DEFAULT_SCORING_PROFILE.normalization.support
+): number {
+  return evaluateSupportFactor(supportData, normalization).score;
+}
 
-  const { averageResolutionTimeHours, satisfactionScore, escalationCount, openTicketCount } = supportData;
+// ============================================================================
+// Factor Registry
+// ============================================================================
 
-  // Validate required fields
-  validateRequired(averageResolutionTimeHours, 'averageResolutionTimeHours');
-  validateRequired(satisfactionScore, 'satisfactionScore');
-  validateRequired(escalationCount, 'escalationCount');
-  validateRequired(openTicketCount, 'openTicketCount');
+/** Keys of CustomerHealthData that cannot be used as factor keys */
+const RESERVED_FACTOR_KEYS = ['customerId', 'factors'];
 
-  validateFiniteNumber(averageResolutionTimeHours, 'averageResolutionTimeHours');
-  validateFiniteNumber(satisfactionScore, 'satisfactionScore');
-  validateFiniteNumber(escalationCount, 'escalationCount');
-  validateFiniteNumber(openTicketCount, 'openTicketCount');
+/**
+ * Built-in factors, scored with the profile's normalization caps
+ */
+export const BUILT_IN_FACTORS: readonly HealthFactorDefinition[] = [
+  {
+    key: 'payment',
+    label: 'Payment History',
+    defaultWeight: 0.4,
+    schema: FACTOR_FIELD_RULES.payment,
+    score: (input, profile) => evaluatePaymentFactor(input as PaymentHistory, profile.normalization.payment)
+  },
+  {
+    key: 'engagement',
+    label: 'Engagement',
+    defaultWeight: 0.3,
+    schema: FACTOR_FIELD_RULES.engagement,
+    score: (input, profile) =>
+      evaluateEngagementFactor(input as EngagementMetrics, profile.normalization.engagement)
+  },
+  {
+    key: 'contract',
+    label: 'Contract Status',
+    defaultWeight: 0.2,
+    schema: FACTOR_FIELD_RULES.contract,
+    score: (input, profile) => evaluateContractFactor(input as ContractInfo, profile.normalization.contract)
+  },
+  {
+    key: 'support',
+    label: 'Support Satisfaction',
+    defaultWeight: 0.1,
+    schema: FACTOR_FIELD_RULES.support,
+    score: (input, profile) => evaluateSupportFactor(input as SupportData, profile.normalization.support)
+  }
+];
 
-  validateNonNegative(averageResolutionTimeHours, 'averageResolutionTimeHours');
-  validateRange(satisfactionScore, 1, 5, 'satisfactionScore');
-  validateNonNegative(escalationCount, 'escalationCount');
-  validateNonNegative(openTicketCount, 'openTicketCount');
+/**
+ * Registry of scoring factors
+ *
+ * Scorers resolve their profile's weighted factors from a registry when
+ * they are created, so registering a factor later does not change
+ * existing scorers.
+ *
+ * @example
+ * healthFactors.register(npsFactor);
+ * const scorer = createHealthScorer({
+ *   ...DEFAULT_SCORING_PROFILE,
+ *   name: 'with-nps',
+ *   weights: healthFactors.defaultWeights()
+ * });
+ * scorer.calculate({ ...customerData, factors: { nps: { score: 42 } } });
+ */
+export class HealthFactorRegistry {
+  private readonly definitions = new Map<HealthFactor, HealthFactorDefinition>();
 
-  // Calculate component scores
-  // Resolution time: 0-24 hours = excellent, 24-72 = good, 72+ = concerning
-  const resolutionScore = inverseNormalizeToScore(Math.min(averageResolutionTimeHours, 72), 0, 72);
+  constructor(definitions: readonly HealthFactorDefinition[] = []) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
 
-  // Satisfaction: 1 = 0, 5 = 100 (linear scale)
-  const satisfactionScoreNormalized = normalizeToScore(satisfactionScore, 1, 5);
+  /**
+   * Register a factor
+   * @throws {InvalidInputError} If the definition is invalid or the key is taken
+   */
+  register<TInput>(definition: HealthFactorDefinition<TInput>): void {
+    const { key } = definition;
+    if (typeof key !== 'string' || key.trim() === '' || RESERVED_FACTOR_KEYS.includes(key)) {
+      throw invalidValue('factor.key', `factor.key must be a non-empty string other than ${RESERVED_FACTOR_KEYS.join(', ')}`, key);
+    }
+    if (this.definitions.has(key)) {
+      throw invalidValue('factor.key', `Factor '${key}' is already registered`, key);
+    }
+    validateRequired(definition.defaultWeight, `factors.${key}.defaultWeight`);
+    validateFiniteNumber(definition.defaultWeight, `factors.${key}.defaultWeight`);
+    validateRange(definition.defaultWeight, 0, 1, `factors.${key}.defaultWeight`);
+    if (!Array.isArray(definition.schema) || typeof definition.score !== 'function') {
+      throw invalidValue(`factors.${key}`, `Factor '${key}' must declare a schema and a score function`, definition);
+    }
 
-  // Escalations: 0 = 100, 10+ = 0
-  const escalationScore = inverseNormalizeToScore(Math.min(escalationCount, 10), 0, 10);
+    this.definitions.set(key, definition as HealthFactorDefinition);
+  }
 
-  // Open tickets: 0 = 100, 20+ = 0
-  const openTicketScore = inverseNormalizeToScore(Math.min(openTicketCount, 20), 0, 20);
+  /**
+   * Registered factor by key, or undefined
+   */
+  get(key: HealthFactor): HealthFactorDefinition | undefined {
+    return this.definitions.get(key);
+  }
 
-  // Weighted average (satisfaction is most important)
-  const finalScore = (resolutionScore * 0.25) +
-                     (satisfactionScoreNormalized * 0.4) +
-                     (escalationScore * 0.2) +
-                     (openTicketScore * 0.15);
+  /**
+   * Whether a factor is registered
+   */
+  has(key: HealthFactor): boolean {
+    return this.definitions.has(key);
+  }
+
+  /**
+   * All registered factors in registration order
+   */
+  list(): HealthFactorDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * Profile weights from the factors' default weights, scaled to sum to 1
+   *
+   * @param factors - Factors to include (defaults to every registered factor)
+   * @throws {InvalidInputError} If a factor is unregistered or the default weights sum to 0
+   */
+  defaultWeights(factors: readonly HealthFactor[] = [...this.definitions.keys()]): Record<HealthFactor, number> {
+    const definitions = factors.map(factor => {
+      const definition = this.definitions.get(factor);
+      if (!definition) {
+        throw invalidValue('factors', `Factor '${factor}' is not registered`, factor);
+      }
+      return definition;
+    });
+
+    const total = definitions.reduce((sum, definition) => sum + definition.defaultWeight, 0);
+    if (total <= 0) {
+      throw invalidValue('factors', 'Default weights of the selected factors sum to 0', factors);
+    }
+    return Object.fromEntries(definitions.map(definition => [definition.key, definition.defaultWeight / total]));
+  }
+}
+
+/**
+ * Registry used by default, pre-loaded with the built-in factors
+ */
+export const healthFactors = new HealthFactorRegistry(BUILT_IN_FACTORS);
+
+// ============================================================================
+// Versioning and Input Hashing
+// ============================================================================
+
+/**
+ * Version of the factor calculation code
+ *
+ * Bump whenever a factor formula changes in a way that can change a score,
+ * and register the previous implementation in scoringVersions so past
+ * results stay reproducible.
+ */
+export const HEALTH_ALGORITHM_VERSION = '1.0.0';
+
+/**
+ * JSON with object keys sorted and undefined values dropped
+ */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  const entries = Object.keys(value)
+    .sort()
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Stable hash of customer health input
+ *
+ * Key order and undefined fields do not affect the hash, so the same data
+ * always hashes the same across processes. Uses the 53-bit cyrb53 hash; it
+ * detects changed input but is not a cryptographic digest.
+ *
+ * @param customerData - Input passed to the calculator
+ * @returns 14-character hex hash
+ *
+ * @example
+ * hashHealthInput({ payment, engagement }) === hashHealthInput({ engagement, payment }); // true
+ */
+export function hashHealthInput(customerData: PartialCustomerHealthData): string {
+  return stableHash(customerData);
+}
+
+/**
+ * Stable hash of normalization caps, for versioning profiles derived from benchmarks
+ *
+ * @param normalization - Normalization caps
+ * @returns 14-character hex hash
+ */
+export function hashNormalizationProfile(normalization: NormalizationProfile): string {
+  return stableHash(normalization);
+}
 
-  return Math.round(clampScore(finalScore));
+/**
+ * cyrb53 hash of a value's canonical JSON
+ */
+function stableHash(value: unknown): string {
+  const text = canonicalJson(value);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(16).padStart(14, '0');
 }
 
 // ============================================================================
 // Main Health Score Calculator
 // ============================================================================
 
+/**
+ * Builds a factor score (with reasons) from an evaluation and its weight
+ */
+function toFactorScore(evaluation: FactorEvaluation, weight: number): FactorScore {
+  return {
+    score: evaluation.score,
+    weight,
+    weightedScore: evaluation.score * weight,
+    components: evaluation.components,
+    reasons: explainFactorComponents(evaluation.components)
+  };
+}
+
+/**
+ * Evaluate a single factor, guarding against out-of-range custom scores
+ * @throws {CalculationError} If the factor returns a score outside 0-100
+ */
+function evaluateFactor(
+  definition: HealthFactorDefinition,
+  input: unknown,
+  profile: ScoringProfile
+): FactorEvaluation {
+  const evaluation = definition.score(input, profile);
+  if (!Number.isFinite(evaluation.score) || evaluation.score < 0 || evaluation.score > 100) {
+    throw new CalculationError(`Factor '${definition.key}' returned invalid score ${evaluation.score}`);
+  }
+  return evaluation;
+}
+
+/**
+ * Calculate a health score with an already validated profile
+ */
+function scoreWithProfile(
+  customerData: PartialCustomerHealthData,
+  profile: ScoringProfile,
+  definitions: readonly HealthFactorDefinition[],
+  options: HealthScoreOptions
+): HealthScoreResult {
+  // Report every invalid field at once; in strict mode all factors are required
+  throwIfInvalid(validateCustomerHealthData(customerData, options, definitions));
+  const previousId = options.previousResult?.customerId;
+  if (previousId !== undefined && customerData.customerId !== undefined && previousId !== customerData.customerId) {
+    throw invalidValue(
+      'previousResult.customerId',
+      `previousResult belongs to customer ${previousId}, not ${customerData.customerId}`,
+      previousId
+    );
+  }
+
+  try {
+    const { weights } = profile;
+
+    // Determine which factors have data
+    const inputs = new Map<HealthFactor, unknown>();
+    for (const definition of definitions) {
+      const { value } = readFactorInput(customerData as Record<string, unknown>, definition.key);
+      if (value !== null && value !== undefined) {
+        inputs.set(definition.key, value);
+      }
+    }
+    const present = definitions.filter(definition => inputs.has(definition.key));
+    const missingFactors = definitions
+      .filter(definition => !inputs.has(definition.key))
+      .map(definition => definition.key);
+
+    // Weight backed by data; missing weight is redistributed across present factors
+    const confidence = present.reduce((sum, definition) => sum + weights[definition.key], 0);
+    if (present.length === 0 || confidence <= 0) {
+      throw invalidValue('', 'customerData must include at least one weighted factor', customerData);
+    }
+
+    // Calculate individual factor scores
+    const breakdown: HealthScoreResult['breakdown'] = {};
+    let weightedTotal = 0;
+    for (const definition of present) {
+      const { key } = definition;
+      const weight = missingFactors.length > 0 ? weights[key] / confidence : weights[key];
+      const factorScore = toFactorScore(evaluateFactor(definition, inputs.get(key), profile), weight);
+      breakdown[key] = factorScore;
+      weightedTotal += factorScore.weightedScore;
+    }
+
+    // Calculate overall score
+    const overallScore = Math.round(weightedTotal);
+
+    // Determine risk level, debounced against the previous result when requested
+    const calculatedAt = new Date();
+    const { previousResult } = options;
+    const transition = applyRiskHysteresis(
+      overallScore, previousResult, calculatedAt, profile.riskBands, options.hysteresis ?? NO_HYSTERESIS
+    );
+
+    // Build result object
+    const result: HealthScoreResult = {
+      overallScore,
+      riskLevel: transition.riskLevel,
+      riskLevelSince: transition.riskLevelSince,
+      ...(transition.riskLevel !== transition.bandRiskLevel && { bandRiskLevel: transition.bandRiskLevel }),
+      breakdown,
+      confidence: missingFactors.length > 0 ? confidence : 1,
+      missingFactors,
+      version: {
+        algorithm: HEALTH_ALGORITHM_VERSION,
+        profile: profile.name,
+        profileVersion: profile.version
+      },
+      inputHash: hashHealthInput(customerData),
+      calculatedAt,
+      customerId: customerData.customerId
+    };
+
+    return result;
+
+  } catch (error) {
+    if (error instanceof InvalidInputError) {
+      throw error;
+    }
+    throw new CalculationError(
+      `Failed to calculate health score: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Create a health scorer bound to a custom scoring profile
+ *
+ * The profile is validated once up front and its weighted factors are
+ * resolved from the registry; the returned scorer produces results with
+ * the same shape as calculateHealthScore.
+ *
+ * @param profile - Scoring profile (weights, risk bands, normalization caps)
+ * @param registry - Registry providing the weighted factors
+ * @returns Scorer that calculates health scores with the given profile
+ * @throws {InvalidInputError} If the profile is invalid
+ *
+ * @example
+ * const productLedScorer = createHealthScorer({
+ *   ...DEFAULT_SCORING_PROFILE,
+ *   name: 'product-led',
+ *   weights: { payment: 0.2, engagement: 0.5, contract: 0.1, support: 0.2 }
+ * });
+ * const result = productLedScorer.calculate(customerData);
+ */
+export function createHealthScorer(
+  profile: ScoringProfile,
+  registry: HealthFactorRegistry = healthFactors
+): HealthScorer {
+  validateScoringProfile(profile, registry);
+
+  // Copy so later mutations of the caller's object cannot bypass validation
+  const validatedProfile = structuredClone(profile);
+  const definitions = Object.keys(validatedProfile.weights).map(factor => registry.get(factor)!);
+
+  return {
+    profile: validatedProfile,
+    algorithmVersion: HEALTH_ALGORITHM_VERSION,
+    factors: definitions.map(definition => definition.key),
+    validate: (customerData: unknown, options: HealthScoreOptions = {}) =>
+      validateCustomerHealthData(customerData, options, definitions),
+    calculate: (customerData: PartialCustomerHealthData, options: HealthScoreOptions = {}) =>
+      scoreWithProfile(customerData, validatedProfile, definitions, options)
+  };
+}
+
+/**
+ * Scorer for the default profile, shared by calculateHealthScore
+ */
+const defaultScorer = createHealthScorer(DEFAULT_SCORING_PROFILE);
+
 /**
  * Calculate comprehensive customer health score
  *
- * Combines multiple factors with weighted averaging:
+ * Combines multiple factors with weighted averaging (DEFAULT_SCORING_PROFILE):
  * - Payment: 40% weight
  * - Engagement: 30% weight
  * - Contract: 20% weight
@@ -520,9 +2026,14 @@ export function calculateSupportScore(supportData: SupportData): number {
  * - Warning: 31-70 (yellow)
  * - Critical: 0-30 (red)
  *
- * @param customerData - Complete customer health data
+ * With `allowPartialData`, missing factors are skipped, their weight is
+ * redistributed across the present ones, and the result reports a
+ * `confidence` below 1 along with the `missingFactors`.
+ *
+ * @param customerData - Customer health data (complete unless allowPartialData is set)
+ * @param options - Calculation options
  * @returns Complete health score result with breakdown
- * @throws {InvalidInputError} If data validation fails
+ * @throws {InvalidInputError} If data validation fails or no factor has data
  * @throws {CalculationError} If calculation operations fail
  *
  * @example
@@ -553,91 +2064,11 @@ export function calculateSupportScore(supportData: SupportData): number {
  *   },
  *   customerId: 'CUST-001'
  * });
- * // Returns: { overallScore: 87, riskLevel: 'healthy', breakdown: {...}, ... }
+ * // Returns: { overallScore: 87, riskLevel: 'healthy', breakdown: {...}, confidence: 1, ... }
  */
-export function calculateHealthScore(customerData: CustomerHealthData): HealthScoreResult {
-  validateRequired(customerData, 'customerData');
-
-  try {
-    // Validate that all required sub-objects are present
-    validateRequired(customerData.payment, 'customerData.payment');
-    validateRequired(customerData.engagement, 'customerData.engagement');
-    validateRequired(customerData.contract, 'customerData.contract');
-    validateRequired(customerData.support, 'customerData.support');
-
-    // Calculate individual factor scores
-    const paymentScore = calculatePaymentScore(customerData.payment);
-    const engagementScore = calculateEngagementScore(customerData.engagement);
-    const contractScore = calculateContractScore(customerData.contract);
-    const supportScore = calculateSupportScore(customerData.support);
-
-    // Define weights (must sum to 1.0)
-    const WEIGHTS = {
-      payment: 0.4,
-      engagement: 0.3,
-      contract: 0.2,
-      support: 0.1
-    };
-
-    // Calculate weighted scores
-    const paymentWeighted = paymentScore * WEIGHTS.payment;
-    const engagementWeighted = engagementScore * WEIGHTS.engagement;
-    const contractWeighted = contractScore * WEIGHTS.contract;
-    const supportWeighted = supportScore * WEIGHTS.support;
-
-    // Calculate overall score
-    const overallScore = Math.round(
-      paymentWeighted + engagementWeighted + contractWeighted + supportWeighted
-    );
-
-    // Determine risk level
-    let riskLevel: RiskLevel;
-    if (overallScore >= 71) {
-      riskLevel = 'healthy';
-    } else if (overallScore >= 31) {
-      riskLevel = 'warning';
-    } else {
-      riskLevel = 'critical';
-    }
-
-    // Build result object
-    const result: HealthScoreResult = {
-      overallScore,
-      riskLevel,
-      breakdown: {
-        payment: {
-          score: paymentScore,
-          weight: WEIGHTS.payment,
-          weightedScore: paymentWeighted
-        },
-        engagement: {
-          score: engagementScore,
-          weight: WEIGHTS.engagement,
-          weightedScore: engagementWeighted
-        },
-        contract: {
-          score: contractScore,
-          weight: WEIGHTS.contract,
-          weightedScore: contractWeighted
-        },
-        support: {
-          score: supportScore,
-          weight: WEIGHTS.support,
-          weightedScore: supportWeighted
-        }
-      },
-      calculatedAt: new Date(),
-      customerId: customerData.customerId
-    };
-
-    return result;
-
-  } catch (error) {
-    if (error instanceof InvalidInputError) {
-      throw error;
-    }
-    throw new CalculationError(
-      `Failed to calculate health score: ${error instanceof Error ? error.message : 'Unknown error'}`
-    );
-  }
+export function calculateHealthScore(
+  customerData: PartialCustomerHealthData,
+  options: HealthScoreOptions = {}
+): HealthScoreResult {
+  return defaultScorer.calculate(customerData, options);
 }
@@ -0,0 +1,427 @@
+/**
+ * Health Export
+ *
+ * Exports customers with their current health score results as CSV or
+ * JSON, and renders a printable per-customer health report. Rows are
+ * scored and formatted lazily as async iterables, yielding to the event
+ * loop between chunks, so exports of thousands of customers stream to the
+ * client without holding the whole file in memory or blocking other
+ * requests.
+ *
+ * Server-only: reads from the customer repository.
+ *
+ * @module healthExport
+ */
+
+import type { Customer, SubscriptionTier } from '@/data/mock-customers';
+import { formatCsvRow, spreadsheetSafe } from '@/lib/csv';
+import type { CustomerRepository } from '@/lib/customerRepository';
+import {
+  calculateHealthScore,
+  CalculationError,
+  classifyRiskLevel,
+  healthFactors,
+  InvalidInputError,
+  type HealthScoreResult,
+  type PartialCustomerHealthData,
+  type RiskLevel
+} from '@/lib/healthCalculator';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Supported export file formats
+ */
+export type HealthExportFormat = 'csv' | 'json';
+
+/**
+ * Which customers to export
+ */
+export interface HealthExportFilter {
+  /** Only customers in these risk bands (all when empty) */
+  riskLevels: RiskLevel[];
+  /** Only customers on these tiers (all when empty) */
+  tiers: SubscriptionTier[];
+  /** Customer date the range applies to */
+  dateField: 'createdAt' | 'updatedAt';
+  /** Inclusive start of the date range */
+  from?: Date;
+  /** Inclusive end of the date range */
+  to?: Date;
+}
+
+/**
+ * One exported customer
+ */
+export interface HealthExportRow {
+  customer: Customer;
+  /** Current result; absent when the customer has no health data or scoring failed */
+  result?: HealthScoreResult;
+  /** Why scoring failed, if it did */
+  error?: string;
+}
+
+/**
+ * Options for scoring an export
+ */
+export interface HealthExportOptions {
+  /** Customers scored between yields to the event loop (default: 200) */
+  chunkSize?: number;
+}
+
+/** Filter that matches every customer */
+export const EMPTY_EXPORT_FILTER: HealthExportFilter = { riskLevels: [], tiers: [], dateField: 'updatedAt' };
+
+/** Default number of customers scored or formatted per chunk */
+const DEFAULT_CHUNK_SIZE = 200;
+
+/**
+ * Let other work run between chunks
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Check the filter's tier and date conditions, which need no scoring
+ */
+function matchesCustomerFilter(customer: Customer, filter: HealthExportFilter): boolean {
+  if (filter.tiers.length > 0 &&
+    (customer.subscriptionTier === undefined || !filter.tiers.includes(customer.subscriptionTier))) {
+    return false;
+  }
+  if (filter.from || filter.to) {
+    const value = customer[filter.dateField];
+    const time = value ? new Date(value).getTime() : NaN;
+    if (Number.isNaN(time)) return false;
+    if (filter.from && time < filter.from.getTime()) return false;
+    if (filter.to && time > filter.to.getTime()) return false;
+  }
+  return true;
+}
+
+/**
+ * Score a customer's stored health data for an export row or report
+ *
+ * Data that fails validation or calculation yields a row with the error
+ * instead of throwing, so the stored healthScore is shown in its place.
+ *
+ * @param customer - Customer the data belongs to
+ * @param healthData - Stored health data, if any
+ * @returns Row with the result, the scoring error, or neither when there is no data
+ */
+export function scoreHealthExportRow(
+  customer: Customer,
+  healthData: PartialCustomerHealthData | undefined
+): HealthExportRow {
+  if (!healthData) {
+    return { customer };
+  }
+  try {
+    return { customer, result: calculateHealthScore(healthData, { allowPartialData: true }) };
+  } catch (error) {
+    if (!(error instanceof InvalidInputError) && !(error instanceof CalculationError)) throw error;
+    return { customer, error: error.message };
+  }
+}
+
+/**
+ * Score the customers matching a filter, one at a time
+ *
+ * Scores are calculated from the stored health data with partial data
+ * allowed. Customers without health data (or whose data fails to score)
+ * are still exported, with their risk band taken from the stored
+ * healthScore. Customers are ordered by ID.
+ *
+ * @param repository - Customer store to read from
+ * @param filter - Which customers to export
+ * @param options - Chunk size
+ * @returns Rows in ID order
+ */
+export async function* scoreCustomersForExport(
+  repository: CustomerRepository,
+  filter: HealthExportFilter = EMPTY_EXPORT_FILTER,
+  options: HealthExportOptions = {}
+): AsyncGenerator<HealthExportRow> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const customers = (await repository.list())
+    .filter(customer => matchesCustomerFilter(customer, filter))
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  for (let i = 0; i < customers.length; i++) {
+    if (i > 0 && i % chunkSize === 0) {
+      await yieldToEventLoop();
+    }
+
+    const customer = customers[i];
+    const row = scoreHealthExportRow(customer, await repository.getHealthData(customer.id));
+
+    const riskLevel = row.result?.riskLevel ?? classifyRiskLevel(customer.healthScore);
+    if (filter.riskLevels.length === 0 || filter.riskLevels.includes(riskLevel)) {
+      yield row;
+    }
+  }
+}
+
+// ============================================================================
+// CSV and JSON Formatting
+// ============================================================================
+
+/**
+ * Format export rows as CSV, one header line and then one line per customer
+ *
+ * Columns: customer fields, the stored healthScore, the calculated score,
+ * risk level and confidence, one `<factor>Score` column per registered
+ * factor (empty when the factor is missing), missing factors
+ * (semicolon-separated), calculatedAt and any scoring error. Text cells
+ * starting with a formula character are prefixed with an apostrophe.
+ *
+ * @param rows - Rows to format
+ * @param options - Chunk size (rows per yielded string)
+ * @returns CSV text in chunks
+ *
+ * @example
+ * for await (const chunk of formatHealthExportCsv(scoreCustomersForExport(repository))) {
+ *   stream.write(chunk);
+ * }
+ */
+export async function* formatHealthExportCsv(
+  rows: AsyncIterable<HealthExportRow>,
+  options: HealthExportOptions = {}
+): AsyncGenerator<string> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const factors = healthFactors.list().map(definition => definition.key);
+
+  let chunk = formatCsvRow([
+    'customerId', 'name', 'company', 'email', 'subscriptionTier', 'storedHealthScore',
+    'overallScore', 'riskLevel', 'confidence', ...factors.map(factor => `${factor}Score`),
+    'missingFactors', 'calculatedAt', 'error'
+  ]);
+  let count = 0;
+
+  for await (const { customer, result, error } of rows) {
+    chunk += formatCsvRow([
+      spreadsheetSafe(customer.id),
+      spreadsheetSafe(customer.name),
+      spreadsheetSafe(customer.company),
+      spreadsheetSafe(customer.email),
+      customer.subscriptionTier,
+      customer.healthScore,
+      result?.overallScore,
+      result?.riskLevel ?? classifyRiskLevel(customer.healthScore),
+      result?.confidence,
+      ...factors.map(factor => result?.breakdown[factor]?.score),
+      result?.missingFactors.join(';'),
+      result?.calculatedAt.toISOString(),
+      error
+    ]);
+    if (++count % chunkSize === 0) {
+      yield chunk;
+      chunk = '';
+    }
+  }
+  yield chunk;
+}
+
+/**
+ * JSON shape of one exported customer
+ */
+function toJsonRecord({ customer, result, error }: HealthExportRow): Record<string, unknown> {
+  return {
+    customer,
+    health: result
+      ? {
+        overallScore: result.overallScore,
+        riskLevel: result.riskLevel,
+        riskLevelSince: result.riskLevelSince,
+        confidence: result.confidence,
+        factors: Object.fromEntries(Object.entries(result.breakdown).map(([factor, score]) => [
+          factor,
+          { score: score!.score, weight: score!.weight, weightedScore: score!.weightedScore, reasons: score!.reasons }
+        ])),
+        missingFactors: result.missingFactors,
+        version: result.version,
+        calculatedAt: result.calculatedAt
+      }
+      : null,
+    riskLevel: result?.riskLevel ?? classifyRiskLevel(customer.healthScore),
+    ...(error !== undefined && { error })
+  };
+}
+
+/**
+ * Format export rows as a JSON array
+ *
+ * Each element has the customer, its `health` result summary (overall
+ * score, risk level, confidence, per-factor scores and reasons, version,
+ * calculatedAt; null without health data), the effective `riskLevel` and
+ * any scoring `error`.
+ *
+ * @param rows - Rows to format
+ * @param options - Chunk size (rows per yielded string)
+ * @returns JSON text in chunks
+ */
+export async function* formatHealthExportJson(
+  rows: AsyncIterable<HealthExportRow>,
+  options: HealthExportOptions = {}
+): AsyncGenerator<string> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  let chunk = '[';
+  let count = 0;
+
+  for await (const row of rows) {
+    chunk += (count > 0 ? ',\n' : '\n') + JSON.stringify(toJsonRecord(row));
+    if (++count % chunkSize === 0) {
+      yield chunk;
+      chunk = '';
+    }
+  }
+  yield chunk + (count > 0 ? '\n]\n' : ']\n');
+}
+
+/**
+ * Wrap text chunks in a byte stream for a streaming Response
+ *
+ * Chunks are pulled on demand, so a slow client slows the export rather
+ * than buffering it.
+ *
+ * @param chunks - Text chunks
+ * @returns UTF-8 byte stream
+ */
+export function toByteStream(chunks: AsyncIterable<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else if (value !== '') {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+    async cancel() {
+      await iterator.return?.(undefined);
+    }
+  });
+}
+
+// ============================================================================
+// Printable Report
+// ============================================================================
+
+const RISK_COLORS: Record<RiskLevel, string> = {
+  healthy: '#15803d',
+  warning: '#a16207',
+  critical: '#b91c1c'
+};
+
+/**
+ * Escape text for HTML element and attribute content
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a customer's health report as a standalone printable HTML page
+ *
+ * The page has the customer details, overall score and risk level, a
+ * factor breakdown (score, weight, contribution and reasons) and any
+ * missing factors. Styles are inline and tuned for print, so the browser's
+ * "Save as PDF" produces the PDF version of the report. Like the export,
+ * a customer without a result (no health data, or data that could not be
+ * scored) is reported with the stored score and a note saying why.
+ *
+ * @param row - Customer with its current result or scoring error (see scoreHealthExportRow)
+ * @param generatedAt - Report timestamp (default: now)
+ * @returns Complete HTML document
+ */
+export function renderHealthReportHtml({ customer, result, error }: HealthExportRow, generatedAt = new Date()): string {
+  const score = result?.overallScore ?? customer.healthScore;
+  const riskLevel = result?.riskLevel ?? classifyRiskLevel(customer.healthScore);
+  const details = [
+    ['Customer ID', customer.id],
+    ['Email', customer.email],
+    ['Subscription tier', customer.subscriptionTier],
+    ['Domains', customer.domains?.join(', ')],
+    ['Customer since', customer.createdAt?.slice(0, 10)]
+  ].filter((entry): entry is [string, string] => Boolean(entry[1]));
+
+  const factorRows = result
+    ? Object.entries(result.breakdown).map(([factor, factorScore]) => `
+        <tr>
+          <td>${escapeHtml(healthFactors.get(factor)?.label ?? factor)}</td>
+          <td class="num">${factorScore!.score}</td>
+          <td class="num">${Math.round(factorScore!.weight * 100)}%</td>
+          <td class="num">${factorScore!.weightedScore.toFixed(1)}</td>
+          <td>${factorScore!.reasons.length > 0
+            ? `<ul>${factorScore!.reasons.map(reason => `<li>${escapeHtml(reason)}</li>`).join('')}</ul>`
+            : '—'}</td>
+        </tr>`).join('')
+    : '';
+
+  const breakdown = result
+    ? `
+      <h2>Factor breakdown</h2>
+      <table>
+        <thead><tr><th>Factor</th><th>Score</th><th>Weight</th><th>Contribution</th><th>Reasons</th></tr></thead>
+        <tbody>${factorRows}</tbody>
+      </table>
+      ${result.missingFactors.length > 0
+        ? `<p class="note">No data for ${escapeHtml(result.missingFactors.join(', '))}; ` +
+          `the score is based on ${Math.round(result.confidence * 100)}% of the scoring weight.</p>`
+        : ''}
+      <p class="meta">Calculated ${escapeHtml(result.calculatedAt.toISOString())} with algorithm ` +
+        `${escapeHtml(result.version.algorithm)}, profile ${escapeHtml(result.version.profile)} ` +
+        `${escapeHtml(result.version.profileVersion)}.</p>`
+    : error
+      ? `<p class="note">The health data could not be scored (${escapeHtml(error)}); ` +
+        'the stored health score is shown.</p>'
+      : '<p class="note">No health data is stored for this customer; the stored health score is shown.</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Health report: ${escapeHtml(customer.company)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111827; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+    h1 { margin-bottom: 0.25rem; }
+    h2 { margin-top: 2rem; font-size: 1.1rem; }
+    .subtitle, .meta { color: #4b5563; }
+    .score { font-size: 3rem; font-weight: 700; color: ${RISK_COLORS[riskLevel]}; }
+    .risk { text-transform: uppercase; font-weight: 600; color: ${RISK_COLORS[riskLevel]}; }
+    dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+    dt { color: #4b5563; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+    th, td { text-align: left; vertical-align: top; border-bottom: 1px solid #e5e7eb; padding: 0.4rem; }
+    td.num { text-align: right; white-space: nowrap; }
+    ul { margin: 0; padding-left: 1.1rem; }
+    .note { background: #fef3c7; padding: 0.5rem 0.75rem; border-radius: 4px; }
+    .print { margin-top: 2rem; }
+    @media print { .print { display: none; } body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(customer.company)}</h1>
+  <p class="subtitle">${escapeHtml(customer.name)} · Health report generated ${escapeHtml(generatedAt.toISOString())}</p>
+  <p><span class="score">${score}</span> <span class="risk">${riskLevel}</span></p>
+  <dl>${details.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>
+  ${breakdown}
+  <button class="print" onclick="window.print()">Print or save as PDF</button>
+</body>
+</html>
+`;
+}
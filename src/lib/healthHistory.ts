@@ -0,0 +1,378 @@
+/**
+ * Health Score History
+ *
+ * Stores per-customer series of health score results and derives trend
+ * metrics from them: 7-day and 30-day deltas, slope, volatility and the
+ * largest single-factor drop. Each customer is classified as improving,
+ * stable or declining.
+ *
+ * @module healthHistory
+ */
+
+import {
+  InvalidInputError,
+  type HealthFactor,
+  type HealthScoreResult
+} from '@/lib/healthCalculator';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Direction a customer's health is moving
+ */
+export type HealthTrendDirection = 'improving' | 'stable' | 'declining';
+
+/**
+ * Largest drop of a single factor score within the trend window
+ */
+export interface FactorDrop {
+  /** Factor whose score dropped */
+  factor: HealthFactor;
+  /** Points lost from the factor's peak to its subsequent low */
+  drop: number;
+  /** When the factor was at its peak */
+  from: Date;
+  /** When the factor reached its low */
+  to: Date;
+}
+
+/**
+ * Trend metrics for one customer
+ */
+export interface HealthTrend {
+  /** Customer the trend belongs to */
+  customerId: string;
+  /** Most recent overall score */
+  latestScore: number;
+  /** Number of results inside the trend window */
+  sampleCount: number;
+  /** Change in overall score over the last 7 days (null without an earlier sample) */
+  delta7d: number | null;
+  /** Change in overall score over the last 30 days (null without an earlier sample) */
+  delta30d: number | null;
+  /** Least-squares slope of the overall score, in points per day */
+  slopePerDay: number;
+  /** Standard deviation of the overall score within the window */
+  volatility: number;
+  /** Largest peak-to-trough drop of any single factor within the window */
+  largestFactorDrop: FactorDrop | null;
+  /** Whether the score dropped by more than the sharp-decline threshold in 7 days */
+  sharpDecline: boolean;
+  /** Trend classification */
+  direction: HealthTrendDirection;
+}
+
+/**
+ * Options for trend calculation
+ */
+export interface HealthTrendOptions {
+  /** Point in time the trend is computed for (defaults to now) */
+  asOf?: Date;
+  /** Window used for slope, volatility and factor drops, in days (default 30) */
+  windowDays?: number;
+  /** Projected change over the window, in points, still considered stable (default 5) */
+  stableThreshold?: number;
+  /** 7-day drop, in points, that counts as a sharp decline (default 20) */
+  sharpDeclineThreshold?: number;
+}
+
+/**
+ * Options for the history store
+ */
+export interface HealthScoreHistoryOptions {
+  /** Maximum results kept per customer; oldest are dropped first (default unlimited) */
+  maxEntriesPerCustomer?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Default trend window in days */
+export const DEFAULT_TREND_WINDOW_DAYS = 30;
+
+/** Default projected change (points) that still counts as stable */
+export const DEFAULT_STABLE_THRESHOLD = 5;
+
+/** Drop of more than this many points in 7 days is a sharp decline */
+export const SHARP_DECLINE_POINTS = 20;
+
+// ============================================================================
+// Trend Utilities
+// ============================================================================
+
+/**
+ * Returns the result to compare the latest one against for an N-day delta
+ *
+ * Uses the most recent result at or before the start of the period; if the
+ * series starts inside the period, falls back to its earliest result.
+ */
+function findBaseline(
+  series: HealthScoreResult[],
+  latest: HealthScoreResult,
+  periodStart: number
+): HealthScoreResult | null {
+  let baseline: HealthScoreResult | null = null;
+  for (const result of series) {
+    if (result.calculatedAt.getTime() <= periodStart) {
+      baseline = result;
+    }
+  }
+  if (!baseline) {
+    baseline = series[0];
+  }
+  return baseline === latest ? null : baseline;
+}
+
+/**
+ * Least-squares slope of score against time, in points per day
+ */
+function calculateSlope(series: HealthScoreResult[]): number {
+  if (series.length < 2) return 0;
+
+  const origin = series[0].calculatedAt.getTime();
+  const xs = series.map(result => (result.calculatedAt.getTime() - origin) / MS_PER_DAY);
+  const ys = series.map(result => result.overallScore);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let covariance = 0;
+  let varianceX = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+  }
+
+  return varianceX === 0 ? 0 : covariance / varianceX;
+}
+
+/**
+ * Population standard deviation of the overall scores
+ */
+function calculateVolatility(series: HealthScoreResult[]): number {
+  if (series.length < 2) return 0;
+
+  const scores = series.map(result => result.overallScore);
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const variance = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Largest peak-to-trough drop of any single factor (peak before trough)
+ */
+function findLargestFactorDrop(series: HealthScoreResult[]): FactorDrop | null {
+  let largest: FactorDrop | null = null;
+  const factors = new Set(series.flatMap(result => Object.keys(result.breakdown)));
+
+  for (const factor of factors) {
+    let peak: { score: number; at: Date } | null = null;
+
+    for (const result of series) {
+      const factorScore = result.breakdown[factor];
+      if (!factorScore) continue;
+
+      if (!peak || factorScore.score > peak.score) {
+        peak = { score: factorScore.score, at: result.calculatedAt };
+        continue;
+      }
+
+      const drop = peak.score - factorScore.score;
+      if (drop > 0 && (!largest || drop > largest.drop)) {
+        largest = { factor, drop, from: peak.at, to: result.calculatedAt };
+      }
+    }
+  }
+
+  return largest;
+}
+
+/**
+ * Calculate trend metrics for a customer's result series
+ *
+ * The series may be in any order; results after `asOf` are ignored.
+ * Direction is based on the slope projected over the window: beyond
+ * +/- stableThreshold points it is improving or declining. A sharp 7-day
+ * decline always classifies as declining.
+ *
+ * @param series - Health score results for a single customer
+ * @param options - Trend options
+ * @returns Trend metrics
+ * @throws {InvalidInputError} If the series is empty or mixes customers
+ *
+ * @example
+ * const trend = calculateHealthTrend(history.getSeries('3'));
+ * if (trend.sharpDecline) {
+ *   // Score dropped more than 20 points in 7 days
+ * }
+ */
+export function calculateHealthTrend(
+  series: HealthScoreResult[],
+  options: HealthTrendOptions = {}
+): HealthTrend {
+  const {
+    asOf = new Date(),
+    windowDays = DEFAULT_TREND_WINDOW_DAYS,
+    stableThreshold = DEFAULT_STABLE_THRESHOLD,
+    sharpDeclineThreshold = SHARP_DECLINE_POINTS
+  } = options;
+
+  const asOfTime = asOf.getTime();
+  const sorted = series
+    .filter(result => result.calculatedAt.getTime() <= asOfTime)
+    .sort((a, b) => a.calculatedAt.getTime() - b.calculatedAt.getTime());
+
+  if (sorted.length === 0) {
+    throw new InvalidInputError('series must contain at least one result on or before asOf');
+  }
+
+  const customerId = sorted[0].customerId ?? '';
+  if (sorted.some(result => (result.customerId ?? '') !== customerId)) {
+    throw new InvalidInputError('series must contain results for a single customer');
+  }
+
+  const latest = sorted[sorted.length - 1];
+  const baseline7d = findBaseline(sorted, latest, asOfTime - 7 * MS_PER_DAY);
+  const baseline30d = findBaseline(sorted, latest, asOfTime - 30 * MS_PER_DAY);
+  const delta7d = baseline7d ? latest.overallScore - baseline7d.overallScore : null;
+  const delta30d = baseline30d ? latest.overallScore - baseline30d.overallScore : null;
+
+  const windowStart = asOfTime - windowDays * MS_PER_DAY;
+  const windowSeries = sorted.filter(result => result.calculatedAt.getTime() >= windowStart);
+
+  const slopePerDay = calculateSlope(windowSeries);
+  const sharpDecline = delta7d !== null && delta7d < -sharpDeclineThreshold;
+
+  const projectedChange = slopePerDay * windowDays;
+  let direction: HealthTrendDirection;
+  if (sharpDecline || projectedChange <= -stableThreshold) {
+    direction = 'declining';
+  } else if (projectedChange >= stableThreshold) {
+    direction = 'improving';
+  } else {
+    direction = 'stable';
+  }
+
+  return {
+    customerId,
+    latestScore: latest.overallScore,
+    sampleCount: windowSeries.length,
+    delta7d,
+    delta30d,
+    slopePerDay,
+    volatility: calculateVolatility(windowSeries),
+    largestFactorDrop: findLargestFactorDrop(windowSeries),
+    sharpDecline,
+    direction
+  };
+}
+
+// ============================================================================
+// History Store
+// ============================================================================
+
+/**
+ * In-memory store of health score results, keyed by customer
+ *
+ * @example
+ * const history = new HealthScoreHistory();
+ * history.record(calculateHealthScore(customerData));
+ * const trend = history.calculateTrend('1');
+ */
+export class HealthScoreHistory {
+  private readonly series = new Map<string, HealthScoreResult[]>();
+  private readonly maxEntriesPerCustomer: number;
+
+  constructor(options: HealthScoreHistoryOptions = {}) {
+    this.maxEntriesPerCustomer = options.maxEntriesPerCustomer ?? Infinity;
+  }
+
+  /**
+   * Record a result in its customer's series (kept in chronological order)
+   * @throws {InvalidInputError} If the result has no customerId
+   */
+  record(result: HealthScoreResult): void {
+    if (!result.customerId) {
+      throw new InvalidInputError('result.customerId is required to record history');
+    }
+
+    const series = this.series.get(result.customerId) ?? [];
+    const time = result.calculatedAt.getTime();
+    let index = series.length;
+    while (index > 0 && series[index - 1].calculatedAt.getTime() > time) {
+      index--;
+    }
+    series.splice(index, 0, result);
+
+    if (series.length > this.maxEntriesPerCustomer) {
+      series.splice(0, series.length - this.maxEntriesPerCustomer);
+    }
+    this.series.set(result.customerId, series);
+  }
+
+  /**
+   * Chronological results for a customer (empty if none recorded)
+   */
+  getSeries(customerId: string): HealthScoreResult[] {
+    return [...(this.series.get(customerId) ?? [])];
+  }
+
+  /**
+   * Most recent result for a customer, e.g. as previousResult for hysteresis
+   */
+  getLatest(customerId: string): HealthScoreResult | undefined {
+    const series = this.series.get(customerId);
+    return series ? series[series.length - 1] : undefined;
+  }
+
+  /**
+   * IDs of all customers with recorded results
+   */
+  getCustomerIds(): string[] {
+    return [...this.series.keys()];
+  }
+
+  /**
+   * Trend metrics for a customer, or null if nothing was recorded
+   */
+  calculateTrend(customerId: string, options: HealthTrendOptions = {}): HealthTrend | null {
+    const series = this.series.get(customerId);
+    if (!series || series.length === 0) {
+      return null;
+    }
+    const asOf = options.asOf ?? new Date();
+    if (series[0].calculatedAt.getTime() > asOf.getTime()) {
+      return null;
+    }
+    return calculateHealthTrend(series, { ...options, asOf });
+  }
+
+  /**
+   * Trend metrics for every customer with results on or before asOf
+   */
+  calculateAllTrends(options: HealthTrendOptions = {}): HealthTrend[] {
+    const trends: HealthTrend[] = [];
+    for (const customerId of this.series.keys()) {
+      const trend = this.calculateTrend(customerId, options);
+      if (trend) {
+        trends.push(trend);
+      }
+    }
+    return trends;
+  }
+
+  /**
+   * Remove a customer's history, or all history when no ID is given
+   */
+  clear(customerId?: string): void {
+    if (customerId === undefined) {
+      this.series.clear();
+    } else {
+      this.series.delete(customerId);
+    }
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * Health Score Simulator
+ *
+ * What-if analysis around the health score calculator: apply hypothetical
+ * changes to a customer's data and compare the resulting score and risk
+ * level, or search for the smallest set of recovery actions that moves a
+ * warning or critical customer into the healthy band.
+ *
+ * @module healthSimulator
+ */
+
+import {
+  calculateHealthScore,
+  InvalidInputError,
+  DEFAULT_SCORING_PROFILE,
+  type CustomerHealthData,
+  type BuiltInHealthFactor,
+  type HealthScorer,
+  type HealthScoreResult,
+  type PartialCustomerHealthData,
+  type RiskLevel
+} from '@/lib/healthCalculator';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A hypothetical change to one field of one factor
+ *
+ * Use `set` to replace the value or `adjustBy` to add to a numeric value.
+ *
+ * @example
+ * { factor: 'payment', field: 'overdueAmount', set: 0 }
+ * { factor: 'engagement', field: 'loginsPerMonth', adjustBy: 20 }
+ */
+export type HealthScenarioChange = {
+  [F in BuiltInHealthFactor]: {
+    factor: F;
+    field: keyof CustomerHealthData[F] & string;
+    set?: number | boolean;
+    adjustBy?: number;
+  };
+}[BuiltInHealthFactor];
+
+/**
+ * Outcome of a what-if simulation
+ */
+export interface SimulationResult {
+  /** Score with the customer's current data */
+  baseline: HealthScoreResult;
+  /** Score with the changes applied */
+  simulated: HealthScoreResult;
+  /** Simulated minus baseline overall score */
+  scoreChange: number;
+  /** Whether the changes move the customer into another risk level */
+  riskLevelChanged: boolean;
+}
+
+/**
+ * A recovery action a CSM can pursue with the customer
+ */
+export interface RecoveryAction {
+  /** Stable identifier (e.g., 'clear-overdue-balance') */
+  id: string;
+  /** Short human-readable label */
+  label: string;
+  /** Relative effort from 1 (quick win) to 5 (major initiative) */
+  effort: number;
+  /** Changes the action represents for this customer */
+  changes: HealthScenarioChange[];
+}
+
+/**
+ * Definition of a recovery action; produces customer-specific changes
+ */
+export interface RecoveryActionDefinition {
+  id: string;
+  label: string;
+  effort: number;
+  /** Changes for the given customer, or null if the action does not apply */
+  buildChanges(customerData: PartialCustomerHealthData): HealthScenarioChange[] | null;
+}
+
+/**
+ * Effect of a single action on its own
+ */
+export interface RankedRecoveryAction {
+  action: RecoveryAction;
+  scoreChange: number;
+  simulatedScore: number;
+  simulatedRiskLevel: RiskLevel;
+}
+
+/**
+ * A set of actions and the score it leads to
+ */
+export interface RecoveryPlan {
+  actions: RecoveryAction[];
+  totalEffort: number;
+  simulatedScore: number;
+  simulatedRiskLevel: RiskLevel;
+}
+
+/**
+ * Result of the path-to-healthy search
+ */
+export interface PathToHealthy {
+  /** 'already-healthy' if no action is needed, 'unreachable' if no plan within maxActions reaches the target */
+  status: 'already-healthy' | 'reachable' | 'unreachable';
+  /** Current overall score */
+  currentScore: number;
+  /** Score needed to reach the healthy band */
+  targetScore: number;
+  /** Smallest plans that reach the target, lowest effort first; the best partial plan if unreachable */
+  plans: RecoveryPlan[];
+  /** Every applicable action ranked by its individual score gain */
+  rankedActions: RankedRecoveryAction[];
+}
+
+/**
+ * Options shared by the simulation functions
+ */
+export interface SimulationOptions {
+  /** Scorer to use instead of the default profile */
+  scorer?: HealthScorer;
+}
+
+/**
+ * Options for the path-to-healthy search
+ */
+export interface PathToHealthyOptions extends SimulationOptions {
+  /** Largest number of actions combined in a plan (default 5) */
+  maxActions?: number;
+  /** Maximum number of plans returned (default 5) */
+  maxPlans?: number;
+  /** Action catalog to search (defaults to DEFAULT_RECOVERY_ACTIONS) */
+  actions?: RecoveryActionDefinition[];
+}
+
+// ============================================================================
+// Recovery Action Catalog
+// ============================================================================
+
+/**
+ * Default recovery actions available to CSMs
+ */
+export const DEFAULT_RECOVERY_ACTIONS: RecoveryActionDefinition[] = [
+  {
+    id: 'clear-overdue-balance',
+    label: 'Collect the overdue balance',
+    effort: 2,
+    buildChanges: data => (data.payment && data.payment.overdueAmount > 0
+      ? [{ factor: 'payment', field: 'overdueAmount', set: 0 }]
+      : null)
+  },
+  {
+    id: 'bring-payments-current',
+    label: 'Get a payment in this month',
+    effort: 2,
+    buildChanges: data => (data.payment && data.payment.daysSinceLastPayment > 0
+      ? [{ factor: 'payment', field: 'daysSinceLastPayment', set: 0 }]
+      : null)
+  },
+  {
+    id: 'shorten-payment-terms',
+    label: 'Agree on prompt payment (cut delay by 10 days)',
+    effort: 3,
+    buildChanges: data => (data.payment && data.payment.averagePaymentDelay > 0
+      ? [{ factor: 'payment', field: 'averagePaymentDelay', set: Math.max(0, data.payment.averagePaymentDelay - 10) }]
+      : null)
+  },
+  {
+    id: 'drive-logins',
+    label: 'Run an adoption campaign (+20 logins/month)',
+    effort: 3,
+    buildChanges: data => (data.engagement
+      ? [{ factor: 'engagement', field: 'loginsPerMonth', adjustBy: 20 }]
+      : null)
+  },
+  {
+    id: 'feature-enablement',
+    label: 'Hold a feature enablement session (+5 features)',
+    effort: 3,
+    buildChanges: data => (data.engagement
+      ? [{ factor: 'engagement', field: 'featureUsageCount', adjustBy: 5 }]
+      : null)
+  },
+  {
+    id: 'expand-seats',
+    label: 'Onboard more users (+5 active users)',
+    effort: 4,
+    buildChanges: data => (data.engagement
+      ? [{ factor: 'engagement', field: 'activeUserCount', set: (data.engagement.activeUserCount ?? 0) + 5 }]
+      : null)
+  },
+  {
+    id: 'enable-auto-renewal',
+    label: 'Switch the contract to auto-renewal',
+    effort: 1,
+    buildChanges: data => (data.contract && data.contract.autoRenewalEnabled !== true
+      ? [{ factor: 'contract', field: 'autoRenewalEnabled', set: true }]
+      : null)
+  },
+  {
+    id: 'early-renewal',
+    label: 'Negotiate an early renewal (12 more months)',
+    effort: 4,
+    buildChanges: data => (data.contract && data.contract.daysUntilRenewal < 365
+      ? [{ factor: 'contract', field: 'daysUntilRenewal', set: 365 }]
+      : null)
+  },
+  {
+    id: 'upsell',
+    label: 'Close an upgrade or add-on',
+    effort: 5,
+    buildChanges: data => (data.contract && !data.contract.hasRecentUpgrades
+      ? [{ factor: 'contract', field: 'hasRecentUpgrades', set: true }]
+      : null)
+  },
+  {
+    id: 'clear-ticket-backlog',
+    label: 'Clear the open ticket backlog',
+    effort: 2,
+    buildChanges: data => (data.support && data.support.openTicketCount > 0
+      ? [{ factor: 'support', field: 'openTicketCount', set: 0 }]
+      : null)
+  },
+  {
+    id: 'prioritize-support',
+    label: 'Assign priority support (halve resolution time)',
+    effort: 2,
+    buildChanges: data => (data.support && data.support.averageResolutionTimeHours > 1
+      ? [{ factor: 'support', field: 'averageResolutionTimeHours', set: data.support.averageResolutionTimeHours / 2 }]
+      : null)
+  },
+  {
+    id: 'executive-check-in',
+    label: 'Executive check-in to address satisfaction (+1 CSAT)',
+    effort: 3,
+    buildChanges: data => (data.support && data.support.satisfactionScore < 5
+      ? [{ factor: 'support', field: 'satisfactionScore', set: Math.min(5, data.support.satisfactionScore + 1) }]
+      : null)
+  }
+];
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Score data with the given scorer or the default profile
+ */
+function score(customerData: PartialCustomerHealthData, options: SimulationOptions): HealthScoreResult {
+  return options.scorer
+    ? options.scorer.calculate(customerData, { allowPartialData: true })
+    : calculateHealthScore(customerData, { allowPartialData: true });
+}
+
+/**
+ * Apply hypothetical changes to a copy of the customer's data
+ *
+ * @param customerData - Current health data (not modified)
+ * @param changes - Changes to apply, in order
+ * @returns Updated copy of the data
+ * @throws {InvalidInputError} If a change targets a missing factor or misuses adjustBy
+ */
+export function applyHealthDataChanges<T extends PartialCustomerHealthData>(
+  customerData: T,
+  changes: HealthScenarioChange[]
+): T {
+  const updated: T = { ...customerData };
+
+  for (const change of changes) {
+    const path = `${change.factor}.${change.field}`;
+    const current = updated[change.factor] as Record<string, unknown> | undefined;
+    if (!current) {
+      throw new InvalidInputError(`Cannot change ${path}: no ${change.factor} data`);
+    }
+
+    const next = { ...current };
+    if (change.set !== undefined) {
+      next[change.field] = change.set;
+    } else if (change.adjustBy !== undefined) {
+      const value = next[change.field] ?? 0;
+      if (typeof value !== 'number') {
+        throw new InvalidInputError(`Cannot adjust ${path}: not a number`);
+      }
+      next[change.field] = Math.max(0, value + change.adjustBy);
+    } else {
+      throw new InvalidInputError(`Change to ${path} must specify set or adjustBy`);
+    }
+
+    (updated as Record<string, unknown>)[change.factor] = next;
+  }
+
+  return updated;
+}
+
+/**
+ * Simulate the health score after hypothetical changes
+ *
+ * @param customerData - Current health data
+ * @param changes - Hypothetical changes
+ * @param options - Simulation options
+ * @returns Baseline and simulated results with the score change
+ * @throws {InvalidInputError} If the data or changes are invalid
+ *
+ * @example
+ * const { simulated, scoreChange } = simulateHealthScore(customerData, [
+ *   { factor: 'payment', field: 'overdueAmount', set: 0 },
+ *   { factor: 'engagement', field: 'loginsPerMonth', adjustBy: 20 }
+ * ]);
+ */
+export function simulateHealthScore(
+  customerData: PartialCustomerHealthData,
+  changes: HealthScenarioChange[],
+  options: SimulationOptions = {}
+): SimulationResult {
+  const baseline = score(customerData, options);
+  const simulated = score(applyHealthDataChanges(customerData, changes), options);
+
+  return {
+    baseline,
+    simulated,
+    scoreChange: simulated.overallScore - baseline.overallScore,
+    riskLevelChanged: simulated.riskLevel !== baseline.riskLevel
+  };
+}
+
+/**
+ * All combinations of `size` items, preserving order
+ */
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  const result: T[][] = [];
+  items.forEach((item, index) => {
+    for (const rest of combinations(items.slice(index + 1), size - 1)) {
+      result.push([item, ...rest]);
+    }
+  });
+  return result;
+}
+
+/**
+ * Builds a plan by applying the actions' changes together
+ */
+function buildPlan(
+  customerData: PartialCustomerHealthData,
+  actions: RecoveryAction[],
+  options: SimulationOptions
+): RecoveryPlan {
+  const result = score(applyHealthDataChanges(customerData, actions.flatMap(action => action.changes)), options);
+  return {
+    actions,
+    totalEffort: actions.reduce((sum, action) => sum + action.effort, 0),
+    simulatedScore: result.overallScore,
+    simulatedRiskLevel: result.riskLevel
+  };
+}
+
+/**
+ * Find the smallest sets of recovery actions that make a customer healthy
+ *
+ * Tries every combination of one action, then two, and so on up to
+ * `maxActions`, stopping at the first size that reaches the healthy band.
+ * Plans of that size are ranked by total effort, then by resulting score.
+ *
+ * @param customerData - Current health data
+ * @param options - Search options
+ * @returns Search status, ranked plans and individually ranked actions
+ * @throws {InvalidInputError} If the data is invalid
+ *
+ * @example
+ * const path = findPathToHealthy(getCustomerHealthData('2')!);
+ * // path.plans[0].actions -> [{ id: 'clear-overdue-balance', ... }, ...]
+ */
+export function findPathToHealthy(
+  customerData: PartialCustomerHealthData,
+  options: PathToHealthyOptions = {}
+): PathToHealthy {
+  const { maxActions = 5, maxPlans = 5, actions: definitions = DEFAULT_RECOVERY_ACTIONS } = options;
+  const profile = options.scorer?.profile ?? DEFAULT_SCORING_PROFILE;
+  const targetScore = profile.riskBands.healthy.min;
+
+  const current = score(customerData, options);
+
+  // Resolve the catalog into customer-specific actions
+  const actions: RecoveryAction[] = definitions.flatMap(definition => {
+    const changes = definition.buildChanges(customerData);
+    return changes ? [{ id: definition.id, label: definition.label, effort: definition.effort, changes }] : [];
+  });
+
+  const rankedActions = actions
+    .map((action): RankedRecoveryAction => {
+      const plan = buildPlan(customerData, [action], options);
+      return {
+        action,
+        scoreChange: plan.simulatedScore - current.overallScore,
+        simulatedScore: plan.simulatedScore,
+        simulatedRiskLevel: plan.simulatedRiskLevel
+      };
+    })
+    .sort((a, b) => b.scoreChange - a.scoreChange || a.action.effort - b.action.effort);
+
+  if (current.riskLevel === 'healthy') {
+    return { status: 'already-healthy', currentScore: current.overallScore, targetScore, plans: [], rankedActions };
+  }
+
+  let bestPartial: RecoveryPlan | null = null;
+  for (let size = 1; size <= Math.min(maxActions, actions.length); size++) {
+    const plans = combinations(actions, size).map(combo => buildPlan(customerData, combo, options));
+    const reaching = plans
+      .filter(plan => plan.simulatedScore >= targetScore)
+      .sort((a, b) => a.totalEffort - b.totalEffort || b.simulatedScore - a.simulatedScore);
+
+    if (reaching.length > 0) {
+      return {
+        status: 'reachable',
+        currentScore: current.overallScore,
+        targetScore,
+        plans: reaching.slice(0, maxPlans),
+        rankedActions
+      };
+    }
+
+    for (const plan of plans) {
+      if (!bestPartial || plan.simulatedScore > bestPartial.simulatedScore) {
+        bestPartial = plan;
+      }
+    }
+  }
+
+  return {
+    status: 'unreachable',
+    currentScore: current.overallScore,
+    targetScore,
+    plans: bestPartial ? [bestPartial] : [],
+    rankedActions
+  };
+}
@@ -0,0 +1,364 @@
+/**
+ * Contract Ingestion
+ *
+ * Derives the calculator's ContractInfo from contracts stored with absolute
+ * dates. A customer may hold several overlapping contracts and mid-term
+ * add-ons; the aggregator combines them as of any date, so renewal timing
+ * never goes stale and upgrades are detected from line-item growth rather
+ * than hand-set.
+ *
+ * @module ingestion/contracts
+ */
+
+import { InvalidInputError, type ContractInfo, type ValidationIssue } from '@/lib/healthCalculator';
+import {
+  convertCurrency,
+  daysBetween,
+  MS_PER_DAY,
+  parseDateField,
+  parseNumberField,
+  resolveReportingCurrency,
+  throwIfIssues,
+  type DateInput
+} from '@/lib/ingestion/records';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A priced line on a contract
+ */
+export interface ContractLineItem {
+  /** Product or plan identifier; the same SKU across contracts is compared for growth */
+  sku: string;
+  description?: string;
+  quantity: number;
+  /** Annual price per unit, in the contract's currency */
+  unitPrice: number;
+  /** First day the line is billed (default: contract start, e.g. later for a mid-term add-on) */
+  startDate?: DateInput;
+  /** Last day the line is billed (default: contract end) */
+  endDate?: DateInput;
+}
+
+/**
+ * A contract as stored in the contracts system
+ */
+export interface ContractRecord {
+  id: string;
+  startDate: DateInput;
+  /** Last day of the term (inclusive) */
+  endDate: DateInput;
+  /** Date the contract comes up for renewal (default: endDate) */
+  renewalDate?: DateInput;
+  /** Date the contract was terminated early; it is inactive from this day on */
+  cancelledAt?: DateInput;
+  autoRenew?: boolean;
+  /** ISO currency code (e.g., 'USD') */
+  currency: string;
+  lineItems: ContractLineItem[];
+}
+
+/**
+ * Options for aggregating contracts
+ */
+export interface ContractAggregationOptions {
+  /** Point in time to aggregate for (default now) */
+  asOf?: Date;
+  /** Currency ARR is reported in (default: currency of the first contract) */
+  currency?: string;
+  /** Units of the reporting currency per unit of another currency (e.g., { EUR: 1.08 }) */
+  exchangeRates?: Record<string, number>;
+  /** How far back line-item growth counts as a recent upgrade (default 90) */
+  upgradeLookbackDays?: number;
+}
+
+/**
+ * ContractInfo with the figures it was derived from
+ */
+export interface ContractAggregation {
+  contract: ContractInfo;
+  /** Contracts active on asOf */
+  activeContractIds: string[];
+  /** Contract whose renewal (or, if none are active, expiry) drives daysUntilRenewal */
+  renewalContractId: string;
+  renewalDate: Date;
+  /** Annual recurring revenue on asOf, in reporting currency */
+  annualRecurringRevenue: number;
+  /** Annual recurring revenue at the start of the lookback window */
+  priorAnnualRecurringRevenue: number;
+  lookbackStart: Date;
+  /** SKUs whose ARR grew over the lookback window */
+  upgradedSkus: string[];
+}
+
+const DEFAULT_UPGRADE_LOOKBACK_DAYS = 90;
+
+// ============================================================================
+// Record Normalization
+// ============================================================================
+
+interface NormalizedLineItem {
+  sku: string;
+  /** Annual value in reporting currency */
+  annualValue: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+interface NormalizedContract {
+  id: string;
+  startDate: Date;
+  /** Last active day: the term end, or the day before cancellation */
+  endDate: Date;
+  renewalDate: Date;
+  autoRenew?: boolean;
+  lineItems: NormalizedLineItem[];
+}
+
+/**
+ * Whether a date falls on or between two days (compared by UTC calendar day)
+ */
+function isWithin(date: Date, start: Date, end: Date): boolean {
+  return daysBetween(start, date) >= 0 && daysBetween(date, end) >= 0;
+}
+
+/**
+ * Validate contracts and convert line items to annual values in reporting currency
+ */
+function normalizeContracts(
+  contracts: ContractRecord[],
+  reportingCurrency: string,
+  exchangeRates: Record<string, number>
+): NormalizedContract[] {
+  const issues: ValidationIssue[] = [];
+  const normalized: NormalizedContract[] = [];
+  const seenIds = new Set<string>();
+
+  contracts.forEach((contract, index) => {
+    const path = `contracts[${index}]`;
+    const issueCount = issues.length;
+
+    if (typeof contract.id !== 'string' || contract.id.trim() === '') {
+      issues.push({ path: `${path}.id`, code: 'required', message: `${path}.id is required`, received: contract.id });
+    } else if (seenIds.has(contract.id)) {
+      issues.push({
+        path: `${path}.id`,
+        code: 'invalid_value',
+        message: `${path}.id ${contract.id} is duplicated`,
+        received: contract.id
+      });
+    } else {
+      seenIds.add(contract.id);
+    }
+
+    const startDate = parseDateField(contract.startDate, `${path}.startDate`, issues);
+    const endDate = parseDateField(contract.endDate, `${path}.endDate`, issues);
+    const renewalDate = parseDateField(contract.renewalDate, `${path}.renewalDate`, issues, false);
+    const cancelledAt = parseDateField(contract.cancelledAt, `${path}.cancelledAt`, issues, false);
+
+    if (startDate && endDate && daysBetween(startDate, endDate) < 0) {
+      issues.push({
+        path: `${path}.endDate`,
+        code: 'out_of_range',
+        message: `${path}.endDate must not be before startDate`,
+        received: contract.endDate
+      });
+    }
+    if (startDate && endDate && renewalDate && !isWithin(renewalDate, startDate, endDate)) {
+      issues.push({
+        path: `${path}.renewalDate`,
+        code: 'out_of_range',
+        message: `${path}.renewalDate must fall within the contract term`,
+        received: contract.renewalDate
+      });
+    }
+    if (!Array.isArray(contract.lineItems)) {
+      issues.push({
+        path: `${path}.lineItems`,
+        code: 'invalid_type',
+        message: `${path}.lineItems must be an array`,
+        expected: { type: 'object' },
+        received: contract.lineItems
+      });
+      return;
+    }
+
+    // Cancellation ends the term early; the contract is inactive from that day
+    const lastDay = endDate && cancelledAt && daysBetween(cancelledAt, endDate) >= 0
+      ? new Date(cancelledAt.getTime() - MS_PER_DAY)
+      : endDate;
+
+    const rate = convertCurrency(1, contract.currency, reportingCurrency, exchangeRates, path, issues);
+    const lineItems: NormalizedLineItem[] = [];
+    contract.lineItems.forEach((item, itemIndex) => {
+      const itemPath = `${path}.lineItems[${itemIndex}]`;
+      if (typeof item.sku !== 'string' || item.sku.trim() === '') {
+        issues.push({
+          path: `${itemPath}.sku`,
+          code: 'required',
+          message: `${itemPath}.sku is required`,
+          received: item.sku
+        });
+      }
+      const quantity = parseNumberField(item.quantity, `${itemPath}.quantity`, issues, 0);
+      const unitPrice = parseNumberField(item.unitPrice, `${itemPath}.unitPrice`, issues, 0);
+      const itemStart = parseDateField(item.startDate, `${itemPath}.startDate`, issues, false);
+      const itemEnd = parseDateField(item.endDate, `${itemPath}.endDate`, issues, false);
+
+      if (quantity === null || unitPrice === null || rate === null || !startDate || !lastDay) return;
+      lineItems.push({
+        sku: item.sku,
+        annualValue: quantity * unitPrice * rate,
+        startDate: itemStart && itemStart > startDate ? itemStart : startDate,
+        endDate: itemEnd && itemEnd < lastDay ? itemEnd : lastDay
+      });
+    });
+
+    if (issues.length > issueCount) return;
+    normalized.push({
+      id: contract.id,
+      startDate: startDate!,
+      endDate: lastDay!,
+      renewalDate: renewalDate ?? endDate!,
+      autoRenew: contract.autoRenew,
+      lineItems
+    });
+  });
+
+  throwIfIssues(issues);
+  return normalized;
+}
+
+/**
+ * Resolve the reporting currency and validate the shared options
+ */
+function resolveOptions(contracts: ContractRecord[], options: ContractAggregationOptions) {
+  const { asOf = new Date(), exchangeRates = {}, upgradeLookbackDays = DEFAULT_UPGRADE_LOOKBACK_DAYS } = options;
+
+  if (Number.isNaN(asOf.getTime())) {
+    throw new InvalidInputError('asOf must be a valid date');
+  }
+  if (!(upgradeLookbackDays > 0)) {
+    throw new InvalidInputError(`upgradeLookbackDays must be greater than 0, got ${upgradeLookbackDays}`);
+  }
+
+  const currency = resolveReportingCurrency(options.currency, contracts[0]?.currency);
+  const rates = Object.fromEntries(
+    Object.entries(exchangeRates).map(([code, rate]) => [code.toUpperCase(), rate])
+  );
+
+  return { asOf, currency, exchangeRates: rates, upgradeLookbackDays };
+}
+
+// ============================================================================
+// Contract Aggregation
+// ============================================================================
+
+/**
+ * Annual recurring revenue per SKU on a given day, across all contracts
+ */
+function arrBySku(contracts: NormalizedContract[], date: Date): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const contract of contracts) {
+    if (!isWithin(date, contract.startDate, contract.endDate)) continue;
+    for (const item of contract.lineItems) {
+      if (!isWithin(date, item.startDate, item.endDate)) continue;
+      totals.set(item.sku, (totals.get(item.sku) ?? 0) + item.annualValue);
+    }
+  }
+  return totals;
+}
+
+function sumValues(values: Map<string, number>): number {
+  let total = 0;
+  for (const value of values.values()) total += value;
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Combine a customer's contracts into ContractInfo as of a date
+ *
+ * - daysUntilRenewal: days to the soonest upcoming renewal among contracts
+ *   active on asOf (their end date if every renewal date has passed); if
+ *   none are active, negative days since the latest contract ended
+ * - contractValue: total ARR of line items active on asOf
+ * - hasRecentUpgrades: true when at least one SKU's ARR grew over the
+ *   lookback window and total ARR grew with it, for a customer that already
+ *   had revenue at the start of the window (new customers are not upgrades;
+ *   renewing like-for-like is not growth)
+ * - autoRenewalEnabled: the auto-renew flag of the contract that renews next
+ *
+ * @param contracts - Every contract held by the customer
+ * @param options - Aggregation options
+ * @returns ContractInfo with the contracts and revenue it was derived from
+ * @throws {InvalidInputError} If any contract is invalid or none started on or before asOf
+ *
+ * @example
+ * const { contract } = aggregateContracts(crm.contracts, {
+ *   asOf: new Date('2025-06-30'),
+ *   exchangeRates: { EUR: 1.08 }
+ * });
+ * calculateHealthScore({ ...healthData, contract });
+ */
+export function aggregateContracts(
+  contracts: ContractRecord[],
+  options: ContractAggregationOptions = {}
+): ContractAggregation {
+  const { asOf, currency, exchangeRates, upgradeLookbackDays } = resolveOptions(contracts, options);
+  const started = normalizeContracts(contracts, currency, exchangeRates)
+    .filter(contract => daysBetween(contract.startDate, asOf) >= 0);
+
+  if (started.length === 0) {
+    throw new InvalidInputError(`No contracts started on or before ${asOf.toISOString()}`);
+  }
+
+  // Renewal timing
+  const active = started.filter(contract => daysBetween(asOf, contract.endDate) >= 0);
+  const byDate = (date: (contract: NormalizedContract) => Date) =>
+    (a: NormalizedContract, b: NormalizedContract) => date(a).getTime() - date(b).getTime();
+
+  let renewing: NormalizedContract;
+  let renewalDate: Date;
+  const upcoming = active.filter(contract => daysBetween(asOf, contract.renewalDate) >= 0);
+  if (upcoming.length > 0) {
+    renewing = [...upcoming].sort(byDate(contract => contract.renewalDate))[0];
+    renewalDate = renewing.renewalDate;
+  } else if (active.length > 0) {
+    renewing = [...active].sort(byDate(contract => contract.endDate))[0];
+    renewalDate = renewing.endDate;
+  } else {
+    renewing = [...started].sort(byDate(contract => contract.endDate))[started.length - 1];
+    renewalDate = renewing.endDate;
+  }
+
+  // Revenue and upgrades
+  const lookbackStart = new Date(asOf.getTime() - upgradeLookbackDays * MS_PER_DAY);
+  const current = arrBySku(started, asOf);
+  const prior = arrBySku(started, lookbackStart);
+  const annualRecurringRevenue = sumValues(current);
+  const priorAnnualRecurringRevenue = sumValues(prior);
+  const upgradedSkus = [...current.entries()]
+    .filter(([sku, value]) => value - (prior.get(sku) ?? 0) > 0.005)
+    .map(([sku]) => sku)
+    .sort();
+
+  return {
+    contract: {
+      daysUntilRenewal: daysBetween(asOf, renewalDate),
+      contractValue: annualRecurringRevenue,
+      hasRecentUpgrades: priorAnnualRecurringRevenue > 0
+        && upgradedSkus.length > 0
+        && annualRecurringRevenue > priorAnnualRecurringRevenue,
+      ...(renewing.autoRenew !== undefined && { autoRenewalEnabled: renewing.autoRenew })
+    },
+    activeContractIds: active.map(contract => contract.id),
+    renewalContractId: renewing.id,
+    renewalDate,
+    annualRecurringRevenue,
+    priorAnnualRecurringRevenue,
+    lookbackStart,
+    upgradedSkus
+  };
+}
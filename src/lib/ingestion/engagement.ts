@@ -0,0 +1,378 @@
+/**
+ * Engagement Ingestion
+ *
+ * Derives the calculator's EngagementMetrics from raw product analytics
+ * events (userId, accountId, event name, timestamp) over a rolling window,
+ * along with extra usage signals: DAU/MAU stickiness, distinct features
+ * used in the last 30 days and newly adopted features.
+ *
+ * @module ingestion/engagement
+ */
+
+import { readFile } from 'fs/promises';
+import { parseCsvRecords } from '@/lib/csv';
+import { InvalidInputError, type EngagementMetrics, type ValidationIssue } from '@/lib/healthCalculator';
+import { MS_PER_DAY, parseDateField, throwIfIssues, type DateInput } from '@/lib/ingestion/records';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A raw product analytics event
+ */
+export interface ProductEvent {
+  userId: string;
+  accountId: string;
+  /** Event name (e.g., 'login', 'report_exported') */
+  event: string;
+  timestamp: DateInput;
+}
+
+/**
+ * Options for deriving engagement
+ */
+export interface EngagementIngestionOptions {
+  /** End of the rolling window; later events are ignored (default now) */
+  asOf?: Date;
+  /** Rolling window length in days (default 30) */
+  windowDays?: number;
+  /** Event names that count as logins (default ['login', 'session_start']) */
+  loginEvents?: string[];
+  /** Event names that count as opened support tickets (default ['support_ticket_opened']) */
+  supportTicketEvents?: string[];
+  /** Event names that are not feature usage, besides login and ticket events (default ['logout']) */
+  nonFeatureEvents?: string[];
+}
+
+/**
+ * Engagement metrics and usage signals for one account
+ */
+export interface EngagementSignals {
+  accountId: string;
+  /** Start of the rolling window (inclusive) */
+  windowStart: Date;
+  /** End of the rolling window (inclusive) */
+  windowEnd: Date;
+  /** Metrics ready for the health calculator (logins scaled to a 30-day month) */
+  metrics: EngagementMetrics;
+  /** Events inside the window */
+  eventCount: number;
+  /** Average daily active users over the last 30 days */
+  averageDailyActiveUsers: number;
+  /** Distinct active users over the last 30 days */
+  monthlyActiveUsers: number;
+  /** averageDailyActiveUsers / monthlyActiveUsers (0-1); 0 without activity */
+  stickiness: number;
+  /** Distinct features used in the last 30 days */
+  distinctFeatures30d: number;
+  /** Features used inside the window, alphabetically */
+  featuresUsed: string[];
+  /** Features first used by the account inside the window, alphabetically */
+  newlyAdoptedFeatures: string[];
+}
+
+const DEFAULT_WINDOW_DAYS = 30;
+const MONTH_DAYS = 30;
+const DEFAULT_LOGIN_EVENTS = ['login', 'session_start'];
+const DEFAULT_SUPPORT_TICKET_EVENTS = ['support_ticket_opened'];
+const DEFAULT_NON_FEATURE_EVENTS = ['logout'];
+
+interface NormalizedEvent {
+  userId: string;
+  accountId: string;
+  event: string;
+  time: number;
+}
+
+// ============================================================================
+// Event Parsing
+// ============================================================================
+
+/**
+ * Read one raw record into an event, collecting issues
+ */
+function toProductEvent(record: Record<string, unknown>, path: string, issues: ValidationIssue[]): ProductEvent | null {
+  const issueCount = issues.length;
+  const fields: Record<string, string> = {};
+
+  for (const field of ['userId', 'accountId', 'event'] as const) {
+    const raw = record[field];
+    const value = typeof raw === 'number' ? String(raw) : raw;
+    if (typeof value !== 'string' || value.trim() === '') {
+      issues.push({
+        path: `${path}.${field}`,
+        code: 'required',
+        message: `${path}.${field} is required`,
+        expected: { type: 'string' },
+        received: raw
+      });
+    } else {
+      fields[field] = value.trim();
+    }
+  }
+  const timestamp = parseDateField(record.timestamp, `${path}.timestamp`, issues);
+
+  if (issues.length > issueCount) return null;
+  return { userId: fields.userId, accountId: fields.accountId, event: fields.event, timestamp: timestamp! };
+}
+
+/**
+ * Parse product events from NDJSON or CSV content
+ *
+ * NDJSON has one JSON object per line (blank lines are skipped); CSV needs
+ * a header row with `userId,accountId,event,timestamp`.
+ *
+ * @param content - File content
+ * @param format - Content format
+ * @returns Parsed events with timestamps as Dates
+ * @throws {InvalidInputError} With one issue per invalid field (paths like '[3].timestamp')
+ */
+export function parseProductEvents(content: string, format: 'ndjson' | 'csv'): ProductEvent[] {
+  const issues: ValidationIssue[] = [];
+  let records: unknown[];
+
+  if (format === 'csv') {
+    records = parseCsvRecords(content);
+  } else {
+    records = [];
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim() === '') return;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        issues.push({
+          path: `line ${index + 1}`,
+          code: 'invalid_value',
+          message: `line ${index + 1} is not valid JSON`,
+          received: line
+        });
+      }
+    });
+    throwIfIssues(issues);
+  }
+
+  const events: ProductEvent[] = [];
+  records.forEach((record, index) => {
+    const path = `[${index}]`;
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+      issues.push({
+        path,
+        code: 'invalid_type',
+        message: `${path} must be an object`,
+        expected: { type: 'object' },
+        received: record
+      });
+      return;
+    }
+    const event = toProductEvent(record as Record<string, unknown>, path, issues);
+    if (event) events.push(event);
+  });
+
+  throwIfIssues(issues);
+  return events;
+}
+
+/**
+ * Load product events from a local NDJSON (.ndjson, .jsonl) or CSV file
+ *
+ * @param filePath - Path to the event log
+ * @returns Parsed events
+ * @throws {InvalidInputError} If the file cannot be read or contains invalid events
+ *
+ * @example
+ * const events = await loadProductEvents('exports/events-2025-06.ndjson');
+ * const byAccount = deriveEngagementByAccount(events, { asOf: new Date('2025-06-30') });
+ */
+export async function loadProductEvents(filePath: string): Promise<ProductEvent[]> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new InvalidInputError(
+      `Cannot read product events from ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+  return parseProductEvents(content, /\.(nd)?jsonl?$/i.test(filePath) ? 'ndjson' : 'csv');
+}
+
+// ============================================================================
+// Engagement Derivation
+// ============================================================================
+
+/**
+ * Validate events and convert timestamps to epoch milliseconds
+ */
+function normalizeEvents(events: ProductEvent[]): NormalizedEvent[] {
+  const issues: ValidationIssue[] = [];
+  const normalized: NormalizedEvent[] = [];
+
+  events.forEach((event, index) => {
+    const parsed = toProductEvent(event as unknown as Record<string, unknown>, `events[${index}]`, issues);
+    if (parsed) {
+      normalized.push({ ...parsed, time: (parsed.timestamp as Date).getTime() });
+    }
+  });
+
+  throwIfIssues(issues);
+  return normalized;
+}
+
+/**
+ * Compute signals for one account's events (all at or before asOf)
+ */
+function computeSignals(
+  accountId: string,
+  accountEvents: NormalizedEvent[],
+  asOf: Date,
+  windowDays: number,
+  classify: (event: string) => 'login' | 'ticket' | 'feature' | 'other'
+): EngagementSignals {
+  const end = asOf.getTime();
+  const windowStart = end - windowDays * MS_PER_DAY;
+  const monthStart = end - MONTH_DAYS * MS_PER_DAY;
+
+  let logins = 0;
+  let tickets = 0;
+  let eventCount = 0;
+  const windowUsers = new Set<string>();
+  const windowFeatures = new Set<string>();
+  const monthUsers = new Set<string>();
+  const monthFeatures = new Set<string>();
+  const dailyUsers = new Map<number, Set<string>>();
+  const firstFeatureUse = new Map<string, number>();
+
+  for (const event of accountEvents) {
+    const kind = classify(event.event);
+    if (kind === 'feature') {
+      firstFeatureUse.set(event.event, Math.min(firstFeatureUse.get(event.event) ?? Infinity, event.time));
+    }
+
+    if (event.time > windowStart) {
+      eventCount++;
+      windowUsers.add(event.userId);
+      if (kind === 'login') logins++;
+      if (kind === 'ticket') tickets++;
+      if (kind === 'feature') windowFeatures.add(event.event);
+    }
+
+    if (event.time > monthStart) {
+      monthUsers.add(event.userId);
+      if (kind === 'feature') monthFeatures.add(event.event);
+      const day = Math.floor((end - event.time) / MS_PER_DAY);
+      dailyUsers.set(day, (dailyUsers.get(day) ?? new Set()).add(event.userId));
+    }
+  }
+
+  const averageDailyActiveUsers =
+    [...dailyUsers.values()].reduce((sum, users) => sum + users.size, 0) / MONTH_DAYS;
+  const monthlyActiveUsers = monthUsers.size;
+  const featuresUsed = [...windowFeatures].sort();
+
+  return {
+    accountId,
+    windowStart: new Date(windowStart),
+    windowEnd: new Date(end),
+    metrics: {
+      loginsPerMonth: Math.round((logins * MONTH_DAYS) / windowDays),
+      featureUsageCount: windowFeatures.size,
+      supportTicketsOpened: Math.round((tickets * MONTH_DAYS) / windowDays),
+      activeUserCount: windowUsers.size
+    },
+    eventCount,
+    averageDailyActiveUsers,
+    monthlyActiveUsers,
+    stickiness: monthlyActiveUsers > 0 ? averageDailyActiveUsers / monthlyActiveUsers : 0,
+    distinctFeatures30d: monthFeatures.size,
+    featuresUsed,
+    newlyAdoptedFeatures: featuresUsed.filter(feature => firstFeatureUse.get(feature)! > windowStart)
+  };
+}
+
+/**
+ * Derive engagement metrics and signals for every account in an event log
+ *
+ * The rolling window covers the `windowDays` days ending at asOf. Logins
+ * and support tickets are scaled to a 30-day month so windows of any length
+ * feed the calculator consistently. Any event that is not a login, ticket
+ * or listed non-feature event counts as use of the feature it names.
+ * Stickiness and distinct 30-day features always use the last 30 days.
+ * A feature is newly adopted when the account first used it inside the
+ * window (events before the window are needed to tell).
+ *
+ * @param events - Product events for any number of accounts
+ * @param options - Derivation options
+ * @returns Signals keyed by accountId
+ * @throws {InvalidInputError} If an event is invalid or options are out of range
+ */
+export function deriveEngagementByAccount(
+  events: ProductEvent[],
+  options: EngagementIngestionOptions = {}
+): Record<string, EngagementSignals> {
+  const {
+    asOf = new Date(),
+    windowDays = DEFAULT_WINDOW_DAYS,
+    loginEvents = DEFAULT_LOGIN_EVENTS,
+    supportTicketEvents = DEFAULT_SUPPORT_TICKET_EVENTS,
+    nonFeatureEvents = DEFAULT_NON_FEATURE_EVENTS
+  } = options;
+
+  if (Number.isNaN(asOf.getTime())) {
+    throw new InvalidInputError('asOf must be a valid date');
+  }
+  if (!Number.isFinite(windowDays) || windowDays <= 0) {
+    throw new InvalidInputError(`windowDays must be greater than 0, got ${windowDays}`);
+  }
+
+  const logins = new Set(loginEvents);
+  const tickets = new Set(supportTicketEvents);
+  const nonFeatures = new Set(nonFeatureEvents);
+  const classify = (event: string) =>
+    logins.has(event) ? 'login' : tickets.has(event) ? 'ticket' : nonFeatures.has(event) ? 'other' : 'feature';
+
+  const byAccount = new Map<string, NormalizedEvent[]>();
+  for (const event of normalizeEvents(events)) {
+    if (event.time > asOf.getTime()) continue;
+    const accountEvents = byAccount.get(event.accountId);
+    if (accountEvents) {
+      accountEvents.push(event);
+    } else {
+      byAccount.set(event.accountId, [event]);
+    }
+  }
+
+  return Object.fromEntries(
+    [...byAccount].map(([accountId, accountEvents]) => [
+      accountId,
+      computeSignals(accountId, accountEvents, asOf, windowDays, classify)
+    ])
+  );
+}
+
+/**
+ * Derive engagement metrics and signals for a single account
+ *
+ * Accounts without events in the log get zero usage.
+ *
+ * @param events - Product events (other accounts' events are ignored)
+ * @param accountId - Account to derive engagement for
+ * @param options - Derivation options
+ * @returns Engagement signals; `metrics` can be passed to the calculator as `engagement`
+ * @throws {InvalidInputError} If an event is invalid or options are out of range
+ *
+ * @example
+ * const { metrics, stickiness } = deriveEngagementSignals(events, 'acct-42', { windowDays: 14 });
+ * calculateHealthScore({ ...healthData, engagement: metrics });
+ */
+export function deriveEngagementSignals(
+  events: ProductEvent[],
+  accountId: string,
+  options: EngagementIngestionOptions = {}
+): EngagementSignals {
+  const accountEvents = events.filter(event => String(event.accountId).trim() === accountId);
+  const signals = deriveEngagementByAccount(accountEvents, options)[accountId];
+  if (signals) return signals;
+
+  const asOf = options.asOf ?? new Date();
+  return computeSignals(accountId, [], asOf, options.windowDays ?? DEFAULT_WINDOW_DAYS, () => 'other');
+}
@@ -0,0 +1,424 @@
+/**
+ * Payment Ingestion
+ *
+ * Derives the calculator's PaymentHistory from raw billing records:
+ * invoices, credit notes and payments. Handles partial payments, credit
+ * notes, voided invoices and multiple currencies, and measures payment
+ * consistency from the variance of payment delays.
+ *
+ * @module ingestion/payments
+ */
+
+import { InvalidInputError, type PaymentHistory, type ValidationIssue } from '@/lib/healthCalculator';
+import {
+  convertCurrency,
+  daysBetween,
+  parseDateField,
+  parseNumberField,
+  resolveReportingCurrency,
+  throwIfIssues,
+  type DateInput
+} from '@/lib/ingestion/records';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * An invoice or credit note as exported from billing
+ */
+export interface InvoiceRecord {
+  id: string;
+  /** Document type (default 'invoice') */
+  type?: 'invoice' | 'credit_note';
+  /** Voided documents are ignored entirely (default 'issued') */
+  status?: 'issued' | 'void';
+  issueDate: DateInput;
+  /** Required for invoices; ignored for credit notes */
+  dueDate?: DateInput;
+  /** Gross amount, positive for both invoices and credit notes */
+  amount: number;
+  /** ISO currency code (e.g., 'USD') */
+  currency: string;
+  /** Invoice a credit note applies to; unapplied credit offsets the overdue balance */
+  appliesTo?: string;
+}
+
+/**
+ * A payment received against an invoice
+ */
+export interface PaymentRecord {
+  id?: string;
+  invoiceId: string;
+  paidDate: DateInput;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Options for deriving payment history
+ */
+export interface PaymentIngestionOptions {
+  /** Point in time to derive the history for; later records are ignored (default now) */
+  asOf?: Date;
+  /** Currency amounts are reported in (default: currency of the first invoice) */
+  currency?: string;
+  /** Units of the reporting currency per unit of another currency (e.g., { EUR: 1.08 }) */
+  exchangeRates?: Record<string, number>;
+  /** Remaining balance, in reporting currency, still treated as fully paid (default 0.01) */
+  settlementTolerance?: number;
+  /** Delay standard deviation, in days, at which consistency is 0.5 (default 10) */
+  consistencyScaleDays?: number;
+}
+
+/**
+ * How an invoice stands as of the derivation date
+ */
+export interface InvoiceSettlement {
+  invoiceId: string;
+  dueDate: Date;
+  /** Invoice amount less applied credit notes, in reporting currency */
+  netAmount: number;
+  /** Payments received, in reporting currency */
+  paidAmount: number;
+  /** Amount still owed (never negative) */
+  outstanding: number;
+  /** 'credited' when credit notes cover the whole invoice */
+  status: 'paid' | 'open' | 'credited';
+  /** Date the balance was fully paid, when paid */
+  settledDate: Date | null;
+  /** Days paid late (paid) or days past due so far (open); null if not yet due or credited */
+  delayDays: number | null;
+}
+
+const DEFAULT_SETTLEMENT_TOLERANCE = 0.01;
+const DEFAULT_CONSISTENCY_SCALE_DAYS = 10;
+
+/**
+ * Rounds a money amount to cents
+ */
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// ============================================================================
+// Record Normalization
+// ============================================================================
+
+interface NormalizedInvoice {
+  id: string;
+  type: 'invoice' | 'credit_note';
+  issueDate: Date;
+  dueDate: Date | null;
+  amount: number;
+  appliesTo?: string;
+}
+
+interface NormalizedPayment {
+  invoiceId: string;
+  paidDate: Date;
+  amount: number;
+}
+
+/**
+ * Validate, convert and filter records to those known as of the derivation date
+ */
+function normalizeRecords(
+  invoices: InvoiceRecord[],
+  payments: PaymentRecord[],
+  asOf: Date,
+  reportingCurrency: string,
+  exchangeRates: Record<string, number>
+): { invoices: NormalizedInvoice[]; payments: NormalizedPayment[] } {
+  const issues: ValidationIssue[] = [];
+  const normalizedInvoices: NormalizedInvoice[] = [];
+  const normalizedPayments: NormalizedPayment[] = [];
+  const seenIds = new Set<string>();
+
+  invoices.forEach((invoice, index) => {
+    const path = `invoices[${index}]`;
+    const issueCount = issues.length;
+    const type = invoice.type ?? 'invoice';
+
+    if (typeof invoice.id !== 'string' || invoice.id.trim() === '') {
+      issues.push({ path: `${path}.id`, code: 'required', message: `${path}.id is required`, received: invoice.id });
+    } else if (seenIds.has(invoice.id)) {
+      issues.push({
+        path: `${path}.id`,
+        code: 'invalid_value',
+        message: `${path}.id ${invoice.id} is duplicated`,
+        received: invoice.id
+      });
+    } else {
+      seenIds.add(invoice.id);
+    }
+    if (type !== 'invoice' && type !== 'credit_note') {
+      issues.push({
+        path: `${path}.type`,
+        code: 'invalid_value',
+        message: `${path}.type must be 'invoice' or 'credit_note'`,
+        received: type
+      });
+    }
+
+    const issueDate = parseDateField(invoice.issueDate, `${path}.issueDate`, issues);
+    const dueDate = parseDateField(invoice.dueDate, `${path}.dueDate`, issues, type === 'invoice');
+    const amount = parseNumberField(invoice.amount, `${path}.amount`, issues, 0);
+    const converted = amount === null
+      ? null
+      : convertCurrency(amount, invoice.currency, reportingCurrency, exchangeRates, path, issues);
+
+    if (issues.length > issueCount || invoice.status === 'void' || issueDate!.getTime() > asOf.getTime()) {
+      return;
+    }
+    normalizedInvoices.push({
+      id: invoice.id,
+      type,
+      issueDate: issueDate!,
+      dueDate: type === 'invoice' ? dueDate : null,
+      amount: converted!,
+      appliesTo: invoice.appliesTo
+    });
+  });
+
+  payments.forEach((payment, index) => {
+    const path = `payments[${index}]`;
+    const issueCount = issues.length;
+
+    if (typeof payment.invoiceId !== 'string' || payment.invoiceId.trim() === '') {
+      issues.push({
+        path: `${path}.invoiceId`,
+        code: 'required',
+        message: `${path}.invoiceId is required`,
+        received: payment.invoiceId
+      });
+    }
+    const paidDate = parseDateField(payment.paidDate, `${path}.paidDate`, issues);
+    const amount = parseNumberField(payment.amount, `${path}.amount`, issues, 0);
+    const converted = amount === null
+      ? null
+      : convertCurrency(amount, payment.currency, reportingCurrency, exchangeRates, path, issues);
+
+    if (issues.length > issueCount || paidDate!.getTime() > asOf.getTime()) {
+      return;
+    }
+    normalizedPayments.push({ invoiceId: payment.invoiceId, paidDate: paidDate!, amount: converted! });
+  });
+
+  throwIfIssues(issues);
+  return { invoices: normalizedInvoices, payments: normalizedPayments };
+}
+
+/**
+ * Resolve the reporting currency and validate the shared options
+ */
+function resolveOptions(invoices: InvoiceRecord[], options: PaymentIngestionOptions) {
+  const {
+    asOf = new Date(),
+    exchangeRates = {},
+    settlementTolerance = DEFAULT_SETTLEMENT_TOLERANCE,
+    consistencyScaleDays = DEFAULT_CONSISTENCY_SCALE_DAYS
+  } = options;
+
+  if (Number.isNaN(asOf.getTime())) {
+    throw new InvalidInputError('asOf must be a valid date');
+  }
+  if (!(consistencyScaleDays > 0)) {
+    throw new InvalidInputError(`consistencyScaleDays must be greater than 0, got ${consistencyScaleDays}`);
+  }
+
+  const currency = resolveReportingCurrency(options.currency, invoices[0]?.currency);
+  const rates = Object.fromEntries(
+    Object.entries(exchangeRates).map(([code, rate]) => [code.toUpperCase(), rate])
+  );
+
+  return { asOf, currency, exchangeRates: rates, settlementTolerance, consistencyScaleDays };
+}
+
+// ============================================================================
+// Settlement
+// ============================================================================
+
+/**
+ * Work out how each invoice stands as of the derivation date
+ *
+ * Credit notes applied to an invoice reduce the amount owed. Payments are
+ * applied in date order; an invoice counts as paid on the date its
+ * cumulative payments cover the net amount, so a late final instalment
+ * makes the whole invoice late. Void documents, and documents or payments
+ * dated after asOf, are ignored.
+ *
+ * @param invoices - Invoices and credit notes
+ * @param payments - Payments against invoices
+ * @param options - Derivation options
+ * @returns One settlement per non-void invoice issued on or before asOf, by due date
+ * @throws {InvalidInputError} With every invalid record field
+ */
+export function settleInvoices(
+  invoices: InvoiceRecord[],
+  payments: PaymentRecord[],
+  options: PaymentIngestionOptions = {}
+): InvoiceSettlement[] {
+  const resolved = resolveOptions(invoices, options);
+  return settle(
+    normalizeRecords(invoices, payments, resolved.asOf, resolved.currency, resolved.exchangeRates),
+    resolved.asOf,
+    resolved.settlementTolerance
+  ).settlements;
+}
+
+/**
+ * Settle normalized records; also returns credit not applied to any invoice
+ */
+function settle(
+  records: { invoices: NormalizedInvoice[]; payments: NormalizedPayment[] },
+  asOf: Date,
+  tolerance: number
+): { settlements: InvoiceSettlement[]; unappliedCredit: number } {
+  const creditsByInvoice = new Map<string, number>();
+  const invoiceIds = new Set(records.invoices.filter(doc => doc.type === 'invoice').map(doc => doc.id));
+  let unappliedCredit = 0;
+
+  for (const doc of records.invoices) {
+    if (doc.type !== 'credit_note') continue;
+    if (doc.appliesTo && invoiceIds.has(doc.appliesTo)) {
+      creditsByInvoice.set(doc.appliesTo, (creditsByInvoice.get(doc.appliesTo) ?? 0) + doc.amount);
+    } else {
+      unappliedCredit += doc.amount;
+    }
+  }
+
+  const paymentsByInvoice = new Map<string, NormalizedPayment[]>();
+  for (const payment of records.payments) {
+    paymentsByInvoice.set(payment.invoiceId, [...(paymentsByInvoice.get(payment.invoiceId) ?? []), payment]);
+  }
+
+  const settlements = records.invoices
+    .filter(doc => doc.type === 'invoice')
+    .map((invoice): InvoiceSettlement => {
+      const dueDate = invoice.dueDate!;
+      const netAmount = Math.max(0, invoice.amount - (creditsByInvoice.get(invoice.id) ?? 0));
+      const invoicePayments = (paymentsByInvoice.get(invoice.id) ?? [])
+        .sort((a, b) => a.paidDate.getTime() - b.paidDate.getTime());
+
+      let paidAmount = 0;
+      let settledDate: Date | null = null;
+      for (const payment of invoicePayments) {
+        paidAmount += payment.amount;
+        if (!settledDate && paidAmount >= netAmount - tolerance) {
+          settledDate = payment.paidDate;
+        }
+      }
+      const base = {
+        invoiceId: invoice.id,
+        dueDate,
+        netAmount: roundCents(netAmount),
+        paidAmount: roundCents(paidAmount)
+      };
+
+      if (netAmount <= tolerance && !settledDate) {
+        return { ...base, outstanding: 0, status: 'credited', settledDate: null, delayDays: null };
+      }
+      if (settledDate) {
+        return {
+          ...base,
+          outstanding: 0,
+          status: 'paid',
+          settledDate,
+          delayDays: Math.max(0, daysBetween(dueDate, settledDate))
+        };
+      }
+      const daysPastDue = daysBetween(dueDate, asOf);
+      return {
+        ...base,
+        outstanding: roundCents(Math.max(0, netAmount - paidAmount)),
+        status: 'open',
+        settledDate: null,
+        delayDays: daysPastDue > 0 ? daysPastDue : null
+      };
+    })
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+  return { settlements, unappliedCredit };
+}
+
+// ============================================================================
+// Payment History Derivation
+// ============================================================================
+
+/**
+ * Derive PaymentHistory from raw invoices, credit notes and payments
+ *
+ * - daysSinceLastPayment: days from the latest payment to asOf (from the
+ *   first invoice's issue date if nothing was ever paid)
+ * - averagePaymentDelay: mean days late across paid invoices and open
+ *   invoices already past due
+ * - overdueAmount: outstanding balance of past-due invoices, less any
+ *   unapplied credit
+ * - paymentConsistency: 1 / (1 + (sd / consistencyScaleDays)^2), where sd is
+ *   the standard deviation of those delays; omitted with fewer than two
+ *
+ * @param invoices - Invoices and credit notes
+ * @param payments - Payments against invoices
+ * @param options - Derivation options
+ * @returns PaymentHistory ready for the health calculator
+ * @throws {InvalidInputError} If any record is invalid or no invoice was issued by asOf
+ *
+ * @example
+ * const payment = derivePaymentHistory(billing.invoices, billing.payments, {
+ *   asOf: new Date('2025-06-30'),
+ *   currency: 'USD',
+ *   exchangeRates: { EUR: 1.08 }
+ * });
+ * calculateHealthScore({ ...healthData, payment });
+ */
+export function derivePaymentHistory(
+  invoices: InvoiceRecord[],
+  payments: PaymentRecord[],
+  options: PaymentIngestionOptions = {}
+): PaymentHistory {
+  const { asOf, currency, exchangeRates, settlementTolerance, consistencyScaleDays } =
+    resolveOptions(invoices, options);
+  const records = normalizeRecords(invoices, payments, asOf, currency, exchangeRates);
+
+  const billed = records.invoices.filter(doc => doc.type === 'invoice');
+  if (billed.length === 0) {
+    throw new InvalidInputError(`No invoices issued on or before ${asOf.toISOString()}`);
+  }
+
+  const { settlements, unappliedCredit } = settle(records, asOf, settlementTolerance);
+
+  // Recency
+  const lastPaid = records.payments.reduce<Date | null>(
+    (latest, payment) => (!latest || payment.paidDate > latest ? payment.paidDate : latest),
+    null
+  );
+  const firstIssued = billed.reduce(
+    (earliest, doc) => (doc.issueDate < earliest ? doc.issueDate : earliest),
+    billed[0].issueDate
+  );
+  const daysSinceLastPayment = Math.max(0, daysBetween(lastPaid ?? firstIssued, asOf));
+
+  // Delay and its spread
+  const delays = settlements
+    .map(settlement => settlement.delayDays)
+    .filter((delay): delay is number => delay !== null);
+  const averagePaymentDelay = delays.length > 0
+    ? delays.reduce((sum, delay) => sum + delay, 0) / delays.length
+    : 0;
+
+  // Overdue balance
+  const pastDue = settlements
+    .filter(settlement => settlement.status === 'open' && settlement.delayDays !== null)
+    .reduce((sum, settlement) => sum + settlement.outstanding, 0);
+  const overdueAmount = roundCents(Math.max(0, pastDue - unappliedCredit));
+
+  const history: PaymentHistory = { daysSinceLastPayment, averagePaymentDelay, overdueAmount };
+
+  if (delays.length >= 2) {
+    const variance = delays.reduce((sum, delay) => sum + (delay - averagePaymentDelay) ** 2, 0) / delays.length;
+    history.paymentConsistency = 1 / (1 + variance / consistencyScaleDays ** 2);
+  }
+
+  return history;
+}
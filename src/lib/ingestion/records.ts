@@ -0,0 +1,185 @@
+/**
+ * Ingestion Record Utilities
+ *
+ * Shared helpers for turning raw exported records (billing, product events,
+ * support tickets, contracts) into calculator inputs: date parsing,
+ * currency conversion, day arithmetic and issue collection.
+ *
+ * @module ingestion/records
+ */
+
+import { toInvalidInputError, type ValidationIssue } from '@/lib/healthCalculator';
+
+/** Milliseconds in one day */
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A date as exported by source systems: Date, ISO string or epoch milliseconds
+ */
+export type DateInput = Date | string | number;
+
+/**
+ * Parse a date input, recording an issue when it is missing or invalid
+ *
+ * @param value - Raw value
+ * @param path - Field path used in the issue (e.g., 'invoices[2].dueDate')
+ * @param issues - Issue list to append to
+ * @param required - Whether a missing value is an issue
+ * @returns Parsed date, or null when missing or invalid
+ */
+export function parseDateField(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  required = true
+): Date | null {
+  if (value === null || value === undefined || value === '') {
+    if (required) {
+      issues.push({ path, code: 'required', message: `${path} is required but was not provided`, received: value });
+    }
+    return null;
+  }
+
+  const date = value instanceof Date
+    ? new Date(value.getTime())
+    : typeof value === 'string' || typeof value === 'number'
+      ? new Date(value)
+      : null;
+
+  if (!date || Number.isNaN(date.getTime())) {
+    issues.push({
+      path,
+      code: 'invalid_value',
+      message: `${path} must be a valid date`,
+      expected: { type: 'string' },
+      received: value
+    });
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Record an issue unless the value is a finite number within the bounds
+ *
+ * @returns The number, or null when invalid
+ */
+export function parseNumberField(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  min?: number
+): number | null {
+  if (value === null || value === undefined) {
+    issues.push({ path, code: 'required', message: `${path} is required but was not provided`, received: value });
+    return null;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({
+      path,
+      code: typeof value === 'number' ? 'not_finite' : 'invalid_type',
+      message: `${path} must be a finite number`,
+      expected: { type: 'number' },
+      received: value
+    });
+    return null;
+  }
+  if (min !== undefined && value < min) {
+    issues.push({
+      path,
+      code: min === 0 ? 'negative' : 'out_of_range',
+      message: min === 0
+        ? `${path} must be non-negative, got ${value}`
+        : `${path} must be at least ${min}, got ${value}`,
+      expected: { min },
+      received: value
+    });
+    return null;
+  }
+  return value;
+}
+
+/**
+ * Resolve the reporting currency to an upper-case code
+ *
+ * Falls back to the first record's currency, then 'USD'. A first record
+ * without a usable currency is skipped here; record validation reports it.
+ *
+ * @param requested - Currency from the options, if any
+ * @param firstRecordCurrency - Currency of the first record, if any
+ * @returns Upper-case ISO currency code
+ * @throws {InvalidInputError} At path 'currency' if a requested currency is not a non-empty string
+ */
+export function resolveReportingCurrency(requested: unknown, firstRecordCurrency: unknown): string {
+  if (requested !== undefined && (typeof requested !== 'string' || requested.trim() === '')) {
+    const message = 'currency must be a non-empty ISO currency code';
+    throw toInvalidInputError([
+      { path: 'currency', code: 'invalid_type', message, expected: { type: 'string' }, received: requested }
+    ]);
+  }
+  const currency = requested ?? (typeof firstRecordCurrency === 'string' ? firstRecordCurrency.trim() : '');
+  return currency.trim().toUpperCase() || 'USD';
+}
+
+/**
+ * Convert an amount to the reporting currency, recording an issue for unknown rates
+ *
+ * @param amount - Amount in the record's currency
+ * @param currency - Record's ISO currency code
+ * @param reportingCurrency - Upper-case code amounts are reported in
+ * @param exchangeRates - Units of the reporting currency per unit of each other currency (upper-case keys)
+ * @param path - Record path; the issue is reported on `${path}.currency`
+ * @param issues - Issue list to append to
+ * @returns Converted amount, or null when the currency is missing or has no rate
+ */
+export function convertCurrency(
+  amount: number,
+  currency: unknown,
+  reportingCurrency: string,
+  exchangeRates: Record<string, number>,
+  path: string,
+  issues: ValidationIssue[]
+): number | null {
+  if (typeof currency !== 'string' || currency.trim() === '') {
+    issues.push({
+      path: `${path}.currency`,
+      code: 'required',
+      message: `${path}.currency is required`,
+      received: currency
+    });
+    return null;
+  }
+  const code = currency.trim().toUpperCase();
+  if (code === reportingCurrency) return amount;
+
+  const rate = exchangeRates[code];
+  if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+    issues.push({
+      path: `${path}.currency`,
+      code: 'invalid_value',
+      message: `${path}.currency ${code} has no exchange rate to ${reportingCurrency}`,
+      received: currency
+    });
+    return null;
+  }
+  return amount * rate;
+}
+
+/**
+ * Whole UTC calendar days from one date to another (negative if `to` is earlier)
+ */
+export function daysBetween(from: Date, to: Date): number {
+  const start = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+  const end = Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate());
+  return Math.round((end - start) / MS_PER_DAY);
+}
+
+/**
+ * Throw a single error carrying every collected issue
+ * @throws {InvalidInputError} If any issues were collected
+ */
+export function throwIfIssues(issues: ValidationIssue[]): void {
+  if (issues.length > 0) {
+    throw toInvalidInputError(issues);
+  }
+}
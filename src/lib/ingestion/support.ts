@@ -0,0 +1,375 @@
+/**
+ * Support Ingestion
+ *
+ * Derives the calculator's SupportData (and the engagement ticket count)
+ * from raw helpdesk ticket records over a configurable window. Supports
+ * business-hours resolution times, ignores reopened duplicates and reports
+ * the ticket IDs behind every number for drill-down.
+ *
+ * @module ingestion/support
+ */
+
+import { InvalidInputError, type SupportData, type ValidationIssue } from '@/lib/healthCalculator';
+import { MS_PER_DAY, parseDateField, throwIfIssues, type DateInput } from '@/lib/ingestion/records';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Ticket priority
+ */
+export type TicketPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+/**
+ * Ticket status
+ */
+export type TicketStatus = 'open' | 'pending' | 'resolved' | 'closed';
+
+/**
+ * A helpdesk ticket as exported from the support tool
+ */
+export interface TicketRecord {
+  id: string;
+  openedAt: DateInput;
+  /** When the ticket was resolved; missing while unresolved */
+  resolvedAt?: DateInput;
+  status: TicketStatus;
+  priority?: TicketPriority;
+  /** Whether the ticket was escalated */
+  escalated?: boolean;
+  /** Customer satisfaction rating (1-5) */
+  csat?: number;
+  /** Earlier ticket this one reopens or duplicates; such tickets are ignored */
+  duplicateOf?: string;
+}
+
+/**
+ * Working hours used for business-hours resolution time
+ */
+export interface BusinessHours {
+  /** Hour the working day starts (0-23, default 9) */
+  startHour?: number;
+  /** Hour the working day ends (1-24, default 17) */
+  endHour?: number;
+  /** Working days, 0 = Sunday (default Monday-Friday) */
+  workdays?: number[];
+  /** Offset of the support team's time zone from UTC, in minutes (default 0) */
+  utcOffsetMinutes?: number;
+}
+
+/**
+ * Options for deriving support data
+ */
+export interface SupportIngestionOptions {
+  /** End of the window; later tickets and resolutions are ignored (default now) */
+  asOf?: Date;
+  /** Window length in days; tickets opened inside it are counted (default 90) */
+  windowDays?: number;
+  /** Measure resolution time in working hours instead of calendar hours */
+  businessHours?: BusinessHours;
+  /** Satisfaction score used when no ticket in the window was rated (default 3) */
+  defaultSatisfactionScore?: number;
+}
+
+/**
+ * Ticket IDs behind each derived number
+ */
+export interface SupportDrillDown {
+  /** Tickets opened in the window (duplicates excluded) */
+  opened: string[];
+  /** Resolved tickets averaged into averageResolutionTimeHours */
+  resolved: string[];
+  /** Rated tickets averaged into satisfactionScore */
+  rated: string[];
+  /** Escalated tickets counted in escalationCount */
+  escalated: string[];
+  /** Tickets still open as of the derivation date (any age) */
+  open: string[];
+  /** Reopened duplicates that were ignored */
+  ignoredDuplicates: string[];
+}
+
+/**
+ * Derived support data with drill-down
+ */
+export interface SupportDerivation {
+  /** SupportData ready for the health calculator */
+  support: SupportData;
+  /** Tickets opened in the window scaled to a 30-day month, for EngagementMetrics.supportTicketsOpened */
+  supportTicketsOpened: number;
+  /** Whether satisfactionScore fell back to the default because nothing was rated */
+  satisfactionDefaulted: boolean;
+  /** Average resolution hours per priority (priorities without resolved tickets omitted) */
+  resolutionHoursByPriority: Partial<Record<TicketPriority, number>>;
+  windowStart: Date;
+  windowEnd: Date;
+  ticketIds: SupportDrillDown;
+}
+
+const DEFAULT_WINDOW_DAYS = 90;
+const DEFAULT_SATISFACTION_SCORE = 3;
+const MONTH_DAYS = 30;
+const MS_PER_HOUR = 60 * 60 * 1000;
+const TICKET_STATUSES: TicketStatus[] = ['open', 'pending', 'resolved', 'closed'];
+const TICKET_PRIORITIES: TicketPriority[] = ['low', 'normal', 'high', 'urgent'];
+
+interface NormalizedTicket {
+  id: string;
+  openedAt: number;
+  resolvedAt: number | null;
+  status: TicketStatus;
+  priority?: TicketPriority;
+  escalated: boolean;
+  csat?: number;
+  duplicateOf?: string;
+}
+
+// ============================================================================
+// Resolution Time
+// ============================================================================
+
+/**
+ * Working hours between two instants
+ *
+ * @param start - Start time (epoch ms)
+ * @param end - End time (epoch ms)
+ * @param hours - Working hours definition
+ * @returns Hours of overlap with the working schedule
+ */
+export function businessHoursBetween(start: number, end: number, hours: BusinessHours = {}): number {
+  const { startHour = 9, endHour = 17, workdays = [1, 2, 3, 4, 5], utcOffsetMinutes = 0 } = hours;
+  const offset = utcOffsetMinutes * 60 * 1000;
+
+  // Shift into the team's local time so calendar days line up with UTC days
+  const localStart = start + offset;
+  const localEnd = end + offset;
+
+  let total = 0;
+  for (let day = Math.floor(localStart / MS_PER_DAY) * MS_PER_DAY; day < localEnd; day += MS_PER_DAY) {
+    if (!workdays.includes(new Date(day).getUTCDay())) continue;
+    const open = day + startHour * MS_PER_HOUR;
+    const close = day + endHour * MS_PER_HOUR;
+    total += Math.max(0, Math.min(close, localEnd) - Math.max(open, localStart));
+  }
+  return total / MS_PER_HOUR;
+}
+
+/**
+ * Validate a business hours definition
+ * @throws {InvalidInputError} If the hours are out of range or empty
+ */
+function validateBusinessHours(hours: BusinessHours): void {
+  const { startHour = 9, endHour = 17, workdays = [1, 2, 3, 4, 5] } = hours;
+  if (!Number.isInteger(startHour) || startHour < 0 || startHour > 23) {
+    throw new InvalidInputError(`businessHours.startHour must be an integer between 0 and 23, got ${startHour}`);
+  }
+  if (!Number.isInteger(endHour) || endHour <= startHour || endHour > 24) {
+    throw new InvalidInputError(
+      `businessHours.endHour must be an integer after startHour and at most 24, got ${endHour}`
+    );
+  }
+  if (workdays.length === 0 || workdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new InvalidInputError('businessHours.workdays must list days between 0 (Sunday) and 6 (Saturday)');
+  }
+}
+
+// ============================================================================
+// Ticket Normalization
+// ============================================================================
+
+/**
+ * Validate tickets, collecting every issue
+ */
+function normalizeTickets(tickets: TicketRecord[]): NormalizedTicket[] {
+  const issues: ValidationIssue[] = [];
+  const normalized: NormalizedTicket[] = [];
+  const seenIds = new Set<string>();
+
+  tickets.forEach((ticket, index) => {
+    const path = `tickets[${index}]`;
+    const issueCount = issues.length;
+
+    if (typeof ticket.id !== 'string' || ticket.id.trim() === '') {
+      issues.push({ path: `${path}.id`, code: 'required', message: `${path}.id is required`, received: ticket.id });
+    } else if (seenIds.has(ticket.id)) {
+      issues.push({
+        path: `${path}.id`,
+        code: 'invalid_value',
+        message: `${path}.id ${ticket.id} is duplicated`,
+        received: ticket.id
+      });
+    } else {
+      seenIds.add(ticket.id);
+    }
+
+    const openedAt = parseDateField(ticket.openedAt, `${path}.openedAt`, issues);
+    const resolvedAt = parseDateField(ticket.resolvedAt, `${path}.resolvedAt`, issues, false);
+    if (openedAt && resolvedAt && resolvedAt < openedAt) {
+      issues.push({
+        path: `${path}.resolvedAt`,
+        code: 'invalid_value',
+        message: `${path}.resolvedAt must not be before openedAt`,
+        received: ticket.resolvedAt
+      });
+    }
+    if (!TICKET_STATUSES.includes(ticket.status)) {
+      issues.push({
+        path: `${path}.status`,
+        code: 'invalid_value',
+        message: `${path}.status must be one of ${TICKET_STATUSES.join(', ')}`,
+        received: ticket.status
+      });
+    }
+    if (ticket.priority !== undefined && !TICKET_PRIORITIES.includes(ticket.priority)) {
+      issues.push({
+        path: `${path}.priority`,
+        code: 'invalid_value',
+        message: `${path}.priority must be one of ${TICKET_PRIORITIES.join(', ')}`,
+        received: ticket.priority
+      });
+    }
+    if (ticket.csat !== undefined && ticket.csat !== null &&
+      (typeof ticket.csat !== 'number' || !Number.isFinite(ticket.csat) || ticket.csat < 1 || ticket.csat > 5)) {
+      issues.push({
+        path: `${path}.csat`,
+        code: 'out_of_range',
+        message: `${path}.csat must be between 1 and 5`,
+        expected: { type: 'number', min: 1, max: 5 },
+        received: ticket.csat
+      });
+    }
+
+    if (issues.length > issueCount) return;
+    normalized.push({
+      id: ticket.id,
+      openedAt: openedAt!.getTime(),
+      resolvedAt: resolvedAt ? resolvedAt.getTime() : null,
+      status: ticket.status,
+      priority: ticket.priority,
+      escalated: ticket.escalated === true,
+      csat: ticket.csat ?? undefined,
+      duplicateOf: ticket.duplicateOf
+    });
+  });
+
+  throwIfIssues(issues);
+  return normalized;
+}
+
+// ============================================================================
+// Support Data Derivation
+// ============================================================================
+
+/**
+ * Derive SupportData from helpdesk tickets
+ *
+ * Tickets opened inside the window feed resolution time, satisfaction,
+ * escalations and the ticket count; the open ticket count covers every
+ * ticket still unresolved at asOf regardless of age. A ticket whose
+ * `duplicateOf` points at another known ticket is a reopened duplicate
+ * and is ignored everywhere.
+ *
+ * @param tickets - Ticket records for one account
+ * @param options - Derivation options
+ * @returns SupportData, the monthly ticket count and the ticket IDs behind each number
+ * @throws {InvalidInputError} If a ticket or option is invalid
+ *
+ * @example
+ * const { support, supportTicketsOpened, ticketIds } = deriveSupportData(tickets, {
+ *   windowDays: 60,
+ *   businessHours: { startHour: 8, endHour: 18, utcOffsetMinutes: -300 }
+ * });
+ * calculateHealthScore({ ...healthData, support, engagement: { ...engagement, supportTicketsOpened } });
+ */
+export function deriveSupportData(
+  tickets: TicketRecord[],
+  options: SupportIngestionOptions = {}
+): SupportDerivation {
+  const {
+    asOf = new Date(),
+    windowDays = DEFAULT_WINDOW_DAYS,
+    businessHours,
+    defaultSatisfactionScore = DEFAULT_SATISFACTION_SCORE
+  } = options;
+
+  if (Number.isNaN(asOf.getTime())) {
+    throw new InvalidInputError('asOf must be a valid date');
+  }
+  if (!Number.isFinite(windowDays) || windowDays <= 0) {
+    throw new InvalidInputError(`windowDays must be greater than 0, got ${windowDays}`);
+  }
+  if (!(defaultSatisfactionScore >= 1 && defaultSatisfactionScore <= 5)) {
+    throw new InvalidInputError(`defaultSatisfactionScore must be between 1 and 5, got ${defaultSatisfactionScore}`);
+  }
+  if (businessHours) {
+    validateBusinessHours(businessHours);
+  }
+
+  const end = asOf.getTime();
+  const windowStart = end - windowDays * MS_PER_DAY;
+  const normalized = normalizeTickets(tickets).filter(ticket => ticket.openedAt <= end);
+  const knownIds = new Set(normalized.map(ticket => ticket.id));
+
+  const ticketIds: SupportDrillDown = {
+    opened: [], resolved: [], rated: [], escalated: [], open: [], ignoredDuplicates: []
+  };
+  const resolutionHours: number[] = [];
+  const hoursByPriority = new Map<TicketPriority, number[]>();
+  const ratings: number[] = [];
+
+  for (const ticket of normalized) {
+    if (ticket.duplicateOf && ticket.duplicateOf !== ticket.id && knownIds.has(ticket.duplicateOf)) {
+      ticketIds.ignoredDuplicates.push(ticket.id);
+      continue;
+    }
+
+    const resolvedBy = ticket.resolvedAt !== null && ticket.resolvedAt <= end ? ticket.resolvedAt : null;
+    // Resolved after asOf means it was still open at asOf
+    const stillOpen = ticket.status === 'open' || ticket.status === 'pending' || ticket.resolvedAt !== null;
+    if (resolvedBy === null && stillOpen) {
+      ticketIds.open.push(ticket.id);
+    }
+
+    if (ticket.openedAt <= windowStart) continue;
+    ticketIds.opened.push(ticket.id);
+
+    if (resolvedBy !== null) {
+      const hours = businessHours
+        ? businessHoursBetween(ticket.openedAt, resolvedBy, businessHours)
+        : (resolvedBy - ticket.openedAt) / MS_PER_HOUR;
+      resolutionHours.push(hours);
+      ticketIds.resolved.push(ticket.id);
+      if (ticket.priority) {
+        hoursByPriority.set(ticket.priority, [...(hoursByPriority.get(ticket.priority) ?? []), hours]);
+      }
+    }
+    if (ticket.csat !== undefined) {
+      ratings.push(ticket.csat);
+      ticketIds.rated.push(ticket.id);
+    }
+    if (ticket.escalated) {
+      ticketIds.escalated.push(ticket.id);
+    }
+  }
+
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const round1 = (value: number) => Math.round(value * 10) / 10;
+
+  return {
+    support: {
+      averageResolutionTimeHours: resolutionHours.length > 0 ? round1(average(resolutionHours)) : 0,
+      satisfactionScore: ratings.length > 0 ? round1(average(ratings)) : defaultSatisfactionScore,
+      escalationCount: ticketIds.escalated.length,
+      openTicketCount: ticketIds.open.length
+    },
+    supportTicketsOpened: Math.round((ticketIds.opened.length * MONTH_DAYS) / windowDays),
+    satisfactionDefaulted: ratings.length === 0,
+    resolutionHoursByPriority: Object.fromEntries(
+      [...hoursByPriority].map(([priority, hours]) => [priority, round1(average(hours))])
+    ),
+    windowStart: new Date(windowStart),
+    windowEnd: new Date(end),
+    ticketIds
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Portfolio Health
+ *
+ * Aggregates health scores across a book of business: score distribution
+ * and percentiles, an ARR-weighted mean, revenue at risk per risk level,
+ * customer counts per subscription tier and the weakest factor per segment.
+ *
+ * @module portfolioHealth
+ */
+
+import type { Customer, SubscriptionTier } from '@/data/mock-customers';
+import {
+  calculateHealthScore,
+  type HealthFactor,
+  type HealthScorer,
+  type HealthScoreResult,
+  type PartialCustomerHealthData,
+  type RiskLevel
+} from '@/lib/healthCalculator';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A customer together with the health data used to score it
+ */
+export interface PortfolioEntry {
+  customer: Customer;
+  healthData: PartialCustomerHealthData;
+}
+
+/**
+ * Segment key: a subscription tier, or 'unassigned' for customers without one
+ */
+export type PortfolioSegmentKey = SubscriptionTier | 'unassigned';
+
+/**
+ * Score percentiles across the portfolio
+ */
+export interface PortfolioPercentiles {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+/**
+ * Number of customers whose score falls in a 10-point bucket
+ */
+export interface ScoreHistogramBucket {
+  /** Lowest score in the bucket (inclusive) */
+  min: number;
+  /** Highest score in the bucket (inclusive) */
+  max: number;
+  /** Customers in the bucket */
+  count: number;
+}
+
+/**
+ * Factor with the lowest average score within a segment
+ */
+export interface WorstFactor {
+  factor: HealthFactor;
+  averageScore: number;
+}
+
+/**
+ * Aggregates for one subscription tier
+ */
+export interface PortfolioSegment {
+  segment: PortfolioSegmentKey;
+  customerCount: number;
+  averageScore: number;
+  arrWeightedScore: number;
+  totalArr: number;
+  worstFactor: WorstFactor | null;
+}
+
+/**
+ * Customer that could not be scored
+ */
+export interface PortfolioScoringError {
+  customerId: string;
+  message: string;
+}
+
+/**
+ * Portfolio-level health summary
+ */
+export interface PortfolioHealth {
+  /** Customers passed in */
+  customerCount: number;
+  /** Customers that were scored successfully */
+  scoredCount: number;
+  /** Unweighted mean of overall scores */
+  averageScore: number;
+  /** Mean of overall scores weighted by annual contract value */
+  arrWeightedScore: number;
+  /** Sum of annual contract values of scored customers */
+  totalArr: number;
+  /** Customers per risk level */
+  distribution: Record<RiskLevel, number>;
+  /** Customers per 10-point score bucket */
+  histogram: ScoreHistogramBucket[];
+  /** Score percentiles */
+  percentiles: PortfolioPercentiles;
+  /** Annual contract value per risk level */
+  revenueAtRisk: Record<RiskLevel, number>;
+  /** Customers per subscription tier */
+  tierCounts: Record<PortfolioSegmentKey, number>;
+  /** Aggregates per subscription tier */
+  segments: PortfolioSegment[];
+  /** Customers that failed validation or scoring */
+  errors: PortfolioScoringError[];
+}
+
+/**
+ * Options for portfolio scoring
+ */
+export interface PortfolioHealthOptions {
+  /** Scorer to use instead of the default profile */
+  scorer?: HealthScorer;
+}
+
+interface ScoredEntry {
+  customer: Customer;
+  result: HealthScoreResult;
+  arr: number;
+}
+
+const SEGMENT_ORDER: PortfolioSegmentKey[] = ['enterprise', 'premium', 'basic', 'unassigned'];
+
+// ============================================================================
+// Aggregation Utilities
+// ============================================================================
+
+/**
+ * Percentile with linear interpolation between closest ranks
+ */
+function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) return 0;
+  const rank = (p / 100) * (sortedValues.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower);
+}
+
+/**
+ * Mean of overall scores, optionally weighted by ARR
+ * Falls back to the unweighted mean when no customer has contract value.
+ */
+function meanScore(entries: ScoredEntry[], weightByArr: boolean): number {
+  if (entries.length === 0) return 0;
+
+  const totalArr = entries.reduce((sum, entry) => sum + entry.arr, 0);
+  if (weightByArr && totalArr > 0) {
+    return entries.reduce((sum, entry) => sum + entry.result.overallScore * entry.arr, 0) / totalArr;
+  }
+  return entries.reduce((sum, entry) => sum + entry.result.overallScore, 0) / entries.length;
+}
+
+/**
+ * Factor with the lowest average score across entries
+ */
+function findWorstFactor(entries: ScoredEntry[]): WorstFactor | null {
+  let worst: WorstFactor | null = null;
+  const factors = new Set(entries.flatMap(entry => Object.keys(entry.result.breakdown)));
+
+  for (const factor of factors) {
+    const scores = entries
+      .map(entry => entry.result.breakdown[factor]?.score)
+      .filter((score): score is number => score !== undefined);
+    if (scores.length === 0) continue;
+
+    const averageScore = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    if (!worst || averageScore < worst.averageScore) {
+      worst = { factor, averageScore };
+    }
+  }
+
+  return worst;
+}
+
+/**
+ * Ten 10-point buckets (the last one is 90-100)
+ */
+function buildHistogram(scores: number[]): ScoreHistogramBucket[] {
+  const buckets: ScoreHistogramBucket[] = Array.from({ length: 10 }, (_, i) => ({
+    min: i * 10,
+    max: i === 9 ? 100 : i * 10 + 9,
+    count: 0
+  }));
+  for (const score of scores) {
+    buckets[Math.min(9, Math.floor(score / 10))].count++;
+  }
+  return buckets;
+}
+
+// ============================================================================
+// Portfolio Calculator
+// ============================================================================
+
+/**
+ * Calculate portfolio-level health for a book of business
+ *
+ * Each customer is scored with partial data allowed. Customers that fail
+ * validation are reported in `errors` and excluded from the aggregates.
+ * ARR is taken from `contract.contractValue`; customers without contract
+ * data count towards score statistics but carry no revenue.
+ *
+ * @param entries - Customers with their health data
+ * @param options - Portfolio options
+ * @returns Portfolio health summary
+ *
+ * @example
+ * const portfolio = calculatePortfolioHealth(
+ *   mockCustomers.map(customer => ({ customer, healthData: getCustomerHealthData(customer.id)! }))
+ * );
+ * // portfolio.arrWeightedScore, portfolio.revenueAtRisk.critical, ...
+ */
+export function calculatePortfolioHealth(
+  entries: PortfolioEntry[],
+  options: PortfolioHealthOptions = {}
+): PortfolioHealth {
+  const scored: ScoredEntry[] = [];
+  const errors: PortfolioScoringError[] = [];
+
+  for (const { customer, healthData } of entries) {
+    try {
+      const data = { ...healthData, customerId: healthData.customerId ?? customer.id };
+      const result = options.scorer
+        ? options.scorer.calculate(data, { allowPartialData: true })
+        : calculateHealthScore(data, { allowPartialData: true });
+      scored.push({ customer, result, arr: healthData.contract?.contractValue ?? 0 });
+    } catch (error) {
+      errors.push({
+        customerId: customer.id,
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  const scores = scored.map(entry => entry.result.overallScore).sort((a, b) => a - b);
+
+  const distribution: Record<RiskLevel, number> = { healthy: 0, warning: 0, critical: 0 };
+  const revenueAtRisk: Record<RiskLevel, number> = { healthy: 0, warning: 0, critical: 0 };
+  const tierCounts: Record<PortfolioSegmentKey, number> = { enterprise: 0, premium: 0, basic: 0, unassigned: 0 };
+  const bySegment = new Map<PortfolioSegmentKey, ScoredEntry[]>();
+
+  for (const entry of scored) {
+    distribution[entry.result.riskLevel]++;
+    revenueAtRisk[entry.result.riskLevel] += entry.arr;
+
+    const segment = entry.customer.subscriptionTier ?? 'unassigned';
+    tierCounts[segment]++;
+    bySegment.set(segment, [...(bySegment.get(segment) ?? []), entry]);
+  }
+
+  const segments = SEGMENT_ORDER
+    .filter(segment => bySegment.has(segment))
+    .map((segment): PortfolioSegment => {
+      const segmentEntries = bySegment.get(segment)!;
+      return {
+        segment,
+        customerCount: segmentEntries.length,
+        averageScore: meanScore(segmentEntries, false),
+        arrWeightedScore: meanScore(segmentEntries, true),
+        totalArr: segmentEntries.reduce((sum, entry) => sum + entry.arr, 0),
+        worstFactor: findWorstFactor(segmentEntries)
+      };
+    });
+
+  return {
+    customerCount: entries.length,
+    scoredCount: scored.length,
+    averageScore: meanScore(scored, false),
+    arrWeightedScore: meanScore(scored, true),
+    totalArr: scored.reduce((sum, entry) => sum + entry.arr, 0),
+    distribution,
+    histogram: buildHistogram(scores),
+    percentiles: {
+      p10: percentile(scores, 10),
+      p25: percentile(scores, 25),
+      p50: percentile(scores, 50),
+      p75: percentile(scores, 75),
+      p90: percentile(scores, 90)
+    },
+    revenueAtRisk,
+    tierCounts,
+    segments,
+    errors
+  };
+}
@@ -0,0 +1,284 @@
+/**
+ * Health Score Reconciliation
+ *
+ * Keeps the stored `Customer.healthScore` in step with the calculator:
+ * recomputes every customer's score, reports drift between the stored and
+ * calculated values (including risk band changes) and writes corrected
+ * scores back through a customer store.
+ *
+ * @module scoreReconciliation
+ */
+
+import type { Customer } from '@/data/mock-customers';
+import {
+  calculateHealthScore,
+  classifyRiskLevel,
+  DEFAULT_SCORING_PROFILE,
+  InvalidInputError,
+  type HealthScorer,
+  type HealthScoreResult,
+  type PartialCustomerHealthData,
+  type RiskLevel
+} from '@/lib/healthCalculator';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * How a customer's stored score compares to the calculated one
+ *
+ * - in_sync: within tolerance
+ * - drifted: outside tolerance, same risk level
+ * - band_changed: the calculated score falls in a different risk level
+ * - no_data: no health data to calculate from; the stored score stands
+ * - error: the health data failed validation or scoring
+ */
+export type ScoreDriftStatus = 'in_sync' | 'drifted' | 'band_changed' | 'no_data' | 'error';
+
+/**
+ * Drift for one customer
+ */
+export interface CustomerScoreDrift {
+  customerId: string;
+  company: string;
+  storedScore: number;
+  /** Null when the score could not be calculated */
+  calculatedScore: number | null;
+  /** calculatedScore - storedScore */
+  delta: number | null;
+  storedRiskLevel: RiskLevel;
+  calculatedRiskLevel: RiskLevel | null;
+  status: ScoreDriftStatus;
+  /** Stored updatedAt, used to detect concurrent edits on write-back */
+  storedUpdatedAt?: string;
+  /** Full calculation result, when scored */
+  result?: HealthScoreResult;
+  /** Validation or scoring error, for status 'error' */
+  message?: string;
+}
+
+/**
+ * Drift across a set of customers
+ */
+export interface ReconciliationReport {
+  checkedAt: Date;
+  customerCount: number;
+  inSyncCount: number;
+  /** Customers outside tolerance, including band changes */
+  driftedCount: number;
+  bandChangeCount: number;
+  /** Customers without data or whose data failed scoring */
+  unscoredCount: number;
+  /** Largest absolute delta among scored customers */
+  maxAbsoluteDrift: number;
+  /** Mean absolute delta among scored customers */
+  meanAbsoluteDrift: number;
+  /** One entry per customer, largest drift first; unscored customers last */
+  entries: CustomerScoreDrift[];
+}
+
+/**
+ * Options for reconciliation
+ */
+export interface ReconciliationOptions {
+  /** Scorer to use instead of the default profile */
+  scorer?: HealthScorer;
+  /** Absolute difference, in points, still considered in sync (default 0) */
+  tolerance?: number;
+}
+
+/**
+ * A corrected score to persist
+ */
+export interface HealthScoreUpdate {
+  customerId: string;
+  healthScore: number;
+  /** ISO timestamp to store as the customer's updatedAt */
+  updatedAt: string;
+  /** updatedAt the score was reconciled against; stores may reject the update if it changed since */
+  expectedUpdatedAt?: string;
+}
+
+/**
+ * Write side of a customer store that reconciliation can update
+ */
+export interface CustomerScoreWriter {
+  /**
+   * Persist a customer's recalculated health score
+   * @throws If the customer is missing or was modified since expectedUpdatedAt
+   */
+  updateHealthScore(update: HealthScoreUpdate): Promise<void>;
+}
+
+/**
+ * Options for writing reconciled scores back
+ */
+export interface ScoreWriteBackOptions {
+  /** Only update customers whose risk level changed (default false: every drifted customer) */
+  bandChangesOnly?: boolean;
+  /** Report what would be written without calling the writer (default false) */
+  dryRun?: boolean;
+  /** Timestamp recorded as updatedAt (default now) */
+  updatedAt?: Date;
+}
+
+/**
+ * Outcome of a write-back
+ */
+export interface ScoreWriteBackResult {
+  /** Updates written (or, in a dry run, that would have been written) */
+  updated: HealthScoreUpdate[];
+  /** Customers whose update the writer rejected */
+  failed: { customerId: string; message: string }[];
+  dryRun: boolean;
+}
+
+// ============================================================================
+// Reconciliation
+// ============================================================================
+
+/**
+ * Recalculate every customer's score and report drift from the stored value
+ *
+ * @param customers - Customers with their stored health scores
+ * @param getHealthData - Looks up a customer's health data (undefined when there is none)
+ * @param options - Reconciliation options
+ * @returns Drift report, largest drift first
+ * @throws {InvalidInputError} If tolerance is negative or not finite
+ *
+ * @example
+ * const report = reconcileHealthScores(mockCustomers, getCustomerHealthData);
+ * report.entries.filter(entry => entry.status === 'band_changed');
+ */
+export function reconcileHealthScores(
+  customers: Customer[],
+  getHealthData: (customerId: string) => PartialCustomerHealthData | undefined,
+  options: ReconciliationOptions = {}
+): ReconciliationReport {
+  const { scorer, tolerance = 0 } = options;
+  if (!Number.isFinite(tolerance) || tolerance < 0) {
+    throw new InvalidInputError(`tolerance must be a non-negative number, got ${tolerance}`);
+  }
+  const riskBands = scorer?.profile.riskBands ?? DEFAULT_SCORING_PROFILE.riskBands;
+
+  const entries = customers.map((customer): CustomerScoreDrift => {
+    const base = {
+      customerId: customer.id,
+      company: customer.company,
+      storedScore: customer.healthScore,
+      storedRiskLevel: classifyRiskLevel(customer.healthScore, riskBands),
+      storedUpdatedAt: customer.updatedAt
+    };
+    const unscored = { calculatedScore: null, delta: null, calculatedRiskLevel: null };
+
+    const healthData = getHealthData(customer.id);
+    if (!healthData) {
+      return { ...base, ...unscored, status: 'no_data' };
+    }
+
+    try {
+      const data = { ...healthData, customerId: healthData.customerId ?? customer.id };
+      const result = scorer
+        ? scorer.calculate(data, { allowPartialData: true })
+        : calculateHealthScore(data, { allowPartialData: true });
+      const delta = result.overallScore - customer.healthScore;
+      const status: ScoreDriftStatus = result.riskLevel !== base.storedRiskLevel
+        ? 'band_changed'
+        : Math.abs(delta) > tolerance ? 'drifted' : 'in_sync';
+
+      return {
+        ...base,
+        calculatedScore: result.overallScore,
+        delta,
+        calculatedRiskLevel: result.riskLevel,
+        status,
+        result
+      };
+    } catch (error) {
+      return {
+        ...base,
+        ...unscored,
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  });
+
+  const deltas = entries
+    .filter(entry => entry.delta !== null)
+    .map(entry => Math.abs(entry.delta!));
+  entries.sort((a, b) =>
+    (b.delta === null ? -1 : Math.abs(b.delta)) - (a.delta === null ? -1 : Math.abs(a.delta))
+  );
+
+  return {
+    checkedAt: new Date(),
+    customerCount: customers.length,
+    inSyncCount: entries.filter(entry => entry.status === 'in_sync').length,
+    driftedCount: entries.filter(entry => entry.status === 'drifted' || entry.status === 'band_changed').length,
+    bandChangeCount: entries.filter(entry => entry.status === 'band_changed').length,
+    unscoredCount: entries.filter(entry => entry.status === 'no_data' || entry.status === 'error').length,
+    maxAbsoluteDrift: deltas.length > 0 ? Math.max(...deltas) : 0,
+    meanAbsoluteDrift: deltas.length > 0 ? deltas.reduce((sum, delta) => sum + delta, 0) / deltas.length : 0,
+    entries
+  };
+}
+
+// ============================================================================
+// Write-Back
+// ============================================================================
+
+/**
+ * Persist calculated scores for drifted customers
+ *
+ * Updates are written one at a time; a rejected update (e.g., a customer
+ * edited since the report was produced) is recorded in `failed` and does
+ * not stop the others. Customers that are in sync or could not be scored
+ * are never written.
+ *
+ * @param report - Report from reconcileHealthScores
+ * @param writer - Customer store to update
+ * @param options - Write-back options
+ * @returns Updates written and updates rejected
+ *
+ * @example
+ * const report = reconcileHealthScores(customers, getCustomerHealthData);
+ * const { updated, failed } = await writeBackHealthScores(report, repository);
+ */
+export async function writeBackHealthScores(
+  report: ReconciliationReport,
+  writer: CustomerScoreWriter,
+  options: ScoreWriteBackOptions = {}
+): Promise<ScoreWriteBackResult> {
+  const { bandChangesOnly = false, dryRun = false } = options;
+  const updatedAt = (options.updatedAt ?? new Date()).toISOString();
+
+  const updates = report.entries
+    .filter(entry => entry.status === 'band_changed' || (!bandChangesOnly && entry.status === 'drifted'))
+    .map((entry): HealthScoreUpdate => ({
+      customerId: entry.customerId,
+      healthScore: entry.calculatedScore!,
+      updatedAt,
+      expectedUpdatedAt: entry.storedUpdatedAt
+    }));
+
+  if (dryRun) {
+    return { updated: updates, failed: [], dryRun };
+  }
+
+  const updated: HealthScoreUpdate[] = [];
+  const failed: ScoreWriteBackResult['failed'] = [];
+  for (const update of updates) {
+    try {
+      await writer.updateHealthScore(update);
+      updated.push(update);
+    } catch (error) {
+      failed.push({
+        customerId: update.customerId,
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+  return { updated, failed, dryRun };
+}
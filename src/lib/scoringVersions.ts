@@ -0,0 +1,269 @@
+/**
+ * Scoring Versions
+ *
+ * Registry of algorithm/profile versions that produced health scores, so a
+ * past result can be recomputed exactly and different versions can be
+ * compared for the same customer. Used for audits when a customer disputes
+ * a risk flag.
+ *
+ * @module scoringVersions
+ */
+
+import {
+  createHealthScorer,
+  DEFAULT_SCORING_PROFILE,
+  hashHealthInput,
+  HEALTH_ALGORITHM_VERSION,
+  InvalidInputError,
+  type HealthFactor,
+  type HealthScoreOptions,
+  type HealthScorer,
+  type HealthScoreResult,
+  type PartialCustomerHealthData,
+  type RiskLevel,
+  type ScoreVersion
+} from '@/lib/healthCalculator';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A registered scoring version
+ */
+export interface RegisteredScoringVersion {
+  /** Registry key (see formatScoreVersion) */
+  id: string;
+  version: ScoreVersion;
+  /** Scorer that reproduces results for this version */
+  scorer: HealthScorer;
+  /** What changed in this version */
+  description?: string;
+  /** When this version went into use */
+  releasedAt?: Date;
+}
+
+/**
+ * Options when registering a version
+ */
+export interface RegisterScoringVersionOptions {
+  description?: string;
+  releasedAt?: Date;
+}
+
+/**
+ * Outcome of recomputing a stored result
+ */
+export interface ScoreReproduction {
+  /** Result stored at the time */
+  original: HealthScoreResult;
+  /** Result recomputed with the original version */
+  recomputed: HealthScoreResult;
+  /** Whether the supplied data hashes to the original inputHash */
+  inputMatches: boolean;
+  /** Whether the recomputed overall score and risk level equal the original (its band level, if held) */
+  scoreMatches: boolean;
+}
+
+/**
+ * Difference between two versions for one factor
+ */
+export interface FactorVersionDelta {
+  factor: HealthFactor;
+  /** Factor score under the base version (null when excluded) */
+  from: number | null;
+  /** Factor score under the compared version (null when excluded) */
+  to: number | null;
+  /** to - from; 0 when either side is missing */
+  delta: number;
+}
+
+/**
+ * Side-by-side scores for one customer under two versions
+ */
+export interface ScoreVersionComparison {
+  from: HealthScoreResult;
+  to: HealthScoreResult;
+  /** Change in overall score (to - from) */
+  delta: number;
+  riskLevelChanged: boolean;
+  /** Risk level transition, when it changed */
+  riskLevelChange: { from: RiskLevel; to: RiskLevel } | null;
+  factorDeltas: FactorVersionDelta[];
+}
+
+// ============================================================================
+// Version Registry
+// ============================================================================
+
+/**
+ * Registry key for a version (e.g., '1.0.0/default@1.0.0')
+ */
+export function formatScoreVersion(version: ScoreVersion): string {
+  return `${version.algorithm}/${version.profile}@${version.profileVersion}`;
+}
+
+/**
+ * Registry of scorers keyed by the version they reproduce
+ *
+ * When factor formulas change, keep the previous implementation around as a
+ * HealthScorer reporting the old algorithmVersion and register it here.
+ *
+ * @example
+ * const registry = new ScoringVersionRegistry();
+ * registry.register(createHealthScorer({ ...DEFAULT_SCORING_PROFILE, version: '1.1.0', weights }));
+ * const comparison = registry.compare(customerData, '1.0.0/default@1.0.0', '1.0.0/default@1.1.0');
+ */
+export class ScoringVersionRegistry {
+  private readonly versions = new Map<string, RegisteredScoringVersion>();
+
+  /**
+   * Register the version a scorer produces
+   * @throws {InvalidInputError} If a different scorer is already registered for the version
+   */
+  register(scorer: HealthScorer, options: RegisterScoringVersionOptions = {}): RegisteredScoringVersion {
+    const version: ScoreVersion = {
+      algorithm: scorer.algorithmVersion,
+      profile: scorer.profile.name,
+      profileVersion: scorer.profile.version
+    };
+    const id = formatScoreVersion(version);
+
+    const existing = this.versions.get(id);
+    if (existing) {
+      if (existing.scorer === scorer) return existing;
+      throw new InvalidInputError(`Scoring version ${id} is already registered; bump the profile version`);
+    }
+
+    const entry: RegisteredScoringVersion = { id, version, scorer, ...options };
+    this.versions.set(id, entry);
+    return entry;
+  }
+
+  /**
+   * Registered version by key or version, or undefined
+   */
+  get(version: string | ScoreVersion): RegisteredScoringVersion | undefined {
+    return this.versions.get(typeof version === 'string' ? version : formatScoreVersion(version));
+  }
+
+  /**
+   * All registered versions in registration order
+   */
+  list(): RegisteredScoringVersion[] {
+    return [...this.versions.values()];
+  }
+
+  /**
+   * Calculate a health score with a registered version
+   * @throws {InvalidInputError} If the version is not registered or the data is invalid
+   */
+  calculate(
+    customerData: PartialCustomerHealthData,
+    version: string | ScoreVersion,
+    options: HealthScoreOptions = {}
+  ): HealthScoreResult {
+    return this.require(version).scorer.calculate(customerData, options);
+  }
+
+  /**
+   * Recompute a stored result with the version that produced it
+   *
+   * Partial data is allowed when the original result had missing factors.
+   * The recomputation has no previous result, so the risk level is checked
+   * against the score's band (`bandRiskLevel` when hysteresis held the
+   * stored level): a held level depends on history and is not reproducible
+   * from the input alone.
+   *
+   * @param original - Stored result
+   * @param customerData - Input data believed to be the original input
+   * @returns Recomputed result with hash and score checks
+   * @throws {InvalidInputError} If the original version is not registered
+   */
+  reproduce(original: HealthScoreResult, customerData: PartialCustomerHealthData): ScoreReproduction {
+    const recomputed = this.calculate(customerData, original.version, {
+      allowPartialData: original.missingFactors.length > 0
+    });
+
+    return {
+      original,
+      recomputed,
+      inputMatches: hashHealthInput(customerData) === original.inputHash,
+      scoreMatches:
+        recomputed.overallScore === original.overallScore &&
+        recomputed.riskLevel === (original.bandRiskLevel ?? original.riskLevel)
+    };
+  }
+
+  /**
+   * Score one customer under two versions and report the differences
+   *
+   * @param customerData - Customer health data
+   * @param from - Base version
+   * @param to - Version to compare against the base
+   * @param options - Calculation options applied to both versions
+   * @returns Side-by-side comparison
+   * @throws {InvalidInputError} If either version is not registered or the data is invalid
+   */
+  compare(
+    customerData: PartialCustomerHealthData,
+    from: string | ScoreVersion,
+    to: string | ScoreVersion,
+    options: HealthScoreOptions = {}
+  ): ScoreVersionComparison {
+    const fromResult = this.calculate(customerData, from, options);
+    const toResult = this.calculate(customerData, to, options);
+    const riskLevelChanged = fromResult.riskLevel !== toResult.riskLevel;
+
+    return {
+      from: fromResult,
+      to: toResult,
+      delta: toResult.overallScore - fromResult.overallScore,
+      riskLevelChanged,
+      riskLevelChange: riskLevelChanged ? { from: fromResult.riskLevel, to: toResult.riskLevel } : null,
+      factorDeltas: [...new Set([...Object.keys(fromResult.breakdown), ...Object.keys(toResult.breakdown)])].map(factor => {
+        const fromScore = fromResult.breakdown[factor]?.score ?? null;
+        const toScore = toResult.breakdown[factor]?.score ?? null;
+        return {
+          factor,
+          from: fromScore,
+          to: toScore,
+          delta: fromScore !== null && toScore !== null ? toScore - fromScore : 0
+        };
+      })
+    };
+  }
+
+  private require(version: string | ScoreVersion): RegisteredScoringVersion {
+    const entry = this.get(version);
+    if (!entry) {
+      const id = typeof version === 'string' ? version : formatScoreVersion(version);
+      throw new InvalidInputError(`Unknown scoring version ${id}`);
+    }
+    return entry;
+  }
+}
+
+// ============================================================================
+// Default Registry
+// ============================================================================
+
+/**
+ * Registry used by the app, pre-loaded with every released version
+ *
+ * Append new entries here instead of replacing old ones.
+ */
+export const scoringVersions = new ScoringVersionRegistry();
+
+scoringVersions.register(createHealthScorer(DEFAULT_SCORING_PROFILE), {
+  description: 'Initial payment/engagement/contract/support model (40/30/20/10)'
+});
+
+/**
+ * Version that calculateHealthScore currently produces
+ */
+export const CURRENT_SCORE_VERSION: ScoreVersion = {
+  algorithm: HEALTH_ALGORITHM_VERSION,
+  profile: DEFAULT_SCORING_PROFILE.name,
+  profileVersion: DEFAULT_SCORING_PROFILE.version
+};
@@ -0,0 +1,525 @@
+/**
+ * Synthetic Customer Data
+ *
+ * Deterministic generator for realistic customer datasets: customers with
+ * plausible names, companies, domains, tiers and dates, matching health
+ * data that scores into a chosen mix of healthy, warning and critical
+ * accounts, and optional month-by-month history. The same seed and options
+ * always produce the same dataset, so demos and load tests are repeatable
+ * at any scale.
+ *
+ * @module syntheticData
+ */
+
+import type { Customer, SubscriptionTier } from '@/data/mock-customers';
+import {
+  calculateHealthScore,
+  classifyRiskLevel,
+  type CustomerHealthData,
+  type HealthScoreResult,
+  type RiskLevel,
+  type ValidationIssue
+} from '@/lib/healthCalculator';
+import { throwIfIssues } from '@/lib/ingestion/records';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Pseudo-random number generator returning values in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Options for generating a dataset
+ */
+export interface SyntheticDatasetOptions {
+  /** Number of customers to generate */
+  count: number;
+  /** Seed; the same seed and options always produce the same dataset (default: 1) */
+  seed?: number | string;
+  /** Relative share of accounts per risk band; normalized to sum to 1 (default: 60/25/15) */
+  riskMix?: Partial<Record<RiskLevel, number>>;
+  /** Relative share of accounts per tier; normalized to sum to 1 (default: 50/35/15) */
+  tierMix?: Partial<Record<SubscriptionTier, number>>;
+  /** Months of history to generate before the current snapshot (default: 0, none) */
+  historyMonths?: number;
+  /** "Now" for the dataset: creation dates fall before it and history ends at it (default: 2025-01-01) */
+  referenceDate?: Date;
+  /** Prefix for generated customer IDs (default: 'syn-') */
+  idPrefix?: string;
+}
+
+/**
+ * A customer's health data at the end of one month
+ */
+export interface SyntheticHistoryPoint {
+  /** ISO timestamp of the snapshot */
+  asOf: string;
+  healthData: CustomerHealthData;
+}
+
+/**
+ * Generated dataset; `customers` and `healthData` form a CustomerRepositorySeed
+ */
+export interface SyntheticDataset {
+  customers: Customer[];
+  /** Current health data by customer ID */
+  healthData: Record<string, CustomerHealthData>;
+  /** Monthly snapshots by customer ID, oldest first, ending with the current data */
+  history: Record<string, SyntheticHistoryPoint[]>;
+}
+
+/** Default reference date, fixed so that datasets do not depend on when they are generated */
+export const DEFAULT_SYNTHETIC_REFERENCE_DATE = new Date('2025-01-01T00:00:00Z');
+
+/** Largest dataset the generator accepts */
+export const MAX_SYNTHETIC_CUSTOMERS = 1_000_000;
+
+const DEFAULT_RISK_MIX: Record<RiskLevel, number> = { healthy: 0.6, warning: 0.25, critical: 0.15 };
+const DEFAULT_TIER_MIX: Record<SubscriptionTier, number> = { basic: 0.5, premium: 0.35, enterprise: 0.15 };
+
+/** Latent health range sampled first for each band, before the score is checked */
+const LATENT_RANGES: Record<RiskLevel, [number, number]> = {
+  critical: [0.05, 0.3],
+  warning: [0.4, 0.6],
+  healthy: [0.72, 0.98]
+};
+
+/** Annual contract value range by tier, in dollars */
+const CONTRACT_VALUES: Record<SubscriptionTier, [number, number]> = {
+  basic: [2000, 15000],
+  premium: [15000, 80000],
+  enterprise: [80000, 400000]
+};
+
+/** Seat count range by tier */
+const SEATS: Record<SubscriptionTier, [number, number]> = {
+  basic: [1, 8],
+  premium: [5, 40],
+  enterprise: [25, 400]
+};
+
+/** Bisection steps used to land a customer's score in its target band */
+const MAX_BAND_SEARCH_STEPS = 12;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const FIRST_NAMES = [
+  'Ana', 'Ben', 'Chloe', 'Daniel', 'Elena', 'Farah', 'George', 'Hana', 'Ibrahim', 'Julia', 'Kenji', 'Laura',
+  'Mateo', 'Nadia', 'Oliver', 'Priya', 'Quentin', 'Rosa', 'Samuel', 'Tara', 'Umar', 'Vera', 'William', 'Ximena',
+  'Yusuf', 'Zoe', 'Amara', 'Bruno', 'Camille', 'Dmitri', 'Esther', 'Felix', 'Grace', 'Hugo', 'Ingrid', 'Jonas'
+];
+
+const LAST_NAMES = [
+  'Adams', 'Bauer', 'Costa', 'Dubois', 'Evans', 'Fischer', 'Garcia', 'Hughes', 'Ito', 'Jensen', 'Kim', 'Lima',
+  'Moreau', 'Nakamura', 'Okafor', 'Patel', 'Quinn', 'Rossi', 'Schmidt', 'Tanaka', 'Usman', 'Varga', 'Walsh',
+  'Xu', 'Yilmaz', 'Zimmer', 'Alvarez', 'Brennan', 'Chen', 'Diaz', 'Eriksson', 'Fontaine', 'Gupta', 'Haddad'
+];
+
+const COMPANY_PREFIXES = [
+  'Acorn', 'Beacon', 'Bluebird', 'Cascade', 'Cedar', 'Copper', 'Crescent', 'Delta', 'Ember', 'Evergreen',
+  'Falcon', 'Granite', 'Harbor', 'Horizon', 'Ironwood', 'Juniper', 'Keystone', 'Lantern', 'Maple', 'Meridian',
+  'Northwind', 'Oakridge', 'Orbit', 'Pinnacle', 'Quartz', 'Redwood', 'Riverstone', 'Sapphire', 'Summit',
+  'Tidewater', 'Trident', 'Upland', 'Vantage', 'Willow', 'Zenith'
+];
+
+const COMPANY_SUFFIXES = [
+  'Analytics', 'Logistics', 'Labs', 'Health', 'Systems', 'Software', 'Foods', 'Energy', 'Capital', 'Robotics',
+  'Media', 'Freight', 'Retail', 'Networks', 'Biotech', 'Consulting', 'Manufacturing', 'Security', 'Travel'
+];
+
+const COMPANY_FORMS = ['', ' Inc', ' LLC', ' Group', ' Co', ' Ltd'];
+
+const TOP_LEVEL_DOMAINS = ['com', 'com', 'com', 'io', 'co', 'net', 'ai'];
+
+// ============================================================================
+// Random Numbers
+// ============================================================================
+
+/**
+ * Hash a string seed to a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ *
+ * Fast and small-state; suitable for test data, not for anything security
+ * related.
+ *
+ * @param seed - Integer or string seed
+ * @returns Generator of values in [0, 1)
+ *
+ * @example
+ * const random = createRandom(42);
+ * random(); // same sequence on every run
+ */
+export function createRandom(seed: number | string): RandomSource {
+  let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Uniform value in [min, max)
+ */
+function between(random: RandomSource, min: number, max: number): number {
+  return min + random() * (max - min);
+}
+
+/**
+ * Uniformly chosen element
+ */
+function pick<T>(random: RandomSource, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Shuffle in place (Fisher-Yates)
+ */
+function shuffle<T>(random: RandomSource, items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Exactly `count` labels in the given proportions (largest remainder), shuffled
+ */
+function allocate<T extends string>(random: RandomSource, mix: Record<T, number>, count: number): T[] {
+  const keys = Object.keys(mix) as T[];
+  const total = keys.reduce((sum, key) => sum + mix[key], 0);
+  const exact = keys.map(key => (mix[key] / total) * count);
+  const counts = exact.map(Math.floor);
+  const byRemainder = keys.map((_, i) => i).sort((a, b) => (exact[b] - counts[b]) - (exact[a] - counts[a]));
+  for (let i = 0; i < count - counts.reduce((sum, n) => sum + n, 0); i++) {
+    counts[byRemainder[i]]++;
+  }
+  return shuffle(random, keys.flatMap((key, i) => new Array<T>(counts[i]).fill(key)));
+}
+
+// ============================================================================
+// Health Data
+// ============================================================================
+
+/**
+ * Per-customer random draws, fixed so health data is a monotonic function
+ * of the latent health value
+ */
+interface HealthProfile {
+  tier: SubscriptionTier;
+  contractValue: number;
+  seats: number;
+  /** Per-metric offsets from the latent value */
+  noise: number[];
+  /** Thresholds for the boolean fields */
+  upgradeDraw: number;
+  autoRenewDraw: number;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Interpolate from the worst value (quality 0) to the best (quality 1)
+ */
+function scale(worst: number, best: number, quality: number): number {
+  return worst + (best - worst) * quality;
+}
+
+/**
+ * Build health data for a latent health value in [0, 1]
+ */
+function buildHealthData(customerId: string, profile: HealthProfile, latent: number): CustomerHealthData {
+  const q = profile.noise.map(offset => clamp01(latent + offset));
+  const seatShare = Math.min(1, profile.seats / 10);
+
+  return {
+    customerId,
+    payment: {
+      daysSinceLastPayment: Math.round(scale(75, 3, q[0])),
+      averagePaymentDelay: Math.round(scale(40, 0, q[1])),
+      overdueAmount: q[2] > 0.75 ? 0 : Math.round(scale(profile.contractValue * 0.25, 0, q[2]) / 100) * 100,
+      paymentConsistency: Math.round(scale(0.35, 0.99, q[3]) * 100) / 100
+    },
+    engagement: {
+      loginsPerMonth: Math.round(scale(1, 40 + 30 * seatShare, q[4])),
+      featureUsageCount: Math.round(scale(1, 20, q[5])),
+      supportTicketsOpened: Math.round(scale(25, 1, q[6])),
+      activeUserCount: Math.max(1, Math.round(profile.seats * scale(0.1, 1, q[7])))
+    },
+    contract: {
+      daysUntilRenewal: Math.round(scale(5, 330, q[8])),
+      contractValue: profile.contractValue,
+      hasRecentUpgrades: profile.upgradeDraw < latent * 0.6,
+      autoRenewalEnabled: profile.autoRenewDraw < 0.2 + latent * 0.7
+    },
+    support: {
+      averageResolutionTimeHours: Math.round(scale(70, 2, q[9])),
+      satisfactionScore: Math.round(scale(1.2, 5, q[10]) * 10) / 10,
+      escalationCount: Math.round(scale(9, 0, q[11])),
+      openTicketCount: Math.round(scale(18, 0, q[12]))
+    }
+  };
+}
+
+/**
+ * Find health data scoring in the target band
+ *
+ * Starts from a latent value sampled in the band's typical range and
+ * bisects until the calculated score lands in the band. A customer whose
+ * noise makes the band unreachable keeps its closest attempt.
+ */
+function generateHealthData(
+  random: RandomSource,
+  customerId: string,
+  profile: HealthProfile,
+  target: RiskLevel
+): { healthData: CustomerHealthData; latent: number; score: number } {
+  let [low, high] = [0, 1];
+  let latent = between(random, ...LATENT_RANGES[target]);
+  let attempt = buildHealthData(customerId, profile, latent);
+  let score = calculateHealthScore(attempt).overallScore;
+
+  for (let step = 0; step < MAX_BAND_SEARCH_STEPS && classifyRiskLevel(score) !== target; step++) {
+    const tooHigh = target === 'critical' || (target === 'warning' && classifyRiskLevel(score) === 'healthy');
+    if (tooHigh) {
+      high = latent;
+    } else {
+      low = latent;
+    }
+    latent = (low + high) / 2;
+    attempt = buildHealthData(customerId, profile, latent);
+    score = calculateHealthScore(attempt).overallScore;
+  }
+  return { healthData: attempt, latent, score };
+}
+
+// ============================================================================
+// Dataset Generation
+// ============================================================================
+
+/**
+ * Normalize and validate a mix option
+ */
+function resolveMix<T extends string>(
+  mix: Partial<Record<T, number>> | undefined,
+  defaults: Record<T, number>,
+  path: string,
+  issues: ValidationIssue[]
+): Record<T, number> {
+  if (!mix) return defaults;
+  const resolved = Object.fromEntries(
+    (Object.keys(defaults) as T[]).map(key => [key, mix[key] ?? 0])
+  ) as Record<T, number>;
+
+  for (const [key, share] of Object.entries(resolved) as [T, number][]) {
+    if (!Number.isFinite(share) || share < 0) {
+      issues.push({
+        path: `${path}.${key}`,
+        code: 'out_of_range',
+        message: `${path}.${key} must be a non-negative number`,
+        expected: { type: 'number', min: 0 },
+        received: share
+      });
+    }
+  }
+  if (issues.length === 0 && Object.values<number>(resolved).every(share => share === 0)) {
+    issues.push({
+      path,
+      code: 'invalid_value',
+      message: `${path} must have at least one positive share`,
+      received: mix
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Lower-case alphanumeric slug for domains and emails
+ */
+function slugify(text: string): string {
+  return text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Generate a reproducible dataset of customers with matching health data
+ *
+ * Risk bands and tiers are allocated in exact proportions to the mixes,
+ * then each customer's health data is tuned until its calculated score
+ * falls in the assigned band; the customer's healthScore is that score.
+ * Company names and domains are unique within the dataset. With
+ * `historyMonths`, each customer also gets monthly snapshots drifting
+ * towards the current data (declining accounts were healthier in the past,
+ * and vice versa).
+ *
+ * @param options - Size, seed, mixes, history and reference date
+ * @returns Customers, current health data and history
+ * @throws {InvalidInputError} If the count, mixes or history length are invalid
+ *
+ * @example
+ * const dataset = generateSyntheticDataset({ count: 10000, seed: 42, riskMix: { critical: 1, healthy: 3 } });
+ * const repository = new InMemoryCustomerRepository(dataset);
+ */
+export function generateSyntheticDataset(options: SyntheticDatasetOptions): SyntheticDataset {
+  const issues: ValidationIssue[] = [];
+  const { count, historyMonths = 0, idPrefix = 'syn-' } = options;
+  const referenceDate = options.referenceDate ?? DEFAULT_SYNTHETIC_REFERENCE_DATE;
+
+  if (!Number.isInteger(count) || count < 0 || count > MAX_SYNTHETIC_CUSTOMERS) {
+    issues.push({
+      path: 'count',
+      code: 'out_of_range',
+      message: `count must be an integer between 0 and ${MAX_SYNTHETIC_CUSTOMERS}`,
+      expected: { type: 'number', min: 0, max: MAX_SYNTHETIC_CUSTOMERS },
+      received: count
+    });
+  }
+  if (!Number.isInteger(historyMonths) || historyMonths < 0 || historyMonths > 120) {
+    issues.push({
+      path: 'historyMonths',
+      code: 'out_of_range',
+      message: 'historyMonths must be an integer between 0 and 120',
+      expected: { type: 'number', min: 0, max: 120 },
+      received: historyMonths
+    });
+  }
+  if (Number.isNaN(referenceDate.getTime())) {
+    issues.push({
+      path: 'referenceDate',
+      code: 'invalid_value',
+      message: 'referenceDate must be a valid date',
+      received: referenceDate
+    });
+  }
+  const riskMix = resolveMix(options.riskMix, DEFAULT_RISK_MIX, 'riskMix', issues);
+  const tierMix = resolveMix(options.tierMix, DEFAULT_TIER_MIX, 'tierMix', issues);
+  throwIfIssues(issues);
+
+  const random = createRandom(options.seed ?? 1);
+  const targets = allocate(random, riskMix, count);
+  const tiers = allocate(random, tierMix, count);
+  const idWidth = Math.max(6, String(count).length);
+  const usedCompanies = new Set<string>();
+  const usedDomains = new Set<string>();
+
+  const dataset: SyntheticDataset = { customers: [], healthData: {}, history: {} };
+
+  for (let i = 0; i < count; i++) {
+    const id = `${idPrefix}${String(i + 1).padStart(idWidth, '0')}`;
+    const tier = tiers[i];
+
+    // Identity
+    const firstName = pick(random, FIRST_NAMES);
+    const lastName = pick(random, LAST_NAMES);
+    const baseCompany = `${pick(random, COMPANY_PREFIXES)} ${pick(random, COMPANY_SUFFIXES)}`;
+    const form = pick(random, COMPANY_FORMS);
+    let company = `${baseCompany}${form}`;
+    for (let n = 2; usedCompanies.has(company); n++) {
+      company = `${baseCompany} ${n}${form}`;
+    }
+    usedCompanies.add(company);
+
+    const tld = pick(random, TOP_LEVEL_DOMAINS);
+    const slug = slugify(company.slice(0, company.length - form.length));
+    let domain = `${slug}.${tld}`;
+    for (let n = 2; usedDomains.has(domain); n++) {
+      domain = `${slug}${n}.${tld}`;
+    }
+    usedDomains.add(domain);
+    const domains = tier === 'basic' || random() < 0.5 ? [domain] : [domain, `app.${domain}`];
+
+    // Dates: created up to four years before the reference date, updated since
+    const createdAt = new Date(referenceDate.getTime() - Math.round(between(random, 30, 1460)) * MS_PER_DAY);
+    const updatedAt = new Date(between(random, createdAt.getTime(), referenceDate.getTime()));
+
+    // Health data
+    const [minValue, maxValue] = CONTRACT_VALUES[tier];
+    const [minSeats, maxSeats] = SEATS[tier];
+    const profile: HealthProfile = {
+      tier,
+      contractValue: Math.round(between(random, minValue, maxValue) / 500) * 500,
+      seats: Math.round(between(random, minSeats, maxSeats)),
+      noise: Array.from({ length: 13 }, () => between(random, -0.12, 0.12)),
+      upgradeDraw: random(),
+      autoRenewDraw: random()
+    };
+    const { healthData, latent, score } = generateHealthData(random, id, profile, targets[i]);
+
+    dataset.customers.push({
+      id,
+      name: `${firstName} ${lastName}`,
+      company,
+      healthScore: score,
+      email: `${slugify(firstName)}.${slugify(lastName)}@${domain}`,
+      subscriptionTier: tier,
+      domains,
+      createdAt: createdAt.toISOString(),
+      updatedAt: updatedAt.toISOString()
+    });
+    dataset.healthData[id] = healthData;
+
+    // History: drift from a past latent value towards the current one
+    if (historyMonths > 0) {
+      const drift = between(random, -0.35, 0.35);
+      const points: SyntheticHistoryPoint[] = [];
+      for (let monthsAgo = historyMonths; monthsAgo > 0; monthsAgo--) {
+        const asOf = new Date(referenceDate);
+        asOf.setUTCMonth(asOf.getUTCMonth() - monthsAgo);
+        if (asOf < createdAt) continue;
+        const past = clamp01(latent + drift * (monthsAgo / historyMonths) + between(random, -0.04, 0.04));
+        points.push({ asOf: asOf.toISOString(), healthData: buildHealthData(id, profile, past) });
+      }
+      points.push({ asOf: referenceDate.toISOString(), healthData });
+      dataset.history[id] = points;
+    }
+  }
+
+  return dataset;
+}
+
+/**
+ * Score a dataset's history, e.g. to load into HealthScoreHistory
+ *
+ * Each result's calculatedAt is its snapshot date and riskLevelSince is
+ * the first snapshot of the current run in that level.
+ *
+ * @param dataset - Dataset generated with historyMonths
+ * @returns Results by customer ID, oldest first
+ *
+ * @example
+ * const history = new HealthScoreHistory();
+ * for (const results of Object.values(scoreSyntheticHistory(dataset))) results.forEach(r => history.record(r));
+ */
+export function scoreSyntheticHistory(dataset: SyntheticDataset): Record<string, HealthScoreResult[]> {
+  return Object.fromEntries(Object.entries(dataset.history).map(([customerId, points]) => {
+    const results: HealthScoreResult[] = [];
+    for (const point of points) {
+      const calculatedAt = new Date(point.asOf);
+      const result = calculateHealthScore(point.healthData);
+      const previous = results[results.length - 1];
+      const riskLevelSince = previous && previous.riskLevel === result.riskLevel
+        ? previous.riskLevelSince
+        : calculatedAt;
+      results.push({ ...result, customerId, calculatedAt, riskLevelSince });
+    }
+    return [customerId, results];
+  }));
+}
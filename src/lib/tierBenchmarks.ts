@@ -0,0 +1,295 @@
+/**
+ * Tier-Aware Normalization Benchmarks
+ *
+ * Normalization caps keyed by subscription tier, so that a healthy basic
+ * account is not penalized against enterprise-sized usage and an enterprise
+ * account does not saturate every metric. Benchmarks can be hand-set or
+ * derived from peer percentiles of the current customer population.
+ *
+ * @module tierBenchmarks
+ */
+
+import type { SubscriptionTier } from '@/data/mock-customers';
+import {
+  createHealthScorer,
+  DEFAULT_SCORING_PROFILE,
+  hashNormalizationProfile,
+  InvalidInputError,
+  type HealthScoreOptions,
+  type HealthScorer,
+  type HealthScoreResult,
+  type NormalizationProfile,
+  type PartialCustomerHealthData,
+  type ScoringProfile
+} from '@/lib/healthCalculator';
+import { scoringVersions, type ScoringVersionRegistry } from '@/lib/scoringVersions';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Normalization caps per subscription tier
+ */
+export type TierBenchmarks = Record<SubscriptionTier, NormalizationProfile>;
+
+/**
+ * A peer customer used to derive benchmarks
+ */
+export interface PeerBenchmarkSample {
+  tier: SubscriptionTier;
+  healthData: PartialCustomerHealthData;
+}
+
+/**
+ * Options for deriving benchmarks from peers
+ */
+export interface DeriveTierBenchmarksOptions {
+  /** Peer percentile that earns a full score (default 90) */
+  percentile?: number;
+  /** Minimum peers per tier and metric; smaller samples keep the fallback cap (default 5) */
+  minSampleSize?: number;
+  /** Benchmarks used where peer data is insufficient (default DEFAULT_TIER_BENCHMARKS) */
+  fallback?: TierBenchmarks;
+}
+
+/**
+ * Scorer that normalizes each customer against its tier's benchmarks
+ */
+export interface TierAwareScorer {
+  /** Benchmarks in use */
+  readonly benchmarks: TierBenchmarks;
+  /** Scorer for a tier; the base profile's scorer when the tier is unknown */
+  scorerForTier(tier?: SubscriptionTier): HealthScorer;
+  /** Calculate a health score relative to the customer's tier */
+  calculate(
+    customerData: PartialCustomerHealthData,
+    tier?: SubscriptionTier,
+    options?: HealthScoreOptions
+  ): HealthScoreResult;
+}
+
+// ============================================================================
+// Default Benchmarks
+// ============================================================================
+
+const SUBSCRIPTION_TIERS: SubscriptionTier[] = ['basic', 'premium', 'enterprise'];
+
+/**
+ * Default benchmarks; premium matches DEFAULT_SCORING_PROFILE
+ */
+export const DEFAULT_TIER_BENCHMARKS: TierBenchmarks = {
+  basic: {
+    payment: {
+      ...DEFAULT_SCORING_PROFILE.normalization.payment,
+      maxOverdueAmount: 2500
+    },
+    engagement: {
+      ...DEFAULT_SCORING_PROFILE.normalization.engagement,
+      maxLoginsPerMonth: 30,
+      maxFeatureUsageCount: 10,
+      maxActiveUserCount: 3
+    },
+    contract: {
+      ...DEFAULT_SCORING_PROFILE.normalization.contract,
+      maxContractValue: 25000
+    },
+    support: DEFAULT_SCORING_PROFILE.normalization.support
+  },
+  premium: DEFAULT_SCORING_PROFILE.normalization,
+  enterprise: {
+    payment: {
+      ...DEFAULT_SCORING_PROFILE.normalization.payment,
+      maxOverdueAmount: 50000
+    },
+    engagement: {
+      ...DEFAULT_SCORING_PROFILE.normalization.engagement,
+      maxLoginsPerMonth: 120,
+      maxFeatureUsageCount: 30,
+      acceptableSupportTickets: 10,
+      elevatedSupportTickets: 30,
+      maxSupportTickets: 60,
+      maxActiveUserCount: 50
+    },
+    contract: {
+      ...DEFAULT_SCORING_PROFILE.normalization.contract,
+      maxContractValue: 250000
+    },
+    support: {
+      ...DEFAULT_SCORING_PROFILE.normalization.support,
+      maxOpenTicketCount: 40
+    }
+  }
+};
+
+// ============================================================================
+// Peer Percentile Derivation
+// ============================================================================
+
+/**
+ * Percentile with linear interpolation between closest ranks
+ */
+function percentileOf(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Peer percentile of a metric, or the fallback when the sample is too small
+ * or the percentile would not be a usable cap
+ */
+function derivedCap(
+  values: (number | undefined)[],
+  p: number,
+  minSampleSize: number,
+  fallback: number,
+  minimum = 0
+): number {
+  const present = values.filter((value): value is number => value !== undefined && Number.isFinite(value));
+  if (present.length < minSampleSize) {
+    return fallback;
+  }
+  const cap = percentileOf(present, p);
+  return cap > minimum ? cap : fallback;
+}
+
+/**
+ * Derive tier benchmarks from the current customer population
+ *
+ * For size-dependent "higher is better" metrics (logins, features, active
+ * users, contract value) the cap becomes the tier's Nth-percentile value,
+ * so customers at or above that percentile of their peers earn a full
+ * component score. The overdue cap is the Nth percentile of contract value
+ * scaled by the fallback's overdue-to-contract ratio. Other caps are kept
+ * from the fallback benchmarks.
+ *
+ * @param population - Peers with their tier and health data
+ * @param options - Derivation options
+ * @returns Benchmarks for every tier
+ * @throws {InvalidInputError} If the percentile is outside 1-100
+ *
+ * @example
+ * const benchmarks = deriveTierBenchmarks(
+ *   mockCustomers.map(customer => ({
+ *     tier: customer.subscriptionTier ?? 'basic',
+ *     healthData: getCustomerHealthData(customer.id)!
+ *   }))
+ * );
+ */
+export function deriveTierBenchmarks(
+  population: PeerBenchmarkSample[],
+  options: DeriveTierBenchmarksOptions = {}
+): TierBenchmarks {
+  const { percentile = 90, minSampleSize = 5, fallback = DEFAULT_TIER_BENCHMARKS } = options;
+
+  if (!Number.isFinite(percentile) || percentile < 1 || percentile > 100) {
+    throw new InvalidInputError(`percentile must be between 1 and 100, got ${percentile}`);
+  }
+
+  const benchmarks = {} as TierBenchmarks;
+
+  for (const tier of SUBSCRIPTION_TIERS) {
+    const peers = population.filter(sample => sample.tier === tier).map(sample => sample.healthData);
+    const base = fallback[tier];
+
+    const maxContractValue = derivedCap(
+      peers.map(data => data.contract?.contractValue), percentile, minSampleSize,
+      base.contract.maxContractValue
+    );
+    const overdueRatio = base.payment.maxOverdueAmount / base.contract.maxContractValue;
+
+    benchmarks[tier] = {
+      payment: {
+        ...base.payment,
+        maxOverdueAmount: Math.max(1, Math.round(maxContractValue * overdueRatio))
+      },
+      engagement: {
+        ...base.engagement,
+        maxLoginsPerMonth: derivedCap(
+          peers.map(data => data.engagement?.loginsPerMonth), percentile, minSampleSize,
+          base.engagement.maxLoginsPerMonth
+        ),
+        maxFeatureUsageCount: derivedCap(
+          peers.map(data => data.engagement?.featureUsageCount), percentile, minSampleSize,
+          base.engagement.maxFeatureUsageCount
+        ),
+        // The active user bonus scales from 1 user, so the cap must exceed 1
+        maxActiveUserCount: derivedCap(
+          peers.map(data => data.engagement?.activeUserCount), percentile, minSampleSize,
+          base.engagement.maxActiveUserCount, 1
+        )
+      },
+      contract: {
+        ...base.contract,
+        maxContractValue
+      },
+      support: { ...base.support }
+    };
+  }
+
+  return benchmarks;
+}
+
+// ============================================================================
+// Tier-Aware Scorer
+// ============================================================================
+
+/**
+ * Create a scorer that normalizes each customer against its tier
+ *
+ * Every tier gets its own validated scorer built from the base profile with
+ * the tier's normalization caps; weights and risk bands are shared. Each
+ * tier profile's version is the base version with a hash of its caps
+ * appended (e.g., '1.0.0+benchmarks.00f3a9c2b17d4e'), so results scored
+ * against different benchmarks never share a version. The base and tier
+ * scorers are registered in the version registry so tier-aware results
+ * can be reproduced and compared; a version that is already registered
+ * reuses the registered scorer.
+ *
+ * @param benchmarks - Normalization caps per tier
+ * @param baseProfile - Profile providing weights and risk bands
+ * @param registry - Version registry to register the scorers in
+ * @returns Tier-aware scorer
+ * @throws {InvalidInputError} If any tier's resulting profile is invalid
+ *
+ * @example
+ * const scorer = createTierAwareScorer();
+ * const result = scorer.calculate(getCustomerHealthData('2')!, 'basic');
+ */
+export function createTierAwareScorer(
+  benchmarks: TierBenchmarks = DEFAULT_TIER_BENCHMARKS,
+  baseProfile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  registry: ScoringVersionRegistry = scoringVersions
+): TierAwareScorer {
+  const registered = (profile: ScoringProfile): HealthScorer => {
+    const scorer = createHealthScorer(profile);
+    const existing = registry.get({
+      algorithm: scorer.algorithmVersion,
+      profile: profile.name,
+      profileVersion: profile.version
+    });
+    return existing?.scorer ?? registry.register(scorer).scorer;
+  };
+
+  const baseScorer = registered(baseProfile);
+  const tierScorers = {} as Record<SubscriptionTier, HealthScorer>;
+  for (const tier of SUBSCRIPTION_TIERS) {
+    tierScorers[tier] = registered({
+      ...baseProfile,
+      name: `${baseProfile.name}-${tier}`,
+      version: `${baseProfile.version}+benchmarks.${hashNormalizationProfile(benchmarks[tier])}`,
+      normalization: benchmarks[tier]
+    });
+  }
+
+  const scorerForTier = (tier?: SubscriptionTier) => (tier ? tierScorers[tier] : baseScorer);
+
+  return {
+    benchmarks,
+    scorerForTier,
+    calculate: (customerData, tier, options = {}) => scorerForTier(tier).calculate(customerData, options)
+  };
+}
@@ -0,0 +1,296 @@
+/**
+ * XLSX Reading
+ *
+ * Minimal reader for the first (or a named) worksheet of an .xlsx workbook,
+ * returning rows of cell text like parseCsvRows. Handles the ZIP container
+ * (stored and deflated entries, decompressed only when read and capped in
+ * size), shared and inline strings, booleans and numbers. Formulas yield
+ * their cached values; dates are returned as Excel serial numbers, since
+ * styles are not interpreted.
+ *
+ * Server-only: uses Node's zlib.
+ *
+ * @module xlsx
+ */
+
+import { inflateRawSync } from 'zlib';
+import type { SourceRow } from '@/lib/csv';
+import { InvalidInputError } from '@/lib/healthCalculator';
+
+// ============================================================================
+// ZIP Container
+// ============================================================================
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Error for content that is not a readable workbook
+ */
+function invalidWorkbook(reason: string): InvalidInputError {
+  const message = `Invalid XLSX file: ${reason}`;
+  return new InvalidInputError(message, [{ path: 'file', code: 'invalid_value', message, received: undefined }]);
+}
+
+/**
+ * A ZIP entry's location; data is decompressed only when read
+ */
+interface ZipEntry {
+  method: number;
+  /** Compressed bytes (a view into the archive) */
+  data: Buffer;
+}
+
+/** Largest decompressed size accepted for a single entry */
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Index the entries of a ZIP archive by path, without decompressing them
+ * @throws {InvalidInputError} If the archive is malformed or uses unsupported features
+ */
+function readZipEntries(buffer: Buffer): Map<string, ZipEntry> {
+  // The end-of-central-directory record sits in the last 64 KiB (22 bytes plus an optional comment)
+  let eocd = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw invalidWorkbook('not a ZIP archive');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw invalidWorkbook('corrupt central directory');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw invalidWorkbook('ZIP64 archives are not supported');
+    }
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw invalidWorkbook(`corrupt entry ${name}`);
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) {
+      throw invalidWorkbook(`corrupt entry ${name}`);
+    }
+    if (method !== 0 && method !== 8) {
+      throw invalidWorkbook(`entry ${name} uses unsupported compression method ${method}`);
+    }
+    entries.set(name, { method, data: buffer.subarray(dataStart, dataStart + compressedSize) });
+  }
+  return entries;
+}
+
+/**
+ * Decompressed text of a ZIP entry, or undefined if the archive has no such entry
+ * @throws {InvalidInputError} If the entry is corrupt or decompresses to more than MAX_ENTRY_BYTES
+ */
+function readZipText(entries: Map<string, ZipEntry>, name: string): string | undefined {
+  const entry = entries.get(name);
+  if (!entry) return undefined;
+  if (entry.method === 0) {
+    if (entry.data.length > MAX_ENTRY_BYTES) {
+      throw invalidWorkbook(`entry ${name} is larger than ${MAX_ENTRY_BYTES / 1024 / 1024} MB`);
+    }
+    return entry.data.toString('utf8');
+  }
+
+  try {
+    return inflateRawSync(entry.data, { maxOutputLength: MAX_ENTRY_BYTES }).toString('utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw invalidWorkbook(`entry ${name} is larger than ${MAX_ENTRY_BYTES / 1024 / 1024} MB when decompressed`);
+    }
+    throw invalidWorkbook(`corrupt entry ${name}`);
+  }
+}
+
+// ============================================================================
+// Spreadsheet XML
+// ============================================================================
+
+/** Rows and columns in an Excel worksheet (the last cell is XFD1048576) */
+const MAX_XLSX_ROWS = 1048576;
+const MAX_XLSX_COLUMNS = 16384;
+
+/**
+ * Error for a cell position beyond the readable range
+ */
+function outOfBounds(reason: string, max: number, received: number): InvalidInputError {
+  const message = `Invalid XLSX file: ${reason}`;
+  return new InvalidInputError(message, [
+    { path: 'file', code: 'out_of_range', message, expected: { max }, received }
+  ]);
+}
+
+/**
+ * Decode the XML entities that appear in cell text
+ */
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
+
+/**
+ * Value of an attribute in an element's attribute text
+ */
+function attribute(attributes: string, name: string): string | undefined {
+  return new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes)?.[1];
+}
+
+/**
+ * Concatenated text of every <t> element (rich text runs included)
+ */
+function textContent(xml: string): string {
+  let text = '';
+  for (const match of xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += decodeXml(match[1]);
+  }
+  return text;
+}
+
+/**
+ * Zero-based column index of a cell reference (e.g., 'AB12' -> 27)
+ */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Resolve the worksheet path for a sheet name, or the first sheet
+ */
+function resolveSheetPath(entries: Map<string, ZipEntry>, sheetName?: string): string {
+  const workbook = readZipText(entries, 'xl/workbook.xml');
+  const rels = readZipText(entries, 'xl/_rels/workbook.xml.rels');
+  if (!workbook || !rels) {
+    throw invalidWorkbook('missing workbook');
+  }
+
+  const sheets = [...workbook.matchAll(/<sheet\b([^>]*)\/?>/g)].map(match => ({
+    name: decodeXml(attribute(match[1], 'name') ?? ''),
+    relationId: attribute(match[1], 'r:id')
+  }));
+  const sheet = sheetName === undefined ? sheets[0] : sheets.find(candidate => candidate.name === sheetName);
+  if (!sheet) {
+    throw invalidWorkbook(sheetName === undefined ? 'workbook has no sheets' : `no sheet named ${sheetName}`);
+  }
+
+  const relation = [...rels.matchAll(/<Relationship\b([^>]*)\/?>/g)]
+    .map(match => match[1])
+    .find(attributes => attribute(attributes, 'Id') === sheet.relationId);
+  const target = relation ? attribute(relation, 'Target') : undefined;
+  if (!target) {
+    throw invalidWorkbook(`sheet ${sheet.name} has no worksheet part`);
+  }
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Read a worksheet of an .xlsx workbook as rows of cell text
+ *
+ * Row and column positions are preserved: gaps become empty strings, and
+ * fully blank rows are dropped (as in parseCsvRows). Positions come from the
+ * file, so they are bounded before any cells are laid out: a non-blank row
+ * past maxRowNumber, or a cell past Excel's last column (XFD), is rejected.
+ *
+ * @param buffer - Workbook file contents
+ * @param sheetName - Worksheet to read (default: the first sheet)
+ * @param maxRowNumber - Last 1-based row number that may hold data (default: Excel's last row)
+ * @returns Rows of cell text with their worksheet row numbers
+ * @throws {InvalidInputError} If the file is not a readable workbook or has data outside the bounds
+ *
+ * @example
+ * const rows = readXlsxRows(await readFile('customers.xlsx'));
+ * // [{ rowNumber: 1, cells: ['name', 'company', 'healthScore'] }, { rowNumber: 2, cells: ['Ana Lima', ...] }]
+ */
+export function readXlsxRows(buffer: Buffer, sheetName?: string, maxRowNumber = MAX_XLSX_ROWS): SourceRow[] {
+  const entries = readZipEntries(buffer);
+  const sheetPath = resolveSheetPath(entries, sheetName);
+  const sheet = readZipText(entries, sheetPath);
+  if (sheet === undefined) {
+    throw invalidWorkbook(`missing worksheet ${sheetPath}`);
+  }
+
+  const sharedStrings = [...(readZipText(entries, 'xl/sharedStrings.xml') ?? '')
+    .matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(match => textContent(match[1]));
+
+  const rows: SourceRow[] = [];
+  let nextRow = 1;
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const reference = Number(attribute(rowMatch[1], 'r'));
+    const rowNumber = Number.isInteger(reference) && reference > 0 ? reference : nextRow;
+    nextRow = rowNumber + 1;
+
+    const cells: string[] = [];
+    let nextColumn = 0;
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cellMatch[1], 'r');
+      const column = reference ? columnIndex(reference) : nextColumn;
+      if (column >= MAX_XLSX_COLUMNS) {
+        throw outOfBounds(`cell ${reference ?? `${column + 1}`} in row ${rowNumber} is past the last column (XFD)`,
+          MAX_XLSX_COLUMNS, column + 1);
+      }
+      nextColumn = column + 1;
+
+      const body = cellMatch[2] ?? '';
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      let value: string;
+      switch (attribute(cellMatch[1], 't')) {
+        case 's':
+          value = sharedStrings[Number(raw)] ?? '';
+          break;
+        case 'inlineStr':
+          value = textContent(body);
+          break;
+        case 'b':
+          value = raw === '1' ? 'true' : 'false';
+          break;
+        default:
+          value = raw === undefined ? '' : decodeXml(raw);
+      }
+
+      while (cells.length < column) cells.push('');
+      cells[column] = value;
+    }
+
+    if (!cells.some(cell => cell.trim() !== '')) continue;
+    if (rowNumber > maxRowNumber) {
+      throw outOfBounds(`row ${rowNumber} is past the last readable row (${maxRowNumber})`, maxRowNumber, rowNumber);
+    }
+    rows.push({ rowNumber, cells });
+  }
+
+  return rows.sort((a, b) => a.rowNumber - b.rowNumber);
+}